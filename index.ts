@@ -1,11 +1,32 @@
 // Schema and related exports
-import { Schema as _Schema, VirtualType, ValidationError, DuplicateKeyError } from './src/schema'
-export { VirtualType, ValidationError, DuplicateKeyError }
+import {
+  Schema as _Schema,
+  VirtualType,
+  ValidationError,
+  ValidatorError,
+  DuplicateKeyError,
+  WriteConflictError,
+  VersionError,
+  CastError,
+  StrictModeError
+} from './src/schema'
+export {
+  VirtualType,
+  ValidationError,
+  ValidatorError,
+  DuplicateKeyError,
+  WriteConflictError,
+  VersionError,
+  CastError,
+  StrictModeError
+}
 export const Schema = _Schema
 export type {
   FieldOptions,
   ValidatorFunction,
   SchemaOptions,
+  StrictMode,
+  SchemaPlugin,
   SearchIndexDescriptor,
   SaveHookContext,
   PreDeleteHookContext,
@@ -29,10 +50,27 @@ export type {
   QueryOperator,
   Update,
   UpdateOperator,
+  BitwiseUpdate,
+  ArrayFilters,
   QueryOptions,
   PopulateOptions,
+  SessionOptions,
+  UpdateResult,
   IDocument
 } from './src/model'
+export type { PushModifiers } from './src/update-paths'
+export type { BsonTypeAlias, JsonSchema } from './src/query-operators'
+export type { GeoJsonGeometry, GeoQueryOperators } from './src/geo'
+
+// Bulk writes
+import { BulkWriteResult as _BulkWriteResult } from './src/bulk-write'
+export const BulkWriteResult = _BulkWriteResult
+export type { BulkWriteOperation, BulkWriteOptions, BulkWriteError } from './src/bulk-write'
+
+// Query cursors
+import { QueryCursor as _QueryCursor } from './src/query-cursor'
+export const QueryCursor = _QueryCursor
+export type { CursorOptions, EachAsyncOptions } from './src/query-cursor'
 
 // Query builders
 import { QueryBuilder as _QueryBuilder } from './src/query-builder'
@@ -42,13 +80,23 @@ export const QueryBuilder = _QueryBuilder
 export const DocumentQueryBuilder = _DocumentQueryBuilder
 export const FindQueryBuilder = _FindQueryBuilder
 
-// ObjectId
+// ObjectId and the other value types
 import { ObjectId as _ObjectId } from './src/objectid'
+import { Decimal128 as _Decimal128 } from './src/decimal128'
+import { UUID as _UUID } from './src/uuid'
+import { SchemaMap as _SchemaMap } from './src/cast'
 export const ObjectId = _ObjectId
+export const Decimal128 = _Decimal128
+export const UUID = _UUID
+export const SchemaMap = _SchemaMap
 
 // Types namespace (Mongoose-compatible)
 export const Types = {
-  ObjectId: _ObjectId
+  ObjectId: _ObjectId,
+  Decimal128: _Decimal128,
+  UUID: _UUID,
+  Buffer: Buffer,
+  Map: _SchemaMap
 }
 
 // Aggregation pipeline
@@ -60,13 +108,37 @@ export type {
   ProjectStage,
   ProjectionExpression,
   LookupStage,
+  GraphLookupStage,
+  UnionWithStage,
   UnwindStage,
   SortStage,
   ReplaceRootStage,
   VectorSearchStage,
-  AtlasSearchStage
+  AtlasSearchStage,
+  GeoNearStage,
+  SetWindowFieldsStage,
+  WindowOutput,
+  WindowSpec,
+  DensifyStage,
+  FillStage,
+  UpdatePipelineStage
 } from './src/aggregation'
 
+// Change streams
+import { ChangeStream as _ChangeStream } from './src/change-stream'
+export const ChangeStream = _ChangeStream
+export type {
+  ChangeEvent,
+  ChangeOperationType,
+  ChangeStreamOptions,
+  UpdateDescription
+} from './src/change-stream'
+
+// Sessions and transactions
+import { ClientSession as _ClientSession } from './src/session'
+export const ClientSession = _ClientSession
+export type { TransactionOptions } from './src/session'
+
 // Database and connection management (Mongoose-like API)
 import { Database as _Database } from './src/database'
 export const Database = _Database
@@ -78,19 +150,23 @@ import {
   createDatabase as _createDatabase,
   model as _model,
   getModel as _getModel,
+  plugin as _plugin,
   clearRegistry as _clearRegistry,
   disconnect as _disconnect,
   dropDatabase as _dropDatabase,
-  getDefaultDatabase as _getDefaultDatabase
+  getDefaultDatabase as _getDefaultDatabase,
+  startSession as _startSession
 } from './src/connection'
 export const connect = _connect
 export const createDatabase = _createDatabase
 export const model = _model
 export const getModel = _getModel
+export const plugin = _plugin
 export const clearRegistry = _clearRegistry
 export const disconnect = _disconnect
 export const dropDatabase = _dropDatabase
 export const getDefaultDatabase = _getDefaultDatabase
+export const startSession = _startSession
 
 // Storage strategies (for custom implementations)
 import {
@@ -101,7 +177,12 @@ import {
 export const MemoryStorageStrategy = _MemoryStorageStrategy
 export const FileStorageStrategy = _FileStorageStrategy
 export const SqliteStorageStrategy = _SqliteStorageStrategy
-export type { StorageStrategy, FileStorageOptions, SqliteStorageOptions } from './src/storage'
+export type {
+  StorageStrategy,
+  StorageTransaction,
+  FileStorageOptions,
+  SqliteStorageOptions
+} from './src/storage'
 
 // Default export - mongoose-compatible structure
 // Allows: import mongoose from 'memgoose'
@@ -113,9 +194,9 @@ const memgoose = {
   Model: _Model,
   Document: _Document,
   ObjectId: _ObjectId,
-  Types: {
-    ObjectId: _ObjectId
-  },
+  Decimal128: _Decimal128,
+  UUID: _UUID,
+  Types,
 
   // Query builders
   QueryBuilder: _QueryBuilder,
@@ -129,10 +210,16 @@ const memgoose = {
   createDatabase: _createDatabase,
   model: _model,
   getModel: _getModel,
+  plugin: _plugin,
   clearRegistry: _clearRegistry,
   disconnect: _disconnect,
   dropDatabase: _dropDatabase,
   getDefaultDatabase: _getDefaultDatabase,
+  startSession: _startSession,
+  ClientSession: _ClientSession,
+  ChangeStream: _ChangeStream,
+  BulkWriteResult: _BulkWriteResult,
+  QueryCursor: _QueryCursor,
 
   // Storage strategies (StorageStrategy is a type, not included here)
   MemoryStorageStrategy: _MemoryStorageStrategy,
@@ -142,7 +229,12 @@ const memgoose = {
   // Errors and utilities
   VirtualType,
   ValidationError,
-  DuplicateKeyError
+  ValidatorError,
+  DuplicateKeyError,
+  WriteConflictError,
+  VersionError,
+  CastError,
+  StrictModeError
 }
 
 export default memgoose
@@ -0,0 +1,107 @@
+import type { DensifyStage } from './aggregation'
+import { setField } from './aggregation-window'
+
+type Doc = Record<string, unknown>
+
+export type DensifyDeps = {
+  resolveFieldPath: (doc: Doc, path: string) => unknown
+  // BSON order of two values, for sorting the output
+  compareValues: (a: unknown, b: unknown) => number
+  addToDate: (date: Date, unit: string, amount: number) => Date
+}
+
+// Most documents one $densify stage may add
+const MAX_GENERATED_DOCUMENTS = 500000
+
+/**
+ * $densify: adds a document for each missing step of `field`, in each partition
+ * Documents come out by partition (in order of first appearance) and sorted by the field;
+ * those without a value in the field pass through first.
+ */
+export function runDensifyStage(data: Doc[], stage: DensifyStage, deps: DensifyDeps): Doc[] {
+  const { field, partitionByFields = [], range } = stage
+  if (!(range.step > 0)) {
+    throw new Error('memgoose: $densify step must be a positive number')
+  }
+  const valueOf = (doc: Doc) => deps.resolveFieldPath(doc, `$${field}`) as number | Date
+
+  const passThrough: Doc[] = []
+  const partitions = new Map<string, Doc[]>()
+  for (const doc of data) {
+    const value = valueOf(doc)
+    if (value === null || value === undefined) {
+      passThrough.push(doc)
+      continue
+    }
+    if (range.unit ? !(value instanceof Date) : typeof value !== 'number') {
+      throw new Error(
+        `memgoose: $densify ${range.unit ? 'with' : 'without'} a unit requires ` +
+          `${range.unit ? 'dates' : 'numbers'} in ${field}`
+      )
+    }
+    const key = JSON.stringify(
+      partitionByFields.map(name => deps.resolveFieldPath(doc, `$${name}`) ?? null)
+    )
+    const partition = partitions.get(key)
+    if (partition) partition.push(doc)
+    else partitions.set(key, [doc])
+  }
+  // Explicit bounds fill the range even without documents
+  if (partitions.size === 0 && partitionByFields.length === 0 && Array.isArray(range.bounds)) {
+    partitions.set('[]', [])
+  }
+
+  const compare = (a: Doc, b: Doc) => deps.compareValues(valueOf(a), valueOf(b))
+  const allValues = [...partitions.values()].flat().map(valueOf)
+  // The k-th step from `lower`; dates always step from the lower bound so months do not drift
+  const stepFrom = (lower: number | Date, k: number) =>
+    lower instanceof Date
+      ? deps.addToDate(lower, range.unit!, range.step * k)
+      : lower + range.step * k
+
+  let generatedCount = 0
+  const results = [...passThrough]
+  for (const docs of partitions.values()) {
+    const values = docs.map(valueOf)
+    const [lower, upper] =
+      range.bounds === 'full'
+        ? extremes(allValues, deps)
+        : range.bounds === 'partition'
+          ? extremes(values, deps)
+          : range.bounds
+    const existing = new Set(values.map(Number))
+    // The highest value is part of 'full' and 'partition' ranges; explicit upper bounds are not
+    const inclusive = !Array.isArray(range.bounds)
+
+    const generated: Doc[] = []
+    for (let k = 0; ; k++) {
+      const value = stepFrom(lower, k)
+      const comparison = deps.compareValues(value, upper)
+      if (comparison > 0 || (comparison === 0 && !inclusive)) break
+      if (existing.has(Number(value))) continue
+      if (++generatedCount > MAX_GENERATED_DOCUMENTS) {
+        throw new Error(
+          `memgoose: $densify would add more than ${MAX_GENERATED_DOCUMENTS} documents`
+        )
+      }
+      const doc: Doc = {}
+      setField(doc, field, value)
+      for (const name of partitionByFields) {
+        setField(doc, name, deps.resolveFieldPath(docs[0], `$${name}`))
+      }
+      generated.push(doc)
+    }
+    results.push(...[...docs, ...generated].sort(compare))
+  }
+  return results
+}
+
+// Lowest and highest of some numbers or dates
+function extremes(values: Array<number | Date>, deps: DensifyDeps): [number | Date, number | Date] {
+  let [lowest, highest] = [values[0], values[0]]
+  for (const value of values) {
+    if (deps.compareValues(value, lowest) < 0) lowest = value
+    if (deps.compareValues(value, highest) > 0) highest = value
+  }
+  return [lowest, highest]
+}
@@ -5,6 +5,8 @@ import type {
   GroupStage,
   ProjectStage,
   LookupStage,
+  GraphLookupStage,
+  UnionWithStage,
   UnwindStage,
   SortStage,
   AccumulatorExpression,
@@ -15,16 +17,41 @@ import type {
   FacetStage,
   MergeStage,
   VectorSearchStage,
-  AtlasSearchStage
+  AtlasSearchStage,
+  GeoNearStage,
+  SetWindowFieldsStage,
+  WindowOutput,
+  DensifyStage,
+  FillStage,
+  UpdatePipelineStage
 } from './aggregation'
 import type { Database } from './database'
 import { ObjectId } from './objectid'
+import { Decimal128 } from './decimal128'
 import { runVectorSearchStage } from './aggregation-vector-search'
 import { runAtlasSearchStage } from './aggregation-atlas-search'
+import { geoNearQuery, runGeoNearStage } from './aggregation-geo-near'
+import { runSetWindowFieldsStage, setField } from './aggregation-window'
+import { runDensifyStage } from './aggregation-densify'
+import { isPlainObject } from './cast'
 
 // Type for aggregation results which can be dynamically shaped
 type AggregationResult = Record<string, unknown>
 
+// The values a $redact expression decides with
+const REDACT_VARIABLES = { $$DESCEND: '$$DESCEND', $$PRUNE: '$$PRUNE', $$KEEP: '$$KEEP' }
+
+function isNumeric(value: unknown): value is number | Decimal128 {
+  return typeof value === 'number' || value instanceof Decimal128
+}
+
+// Sum of two numbers; the sum is a Decimal128 when either one is
+function addNumbers(a: unknown, b: number | Decimal128): number | Decimal128 {
+  if (a instanceof Decimal128) return a.add(b)
+  if (b instanceof Decimal128) return b.add(a as number)
+  return (a as number) + b
+}
+
 export class AggregationEngine<T extends object = Record<string, unknown>> {
   constructor(
     private model: Model<T>,
@@ -41,19 +68,55 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
       const matchQuery = pipeline[0].$match
       results = (await this.model.find(matchQuery)) as AggregationResult[]
       startIndex = 1 // Skip the first $match stage since we already applied it
+    } else if (pipeline.length > 0 && '$geoNear' in pipeline[0]) {
+      // Narrow candidates with the spatial index; the stage itself still adds the distances
+      const nearQuery = geoNearQuery(pipeline[0].$geoNear, this.model._getGeoIndexFields())
+      results = (await this.model.find((nearQuery ?? {}) as Query<T>)) as AggregationResult[]
+    } else if (pipeline.length > 0 && '$documents' in pipeline[0]) {
+      // The $documents stage supplies the input itself
+      results = []
     } else {
       // Start with all documents if first stage is not $match
       results = (await this.model.find({} as Query<T>)) as AggregationResult[]
     }
 
     // Apply remaining stages sequentially
-    for (let i = startIndex; i < pipeline.length; i++) {
-      results = await this.executeStage(results, pipeline[i])
-    }
+    return this.executeOnDocuments(results, pipeline.slice(startIndex))
+  }
 
+  // Run pipeline stages over the given documents instead of the model's collection
+  async executeOnDocuments(
+    documents: AggregationResult[],
+    pipeline: AggregationPipeline<T>
+  ): Promise<AggregationResult[]> {
+    let results = documents
+    for (const stage of pipeline) {
+      results = await this.executeStage(results, stage)
+    }
     return results
   }
 
+  // Compute the new version of a document from a pipeline-style update
+  applyUpdatePipeline(
+    doc: AggregationResult,
+    pipeline: UpdatePipelineStage<T>[]
+  ): AggregationResult {
+    let results = [doc]
+    for (const stage of pipeline) {
+      if ('$set' in stage) results = this.addFields(results, stage.$set)
+      else if ('$addFields' in stage) results = this.addFields(results, stage.$addFields)
+      else if ('$project' in stage) results = this.project(results, stage.$project)
+      else if ('$unset' in stage) results = this.unset(results, stage.$unset)
+      else if ('$replaceRoot' in stage) results = this.replaceRoot(results, stage.$replaceRoot)
+      else if ('$replaceWith' in stage) {
+        results = this.replaceRoot(results, { newRoot: stage.$replaceWith })
+      } else {
+        throw new Error(`memgoose: ${Object.keys(stage)[0]} is not allowed in an update pipeline`)
+      }
+    }
+    return results[0]
+  }
+
   private async executeStage(
     data: AggregationResult[],
     stage: AggregationStage<T>
@@ -62,6 +125,7 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     if ('$group' in stage) return this.group(data, stage.$group)
     if ('$project' in stage) return this.project(data, stage.$project)
     if ('$lookup' in stage) return await this.lookup(data, stage.$lookup)
+    if ('$graphLookup' in stage) return await this.graphLookup(data, stage.$graphLookup)
     if ('$unwind' in stage) return this.unwind(data, stage.$unwind)
     if ('$sort' in stage) return this.sort(data, stage.$sort)
     if ('$limit' in stage) return data.slice(0, stage.$limit)
@@ -77,6 +141,17 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     if ('$merge' in stage) return await this.merge(data, stage.$merge)
     if ('$vectorSearch' in stage) return this.vectorSearch(data, stage.$vectorSearch)
     if ('$search' in stage) return this.atlasSearch(data, stage.$search)
+    if ('$geoNear' in stage) return this.geoNear(data, stage.$geoNear)
+    if ('$setWindowFields' in stage) return this.setWindowFields(data, stage.$setWindowFields)
+    if ('$set' in stage) return this.addFields(data, stage.$set)
+    if ('$unset' in stage) return this.unset(data, stage.$unset)
+    if ('$replaceWith' in stage) return this.replaceRoot(data, { newRoot: stage.$replaceWith })
+    if ('$unionWith' in stage) return await this.unionWith(data, stage.$unionWith)
+    if ('$documents' in stage) return stage.$documents.map(doc => ({ ...doc }))
+    if ('$sortByCount' in stage) return this.sortByCount(data, stage.$sortByCount)
+    if ('$redact' in stage) return this.redact(data, stage.$redact)
+    if ('$densify' in stage) return this.densify(data, stage.$densify)
+    if ('$fill' in stage) return this.fill(data, stage.$fill)
 
     throw new Error(`Unknown aggregation stage: ${Object.keys(stage)[0]}`)
   }
@@ -110,6 +185,84 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     })
   }
 
+  private geoNear(data: AggregationResult[], stage: GeoNearStage): AggregationResult[] {
+    return runGeoNearStage(data, stage, {
+      resolveFieldPath: (doc, path) => this.resolveFieldPath(doc, path),
+      matchDocument: (doc, query) =>
+        (this.model as unknown as { _matches: (d: unknown, q: Query<T>) => boolean })._matches(
+          doc,
+          query as Query<T>
+        ),
+      geoIndexFields: this.model._getGeoIndexFields()
+    })
+  }
+
+  private setWindowFields(
+    data: AggregationResult[],
+    stage: SetWindowFieldsStage
+  ): AggregationResult[] {
+    return runSetWindowFieldsStage(data, stage, {
+      evaluate: (expr, doc) => this.evaluateExpression(expr as ProjectionExpression, doc),
+      compareValues: (a, b) => this.compareValues(a, b),
+      accumulate: (accumulator, docs) => {
+        let value = this.initAccumulator(accumulator)
+        for (const doc of docs) value = this.applyAccumulator(value, accumulator, doc)
+        return this.finalizeAccumulator(accumulator, value)
+      },
+      addToDate: (date, unit, amount) => this.addToDate(date, unit, amount)
+    })
+  }
+
+  private densify(data: AggregationResult[], stage: DensifyStage): AggregationResult[] {
+    return runDensifyStage(data, stage, {
+      resolveFieldPath: (doc, path) => this.resolveFieldPath(doc, path),
+      compareValues: (a, b) => this.compareValues(a, b),
+      addToDate: (date, unit, amount) => this.addToDate(date, unit, amount)
+    })
+  }
+
+  // The locf and linear methods are the $locf and $linearFill window functions; values then
+  // fill what is still null or missing
+  private fill(data: AggregationResult[], stage: FillStage): AggregationResult[] {
+    const { sortBy, partitionBy, partitionByFields, output } = stage
+    const methods: Record<string, WindowOutput> = {}
+    const values: Array<[string, unknown]> = []
+    for (const [field, spec] of Object.entries(output)) {
+      if ('value' in spec) values.push([field, spec.value])
+      else if (spec.method === 'locf') methods[field] = { $locf: `$${field}` }
+      else if (spec.method === 'linear') methods[field] = { $linearFill: `$${field}` }
+      else throw new Error(`memgoose: unsupported $fill method ${String(spec.method)}`)
+    }
+    if (Object.keys(methods).length > 0 && !sortBy) {
+      throw new Error('memgoose: $fill with a method requires sortBy')
+    }
+
+    // Sorting and partitioning also apply to value-only fills
+    let results = data
+    const grouped = sortBy !== undefined || partitionBy !== undefined || !!partitionByFields
+    if (grouped || Object.keys(methods).length > 0) {
+      results = this.setWindowFields(data, {
+        partitionBy: partitionByFields
+          ? Object.fromEntries(partitionByFields.map(name => [name, `$${name}`]))
+          : partitionBy,
+        sortBy,
+        output: methods
+      })
+    }
+    if (values.length === 0) return results
+
+    return results.map(doc => {
+      const filled = { ...doc }
+      for (const [field, value] of values) {
+        const current = this.resolveFieldPath(doc, `$${field}`)
+        if (current === null || current === undefined) {
+          setField(filled, field, this.evaluateExpression(value as ProjectionExpression, doc))
+        }
+      }
+      return filled
+    })
+  }
+
   private group(data: AggregationResult[], groupStage: GroupStage<T>): AggregationResult[] {
     const { _id: groupKey, ...accumulators } = groupStage
     const groups = new Map<string, AggregationResult>()
@@ -172,23 +325,33 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     return results.map(doc => {
       const finalized = { ...doc }
       for (const [field, accumulator] of Object.entries(accumulators)) {
-        if (accumulator !== null && typeof accumulator === 'object') {
-          if ('$avg' in accumulator) {
-            const avgData = finalized[field] as { sum: number; count: number }
-            finalized[field] = avgData.count > 0 ? avgData.sum / avgData.count : null
-          } else if ('$stdDevPop' in accumulator) {
-            const values = (finalized[field] as { values: number[] }).values
-            finalized[field] = this.calculateStdDev(values, false)
-          } else if ('$stdDevSamp' in accumulator) {
-            const values = (finalized[field] as { values: number[] }).values
-            finalized[field] = this.calculateStdDev(values, true)
-          }
+        if (accumulator !== null && field !== '_id') {
+          finalized[field] = this.finalizeAccumulator(accumulator, finalized[field])
         }
       }
       return finalized
     })
   }
 
+  // Final value of an accumulator (e.g., the average from its sum and count)
+  private finalizeAccumulator(
+    accumulator: AccumulatorExpression | string,
+    value: unknown
+  ): unknown {
+    if (typeof accumulator !== 'object') return value
+    if ('$avg' in accumulator) {
+      const avgData = value as { sum: number; count: number }
+      return avgData.count > 0 ? avgData.sum / avgData.count : null
+    }
+    if ('$stdDevPop' in accumulator) {
+      return this.calculateStdDev((value as { values: number[] }).values, false)
+    }
+    if ('$stdDevSamp' in accumulator) {
+      return this.calculateStdDev((value as { values: number[] }).values, true)
+    }
+    return value
+  }
+
   private initAccumulator(accumulator: AccumulatorExpression | string): unknown {
     if (typeof accumulator === 'string') return undefined
 
@@ -224,12 +387,12 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
       }
       if (typeof value === 'string') {
         const fieldValue = this.resolveFieldPath(doc, value)
-        return (current as number) + (typeof fieldValue === 'number' ? fieldValue : 0)
+        return addNumbers(current, isNumeric(fieldValue) ? fieldValue : 0)
       }
       // Handle expression objects like { $multiply: ['$price', '$quantity'] }
       if (typeof value === 'object' && value !== null) {
         const evaluated = this.evaluateExpression(value, doc)
-        return (current as number) + (typeof evaluated === 'number' ? evaluated : 0)
+        return addNumbers(current, isNumeric(evaluated) ? evaluated : 0)
       }
     }
 
@@ -412,42 +575,61 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
       }
 
       if ('$cond' in expr) {
-        const [condition, trueValue, falseValue] = expr.$cond
+        const [condition, trueValue, falseValue] = Array.isArray(expr.$cond)
+          ? expr.$cond
+          : [expr.$cond.if, expr.$cond.then, expr.$cond.else]
         const condResult = this.evaluateCondition(condition, doc)
         return condResult
           ? this.evaluateExpression(trueValue as ProjectionExpression, doc)
           : this.evaluateExpression(falseValue as ProjectionExpression, doc)
       }
 
+      // Arithmetic is exact when an operand is a Decimal128 (the result is one too)
       if ('$add' in expr) {
-        return expr.$add.reduce((sum: number, operand) => {
-          const value = typeof operand === 'string' ? this.resolveFieldPath(doc, operand) : operand
-          return sum + (typeof value === 'number' ? value : 0)
-        }, 0)
+        const values = expr.$add.map(operand => this.arithmeticOperand(operand, doc))
+        if (values.some(value => value instanceof Decimal128)) {
+          return values.reduce(
+            (sum: Decimal128, value) => (isNumeric(value) ? sum.add(value) : sum),
+            new Decimal128('0')
+          )
+        }
+        return values.reduce(
+          (sum: number, value) => sum + (typeof value === 'number' ? value : 0),
+          0
+        )
       }
 
       if ('$subtract' in expr) {
-        const [a, b] = expr.$subtract
-        const valueA = typeof a === 'string' ? this.resolveFieldPath(doc, a) : a
-        const valueB = typeof b === 'string' ? this.resolveFieldPath(doc, b) : b
+        const [valueA, valueB] = expr.$subtract.map(operand => this.arithmeticOperand(operand, doc))
+        if (valueA instanceof Decimal128 || valueB instanceof Decimal128) {
+          return Decimal128.from(isNumeric(valueA) ? valueA : 0).subtract(
+            isNumeric(valueB) ? valueB : 0
+          )
+        }
         return (typeof valueA === 'number' ? valueA : 0) - (typeof valueB === 'number' ? valueB : 0)
       }
 
       if ('$multiply' in expr) {
-        return expr.$multiply.reduce((product: number, operand) => {
-          const value = typeof operand === 'string' ? this.resolveFieldPath(doc, operand) : operand
-          return product * (typeof value === 'number' ? value : 1)
-        }, 1)
+        const values = expr.$multiply.map(operand => this.arithmeticOperand(operand, doc))
+        if (values.some(value => value instanceof Decimal128)) {
+          return values.reduce(
+            (product: Decimal128, value) => (isNumeric(value) ? product.multiply(value) : product),
+            new Decimal128('1')
+          )
+        }
+        return values.reduce(
+          (product: number, value) => product * (typeof value === 'number' ? value : 1),
+          1
+        )
       }
 
       if ('$divide' in expr) {
-        const [a, b] = expr.$divide
-        const valueA = typeof a === 'string' ? this.resolveFieldPath(doc, a) : a
-        const valueB = typeof b === 'string' ? this.resolveFieldPath(doc, b) : b
-        if (typeof valueA === 'number' && typeof valueB === 'number' && valueB !== 0) {
-          return valueA / valueB
+        const [valueA, valueB] = expr.$divide.map(operand => this.arithmeticOperand(operand, doc))
+        if (!isNumeric(valueA) || !isNumeric(valueB) || Number(valueB) === 0) return null
+        if (valueA instanceof Decimal128 || valueB instanceof Decimal128) {
+          return Decimal128.from(valueA).divide(valueB)
         }
-        return null
+        return (valueA as number) / (valueB as number)
       }
 
       if ('$ifNull' in expr) {
@@ -841,7 +1023,7 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
             ? this.resolveFieldPath(doc, arrayField)
             : this.evaluateExpression(arrayField as ProjectionExpression, doc)
         if (!Array.isArray(array)) return false
-        return array.includes(value)
+        return array.includes(this.evaluateExpression(value as ProjectionExpression, doc))
       }
 
       if ('$indexOfArray' in expr) {
@@ -915,8 +1097,10 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
               ? this.evaluateExpression(expr.$toDecimal as ProjectionExpression, doc)
               : expr.$toDecimal
         if (value === null || value === undefined) return null
-        const num = Number(value)
-        return isNaN(num) ? null : num
+        if (typeof value === 'boolean') return new Decimal128(value ? '1' : '0')
+        return Decimal128.isValid(value)
+          ? Decimal128.from(value as Decimal128 | string | number)
+          : null
       }
 
       if ('$toDate' in expr) {
@@ -981,11 +1165,14 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
               const intVal = Number(value)
               return isNaN(intVal) ? (onError ?? null) : Math.trunc(intVal)
             }
-            case 'double':
-            case 'decimal': {
+            case 'double': {
               const doubleVal = Number(value)
               return isNaN(doubleVal) ? (onError ?? null) : doubleVal
             }
+            case 'decimal':
+              return Decimal128.isValid(value)
+                ? Decimal128.from(value as Decimal128 | string | number)
+                : (onError ?? null)
             case 'bool':
               return Boolean(value)
             case 'date':
@@ -1013,6 +1200,8 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
         if (Array.isArray(value)) return 'array'
         if (value instanceof Date) return 'date'
         if (value instanceof ObjectId) return 'objectId'
+        if (value instanceof Decimal128) return 'decimal'
+        if (value instanceof Uint8Array) return 'binData'
         if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double'
         if (typeof value === 'boolean') return 'bool'
         if (typeof value === 'string') return 'string'
@@ -1020,6 +1209,30 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
         return 'unknown'
       }
 
+      // Comparison operators
+      if ('$cmp' in expr) {
+        const [a, b] = expr.$cmp
+        return Math.sign(this.compareExpressionValues(a, b, doc))
+      }
+      if ('$eq' in expr) return this.compareExpressionValues(...expr.$eq, doc) === 0
+      if ('$ne' in expr) return this.compareExpressionValues(...expr.$ne, doc) !== 0
+      if ('$gt' in expr) return this.compareExpressionValues(...expr.$gt, doc) > 0
+      if ('$gte' in expr) return this.compareExpressionValues(...expr.$gte, doc) >= 0
+      if ('$lt' in expr) return this.compareExpressionValues(...expr.$lt, doc) < 0
+      if ('$lte' in expr) return this.compareExpressionValues(...expr.$lte, doc) <= 0
+
+      // Boolean operators
+      if ('$and' in expr) {
+        return expr.$and.every(operand => this.evaluateCondition(operand, doc))
+      }
+      if ('$or' in expr) {
+        return expr.$or.some(operand => this.evaluateCondition(operand, doc))
+      }
+      if ('$not' in expr) {
+        const operand = Array.isArray(expr.$not) ? expr.$not[0] : expr.$not
+        return !this.evaluateCondition(operand, doc)
+      }
+
       // Conditional operators
       if ('$switch' in expr) {
         const { branches, default: defaultValue } = expr.$switch
@@ -1086,6 +1299,15 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     return expr
   }
 
+  // Operand of an arithmetic operator: a field path, a nested expression or a literal
+  private arithmeticOperand(operand: unknown, doc: AggregationResult): unknown {
+    if (typeof operand === 'string') return this.resolveFieldPath(doc, operand)
+    if (typeof operand === 'object' && operand !== null) {
+      return this.evaluateExpression(operand as ProjectionExpression, doc)
+    }
+    return operand
+  }
+
   // Helper methods for date operations
   private getISOWeek(date: Date): number {
     const target = new Date(date.valueOf())
@@ -1130,9 +1352,15 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
       case 'year':
         result.setUTCFullYear(result.getUTCFullYear() + amount)
         break
+      case 'quarter':
+        result.setUTCMonth(result.getUTCMonth() + amount * 3)
+        break
       case 'month':
         result.setUTCMonth(result.getUTCMonth() + amount)
         break
+      case 'week':
+        result.setUTCDate(result.getUTCDate() + amount * 7)
+        break
       case 'day':
         result.setUTCDate(result.getUTCDate() + amount)
         break
@@ -1210,15 +1438,65 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     if (typeof condition === 'string') {
       return !!this.resolveFieldPath(doc, condition)
     }
-    // Could extend this to support more complex conditions
+    if (typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
+      // Aggregation truthiness: only false, 0, null and missing values are falsy
+      const value = this.evaluateExpression(condition as ProjectionExpression, doc)
+      return value !== false && value !== 0 && value !== null && value !== undefined
+    }
     return !!condition
   }
 
+  /**
+   * Evaluate a $expr query condition against a document
+   * Used by Model when matching queries that contain $expr.
+   */
+  matchesExpression(expr: unknown, doc: AggregationResult): boolean {
+    return this.evaluateCondition(expr, doc)
+  }
+
+  // Compare two expression operands using MongoDB's cross-type sort order
+  private compareExpressionValues(a: unknown, b: unknown, doc: AggregationResult): number {
+    const left = this.evaluateExpression(a as ProjectionExpression, doc)
+    const right = this.evaluateExpression(b as ProjectionExpression, doc)
+    return this.compareValues(left, right)
+  }
+
+  private compareValues(left: unknown, right: unknown): number {
+    const rankDiff = this.typeOrder(left) - this.typeOrder(right)
+    if (rankDiff !== 0) return rankDiff
+    if (left === null || left === undefined) return 0
+
+    if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime()
+    if (typeof left === 'number' && typeof right === 'number') return left - right
+    if (left instanceof Decimal128 || right instanceof Decimal128) {
+      return Decimal128.from(left as Decimal128 | number).compare(right as Decimal128 | number)
+    }
+    if (typeof left === 'boolean') return Number(left) - Number(right)
+
+    const leftKey =
+      typeof left === 'string' || left instanceof ObjectId ? String(left) : JSON.stringify(left)
+    const rightKey =
+      typeof right === 'string' || right instanceof ObjectId ? String(right) : JSON.stringify(right)
+    return leftKey < rightKey ? -1 : leftKey > rightKey ? 1 : 0
+  }
+
+  // BSON comparison order: null < numbers < strings < objects < arrays < ObjectId < booleans < dates
+  private typeOrder(value: unknown): number {
+    if (value === null || value === undefined) return 0
+    if (typeof value === 'number' || value instanceof Decimal128) return 1
+    if (typeof value === 'string') return 2
+    if (Array.isArray(value)) return 4
+    if (value instanceof ObjectId) return 5
+    if (typeof value === 'boolean') return 6
+    if (value instanceof Date) return 7
+    return 3
+  }
+
   private async lookup(
     data: AggregationResult[],
     lookupStage: LookupStage
   ): Promise<AggregationResult[]> {
-    const { from, localField, foreignField, as } = lookupStage
+    const { from, localField, foreignField, as, pipeline } = lookupStage
 
     // Get referenced model
     if (!this.database) {
@@ -1229,40 +1507,188 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     if (!foreignModel) {
       throw new Error(`Model ${from} not found for $lookup`)
     }
+    if ((localField === undefined) !== (foreignField === undefined)) {
+      throw new Error('$lookup requires both localField and foreignField')
+    }
+    if (localField === undefined && !pipeline) {
+      throw new Error('$lookup requires localField and foreignField, or a pipeline')
+    }
+
+    // Equality matches of every document, fetched together through the foreign field's index
+    const equalityMatches =
+      localField !== undefined && foreignField !== undefined
+        ? await this.lookupEqualityMatches(data, localField, foreignModel, foreignField)
+        : undefined
+    if (!pipeline) {
+      return data.map((doc, i) => ({ ...doc, [as]: equalityMatches![i] }))
+    }
 
-    // Get all foreign documents
-    const foreignDocs = await foreignModel.find({})
+    // Without an equality join every document starts its pipeline from the same documents;
+    // a leading $match that uses no variables runs as a query on the foreign collection
+    let stages = pipeline
+    let foreignDocs: AggregationResult[] = []
+    if (!equalityMatches) {
+      const [first] = pipeline
+      const leadingMatch =
+        first && '$match' in first && !this.usesExpression(first.$match) ? first.$match : undefined
+      if (leadingMatch) stages = pipeline.slice(1)
+      foreignDocs = (await foreignModel.find(leadingMatch ?? {})) as AggregationResult[]
+    }
 
-    // Build index for foreign documents
-    const foreignIndex = new Map<string, AggregationResult[]>()
-    for (const foreignDoc of foreignDocs) {
-      let key = foreignDoc[foreignField]
-      if (key !== undefined && key !== null) {
-        // Convert ObjectId to string for consistent comparison
-        const keyStr = typeof key === 'object' && key.toString ? key.toString() : String(key)
-        if (!foreignIndex.has(keyStr)) {
-          foreignIndex.set(keyStr, [])
+    const engine = new AggregationEngine(foreignModel, this.database)
+    return Promise.all(
+      data.map(async (doc, i) => {
+        const variables = this.lookupVariables(doc, lookupStage.let)
+        let results = equalityMatches ? equalityMatches[i] : foreignDocs
+        for (const stage of stages) {
+          // Stages may drop fields, so the variables are set again before each one
+          const withVariables = results.map(result => ({ ...result, ...variables }))
+          results = await engine.executeStage(withVariables, stage)
         }
-        foreignIndex.get(keyStr)!.push(foreignDoc)
+        return { ...doc, [as]: results.map(result => this.withoutVariables(result)) }
+      })
+    )
+  }
+
+  // Foreign documents whose foreignField equals (or contains) the localField value of each document
+  private async lookupEqualityMatches(
+    data: AggregationResult[],
+    localField: string,
+    foreignModel: Model<AggregationResult>,
+    foreignField: string
+  ): Promise<AggregationResult[][]> {
+    const localValues = data.map(doc =>
+      this.graphValues(this.resolveFieldPath(doc, `$${localField}`))
+    )
+    const values = new Map<string, unknown>()
+    for (const value of localValues.flat()) values.set(this.valueKey(value), value)
+    if (values.size === 0) return data.map(() => [])
+
+    const foreignIndex = new Map<string, Set<AggregationResult>>()
+    for (const foreignDoc of await foreignModel._findByFieldValues(foreignField, [
+      ...values.values()
+    ])) {
+      for (const value of this.graphValues(this.resolveFieldPath(foreignDoc, `$${foreignField}`))) {
+        const key = this.valueKey(value)
+        if (!foreignIndex.has(key)) foreignIndex.set(key, new Set())
+        foreignIndex.get(key)!.add(foreignDoc)
       }
     }
 
-    // Perform lookup for each document
-    return data.map(doc => {
-      let localValue = doc[localField]
-      let localValueStr: string | undefined
-      if (localValue !== undefined && localValue !== null) {
-        // Convert ObjectId to string for consistent comparison
-        localValueStr =
-          typeof localValue === 'object' && (localValue as { toString?: () => string }).toString
-            ? (localValue as { toString: () => string }).toString()
-            : String(localValue)
-      }
-      const matches = localValueStr ? foreignIndex.get(localValueStr) || [] : []
-      return { ...doc, [as]: matches }
+    return localValues.map(keys => {
+      const matches = new Set<AggregationResult>()
+      for (const value of keys) {
+        for (const match of foreignIndex.get(this.valueKey(value)) ?? []) matches.add(match)
+      }
+      return [...matches]
     })
   }
 
+  // Key of a value for grouping and joins
+  // ObjectIds compare by their hex string, so they also match the same id stored as a string
+  private valueKey(value: unknown): string {
+    if (typeof value !== 'object' || value instanceof ObjectId || value instanceof Date) {
+      return String(value)
+    }
+    return JSON.stringify(value)
+  }
+
+  // The $$ variables of a $lookup pipeline: those of an enclosing $lookup, and the `let` ones
+  private lookupVariables(
+    doc: AggregationResult,
+    letVariables: Record<string, unknown> = {}
+  ): AggregationResult {
+    const variables: AggregationResult = {}
+    for (const [key, value] of Object.entries(doc)) {
+      if (key.startsWith('$$')) variables[key] = value
+    }
+    for (const [name, expr] of Object.entries(letVariables)) {
+      variables[`$$${name}`] = this.evaluateExpression(expr as ProjectionExpression, doc)
+    }
+    return variables
+  }
+
+  private withoutVariables(doc: AggregationResult): AggregationResult {
+    const result: AggregationResult = {}
+    for (const [key, value] of Object.entries(doc)) {
+      if (!key.startsWith('$$')) result[key] = value
+    }
+    return result
+  }
+
+  // Whether a query uses $expr anywhere (the only place $lookup variables can appear)
+  private usesExpression(query: unknown): boolean {
+    if (Array.isArray(query)) return query.some(item => this.usesExpression(item))
+    if (typeof query !== 'object' || query === null) return false
+    return Object.entries(query).some(
+      ([key, value]) => key === '$expr' || this.usesExpression(value)
+    )
+  }
+
+  private async graphLookup(
+    data: AggregationResult[],
+    stage: GraphLookupStage
+  ): Promise<AggregationResult[]> {
+    const { from, startWith, connectFromField, connectToField, as, maxDepth, depthField } = stage
+
+    if (!this.database) {
+      throw new Error('Database reference required for $graphLookup operation')
+    }
+    const foreignModel = this.database.getModel(from)
+    if (!foreignModel) {
+      throw new Error(`Model ${from} not found for $graphLookup`)
+    }
+    const matchesRestriction = (doc: AggregationResult) =>
+      !stage.restrictSearchWithMatch ||
+      (foreignModel as unknown as { _matches: (d: unknown, q: unknown) => boolean })._matches(
+        doc,
+        stage.restrictSearchWithMatch
+      )
+
+    return Promise.all(
+      data.map(async doc => {
+        // Breadth-first: each round looks up the values no earlier round has, so cycles end
+        const found = new Map<string, AggregationResult>()
+        const searched = new Set<string>()
+        let values = this.graphValues(
+          this.evaluateExpression(startWith as ProjectionExpression, doc)
+        )
+
+        for (let depth = 0; maxDepth === undefined || depth <= maxDepth; depth++) {
+          const unsearched: unknown[] = []
+          for (const value of values) {
+            const key = String(value)
+            if (searched.has(key)) continue
+            searched.add(key)
+            unsearched.push(value)
+          }
+          if (unsearched.length === 0) break
+
+          values = []
+          for (const match of await foreignModel._findByFieldValues(connectToField, unsearched, {
+            lean: true
+          })) {
+            const id = String(match._id)
+            if (found.has(id) || !matchesRestriction(match)) continue
+            found.set(id, depthField ? { ...match, [depthField]: depth } : match)
+            values.push(...this.graphValues(this.resolveFieldPath(match, `$${connectFromField}`)))
+          }
+        }
+        return { ...doc, [as]: [...found.values()] }
+      })
+    )
+  }
+
+  // Values to look up for a $graphLookup value: each element of an array, and no nulls
+  private graphValues(value: unknown): unknown[] {
+    const values = Array.isArray(value) ? value : [value]
+    const result: unknown[] = []
+    for (const item of values) {
+      if (item !== null && item !== undefined) result.push(item)
+    }
+    return result
+  }
+
   private unwind(data: AggregationResult[], unwindStage: UnwindStage): AggregationResult[] {
     const path = typeof unwindStage === 'string' ? unwindStage : unwindStage.path
     const preserveNullAndEmptyArrays =
@@ -1329,7 +1755,9 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
       const added = { ...doc }
       for (const [field, expr] of Object.entries(fields)) {
         // Support both simple field refs and complex expressions
-        if (typeof expr === 'object' && expr !== null && !Array.isArray(expr)) {
+        if (typeof expr === 'string' && expr.startsWith('$')) {
+          added[field] = this.resolveFieldPath(doc, expr)
+        } else if (typeof expr === 'object' && expr !== null && !Array.isArray(expr)) {
           added[field] = this.evaluateExpression(expr as ProjectionExpression, doc)
         } else {
           added[field] = expr
@@ -1339,6 +1767,91 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
     })
   }
 
+  private unset(data: AggregationResult[], unset: string | string[]): AggregationResult[] {
+    const fields = Array.isArray(unset) ? unset : [unset]
+    const exclusions = Object.fromEntries(fields.map(field => [field, 0]))
+    return this.project(data, exclusions as ProjectStage<T>)
+  }
+
+  private async unionWith(
+    data: AggregationResult[],
+    stage: UnionWithStage
+  ): Promise<AggregationResult[]> {
+    const { coll, pipeline = [] } = typeof stage === 'string' ? { coll: stage } : stage
+
+    // Without a collection the pipeline brings its own documents ($documents)
+    if (coll === undefined) {
+      return [...data, ...(await this.executeOnDocuments([], pipeline as AggregationPipeline<T>))]
+    }
+    if (!this.database) {
+      throw new Error('Database reference required for $unionWith operation')
+    }
+    const unionModel = this.database.getModel(coll)
+    if (!unionModel) {
+      throw new Error(`Model ${coll} not found for $unionWith`)
+    }
+    const engine = new AggregationEngine(unionModel, this.database)
+    return [...data, ...(await engine.execute(pipeline))]
+  }
+
+  // Groups by the value of an expression and counts, most frequent first
+  private sortByCount(data: AggregationResult[], expr: ProjectionExpression): AggregationResult[] {
+    const groups = new Map<string, AggregationResult>()
+    for (const doc of data) {
+      const value = this.evaluateExpression(expr, doc) ?? null
+      const key = this.valueKey(value)
+      const group = groups.get(key)
+      if (group) (group.count as number)++
+      else groups.set(key, { _id: value, count: 1 })
+    }
+    return this.sort([...groups.values()], { count: -1 })
+  }
+
+  // $$KEEP keeps a document as it is and $$PRUNE leaves it out; $$DESCEND keeps its fields and
+  // decides again for each embedded document
+  private redact(data: AggregationResult[], expr: ProjectionExpression): AggregationResult[] {
+    const results: AggregationResult[] = []
+    for (const doc of data) {
+      const redacted = this.redactDocument(doc, expr, this.lookupVariables(doc))
+      if (redacted) results.push(redacted)
+    }
+    return results
+  }
+
+  private redactDocument(
+    doc: AggregationResult,
+    expr: ProjectionExpression,
+    variables: AggregationResult
+  ): AggregationResult | undefined {
+    const decision = this.evaluateExpression(expr, { ...doc, ...variables, ...REDACT_VARIABLES })
+    if (decision === '$$KEEP') return doc
+    if (decision === '$$PRUNE') return undefined
+    if (decision !== '$$DESCEND') {
+      throw new Error('$redact must resolve to $$DESCEND, $$PRUNE or $$KEEP')
+    }
+
+    const result: AggregationResult = {}
+    for (const [key, value] of Object.entries(doc)) {
+      if (isPlainObject(value)) {
+        const redacted = this.redactDocument(value, expr, variables)
+        if (redacted) result[key] = redacted
+      } else if (Array.isArray(value)) {
+        const items: unknown[] = []
+        for (const item of value) {
+          if (!isPlainObject(item)) items.push(item)
+          else {
+            const redacted = this.redactDocument(item, expr, variables)
+            if (redacted) items.push(redacted)
+          }
+        }
+        result[key] = items
+      } else {
+        result[key] = value
+      }
+    }
+    return result
+  }
+
   private replaceRoot(
     data: AggregationResult[],
     replaceStage: ReplaceRootStage
@@ -1383,10 +1896,15 @@ export class AggregationEngine<T extends object = Record<string, unknown>> {
   private resolveFieldPath(doc: AggregationResult, path: string): unknown {
     if (!path.startsWith('$')) return path
 
-    // Handle $$variable references (like $$value, $$this)
+    // Handle $$variable references (like $$value, $$this, $$item.price)
     if (path.startsWith('$$')) {
-      const varName = path.slice(2)
-      return (doc as Record<string, unknown>)[`$$${varName}`] ?? doc[varName]
+      const [varName, ...rest] = path.slice(2).split('.')
+      let value = `$$${varName}` in doc ? doc[`$$${varName}`] : doc[varName]
+      for (const part of rest) {
+        if (value === null || value === undefined) return undefined
+        value = (value as Record<string, unknown>)[part]
+      }
+      return value
     }
 
     const fieldPath = path.slice(1) // Remove $
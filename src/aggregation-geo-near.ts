@@ -0,0 +1,106 @@
+import type { GeoNearStage } from './aggregation'
+import { geoDistance, toPoint, type Position } from './geo'
+
+export type GeoNearStageDeps = {
+  resolveFieldPath: (doc: Record<string, unknown>, path: string) => unknown
+  matchDocument: (doc: unknown, query: Record<string, unknown>) => boolean
+  geoIndexFields: string[]
+}
+
+// Pick the field to search: stage.key, or the collection's only 2dsphere index
+export function resolveGeoNearKey(stage: GeoNearStage, geoIndexFields: string[]): string {
+  if (stage.key) return stage.key
+  if (geoIndexFields.length === 1) return geoIndexFields[0]
+  if (geoIndexFields.length === 0) {
+    throw new Error('memgoose: $geoNear requires a 2dsphere index')
+  }
+  throw new Error('memgoose: $geoNear requires a key when there are multiple 2dsphere indexes')
+}
+
+// GeoJSON points measure meters; legacy pairs measure radians, or coordinate units unless spherical
+function distanceUnit(stage: GeoNearStage): 'meters' | 'radians' | 'planar' {
+  if (!Array.isArray(stage.near)) return 'meters'
+  return stage.spherical ? 'radians' : 'planar'
+}
+
+/**
+ * Equivalent find() query for a $geoNear stage, so the first stage of a pipeline can use
+ * the spatial index. Returns null for planar (non-spherical legacy) searches.
+ */
+export function geoNearQuery(
+  stage: GeoNearStage,
+  geoIndexFields: string[]
+): Record<string, unknown> | null {
+  if (distanceUnit(stage) === 'planar') return null
+  const key = resolveGeoNearKey(stage, geoIndexFields)
+  const near = Array.isArray(stage.near)
+    ? { $nearSphere: stage.near, $maxDistance: stage.maxDistance, $minDistance: stage.minDistance }
+    : {
+        $nearSphere: {
+          $geometry: stage.near,
+          $maxDistance: stage.maxDistance,
+          $minDistance: stage.minDistance
+        }
+      }
+  return { ...stage.query, [key]: near }
+}
+
+function setPath(doc: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.')
+  let target = doc
+  for (const part of parts.slice(0, -1)) {
+    const next = target[part]
+    target[part] = next && typeof next === 'object' ? { ...(next as object) } : {}
+    target = target[part] as Record<string, unknown>
+  }
+  target[parts[parts.length - 1]] = value
+}
+
+export function runGeoNearStage(
+  docs: Record<string, unknown>[],
+  stage: GeoNearStage,
+  deps: GeoNearStageDeps
+): Record<string, unknown>[] {
+  const { resolveFieldPath, matchDocument, geoIndexFields } = deps
+  if (!stage.distanceField) {
+    throw new Error('memgoose: $geoNear requires a distanceField')
+  }
+  const center: Position | null = toPoint(stage.near)
+  if (!center) {
+    throw new Error('memgoose: $geoNear near must be a GeoJSON Point or [longitude, latitude]')
+  }
+
+  const key = resolveGeoNearKey(stage, geoIndexFields)
+  const unit = distanceUnit(stage)
+  const multiplier = stage.distanceMultiplier ?? 1
+
+  const scored: Array<{ doc: Record<string, unknown>; distance: number; location: unknown }> = []
+  for (const doc of docs) {
+    if (stage.query && !matchDocument(doc, stage.query)) continue
+
+    const location = resolveFieldPath(doc, `$${key}`)
+    let distance: number
+    if (unit === 'planar') {
+      const point = toPoint(location)
+      distance = point ? Math.hypot(point[0] - center[0], point[1] - center[1]) : Infinity
+    } else {
+      distance = geoDistance(center, location, unit)
+    }
+
+    if (distance === Infinity) continue
+    if (stage.maxDistance !== undefined && distance > stage.maxDistance) continue
+    if (stage.minDistance !== undefined && distance < stage.minDistance) continue
+    scored.push({ doc, distance, location })
+  }
+
+  scored.sort((a, b) => a.distance - b.distance)
+
+  return scored.map(({ doc, distance, location }) => {
+    const result = { ...doc }
+    setPath(result, stage.distanceField, distance * multiplier)
+    if (stage.includeLocs) {
+      setPath(result, stage.includeLocs, location)
+    }
+    return result
+  })
+}
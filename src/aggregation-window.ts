@@ -0,0 +1,370 @@
+import type {
+  AccumulatorExpression,
+  SetWindowFieldsStage,
+  WindowBound,
+  WindowOutput,
+  WindowSpec
+} from './aggregation'
+
+type Doc = Record<string, unknown>
+
+export type SetWindowFieldsDeps = {
+  evaluate: (expr: unknown, doc: Doc) => unknown
+  // BSON order of two values, for sorting and ranks
+  compareValues: (a: unknown, b: unknown) => number
+  // Fold a $group accumulator over the documents of a window
+  accumulate: (accumulator: AccumulatorExpression, docs: Doc[]) => unknown
+  addToDate: (date: Date, unit: string, amount: number) => Date
+}
+
+// Accumulators of $group that also work over a window
+const WINDOW_ACCUMULATORS = [
+  '$sum',
+  '$avg',
+  '$min',
+  '$max',
+  '$push',
+  '$addToSet',
+  '$first',
+  '$last',
+  '$count',
+  '$stdDevPop',
+  '$stdDevSamp'
+]
+
+// Milliseconds per unit of $derivative and $integral
+const UNIT_MS: Record<string, number> = {
+  week: 7 * 24 * 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  minute: 60 * 1000,
+  second: 1000,
+  millisecond: 1
+}
+
+/**
+ * $setWindowFields: adds fields computed over a window of the documents of each partition
+ * Documents come out grouped by partition (in order of first appearance) and sorted by sortBy.
+ */
+export function runSetWindowFieldsStage(
+  data: Doc[],
+  stage: SetWindowFieldsStage,
+  deps: SetWindowFieldsDeps
+): Doc[] {
+  const partitions = new Map<string, Doc[]>()
+  for (const doc of data) {
+    const key = JSON.stringify(partitionKey(stage.partitionBy, doc, deps) ?? null)
+    const partition = partitions.get(key)
+    if (partition) partition.push(doc)
+    else partitions.set(key, [doc])
+  }
+
+  const sortFields = Object.entries(stage.sortBy ?? {})
+  const sortKey = (doc: Doc) => sortFields.map(([field]) => deps.evaluate(`$${field}`, doc))
+  const compareKeys = (a: unknown[], b: unknown[]) => {
+    for (const [i, [, order]] of sortFields.entries()) {
+      const comparison = deps.compareValues(a[i], b[i])
+      if (comparison !== 0) return order === -1 ? -comparison : comparison
+    }
+    return 0
+  }
+
+  const results: Doc[] = []
+  for (const partition of partitions.values()) {
+    const keys = new Map(partition.map(doc => [doc, sortKey(doc)]))
+    const sorted = [...partition].sort((a, b) => compareKeys(keys.get(a)!, keys.get(b)!))
+    const outputs = sorted.map(doc => ({ ...doc }))
+
+    for (const [field, output] of Object.entries(stage.output)) {
+      const values = windowValues(output, sorted, {
+        sortKeys: sorted.map(doc => keys.get(doc)!),
+        compareKeys,
+        sortFields: sortFields.map(([name]) => name),
+        deps
+      })
+      values.forEach((value, i) => setField(outputs[i], field, value))
+    }
+    results.push(...outputs)
+  }
+  return results
+}
+
+type PartitionContext = {
+  sortKeys: unknown[][]
+  compareKeys: (a: unknown[], b: unknown[]) => number
+  sortFields: string[]
+  deps: SetWindowFieldsDeps
+}
+
+// Value of the partitionBy expression; `{ a: '$x', b: '$y' }` combines several fields
+function partitionKey(partitionBy: unknown, doc: Doc, deps: SetWindowFieldsDeps): unknown {
+  if (partitionBy === undefined) return null
+  if (isFieldMap(partitionBy)) {
+    const key: Record<string, unknown> = {}
+    for (const [name, expr] of Object.entries(partitionBy)) key[name] = deps.evaluate(expr, doc)
+    return key
+  }
+  return deps.evaluate(partitionBy, doc)
+}
+
+function isFieldMap(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).every(key => !key.startsWith('$'))
+  )
+}
+
+// The output values of one window function for the sorted documents of a partition
+function windowValues(output: WindowOutput, docs: Doc[], context: PartitionContext): unknown[] {
+  const { window, ...operator } = output as WindowOutput & { window?: WindowSpec }
+  const [name] = Object.keys(operator)
+  const argument = (operator as Record<string, unknown>)[name]
+  const { deps } = context
+
+  switch (name) {
+    case '$documentNumber':
+      return docs.map((_, i) => i + 1)
+
+    case '$rank':
+    case '$denseRank': {
+      requireSortBy(name, context)
+      const ranks: number[] = []
+      docs.forEach((_, i) => {
+        if (i > 0 && context.compareKeys(context.sortKeys[i], context.sortKeys[i - 1]) === 0) {
+          ranks.push(ranks[i - 1])
+        } else {
+          ranks.push(name === '$rank' ? i + 1 : (ranks[i - 1] ?? 0) + 1)
+        }
+      })
+      return ranks
+    }
+
+    case '$shift': {
+      requireSortBy(name, context)
+      const shift = argument as { output: unknown; by: number; default?: unknown }
+      return docs.map((doc, i) => {
+        const target = docs[i + shift.by]
+        if (target) return deps.evaluate(shift.output, target)
+        return shift.default === undefined ? null : deps.evaluate(shift.default, doc)
+      })
+    }
+
+    case '$expMovingAvg': {
+      requireSortBy(name, context)
+      const spec = argument as { input: unknown; N?: number; alpha?: number }
+      const alpha = spec.alpha ?? 2 / ((spec.N ?? 1) + 1)
+      let average: number | null = null
+      return docs.map(doc => {
+        const value = deps.evaluate(spec.input, doc)
+        if (typeof value !== 'number') return null
+        average = average === null ? value : alpha * value + (1 - alpha) * average
+        return average
+      })
+    }
+
+    case '$locf': {
+      requireSortBy(name, context)
+      let last: unknown = null
+      return docs.map(doc => {
+        const value = deps.evaluate(argument, doc)
+        if (value !== null && value !== undefined) last = value
+        return last
+      })
+    }
+
+    case '$linearFill':
+      return linearFill(argument, docs, context)
+  }
+
+  return docs.map((_, i) => {
+    const windowDocs = documentsInWindow(window, i, docs, context)
+
+    if (name === '$derivative' || name === '$integral') {
+      const spec = argument as { input: unknown; unit?: string }
+      const points = timeSeriesPoints(spec.input, spec.unit, windowDocs, name, context)
+      if (name === '$derivative') {
+        if (points.length < 2) return null
+        const [first, last] = [points[0], points[points.length - 1]]
+        return last.x === first.x ? null : (last.y - first.y) / (last.x - first.x)
+      }
+      if (points.length === 0) return null
+      let area = 0
+      for (let p = 1; p < points.length; p++) {
+        area += ((points[p].x - points[p - 1].x) * (points[p].y + points[p - 1].y)) / 2
+      }
+      return area
+    }
+
+    if (name === '$covariancePop' || name === '$covarianceSamp') {
+      const [left, right] = argument as [unknown, unknown]
+      const pairs: Array<[number, number]> = []
+      for (const doc of windowDocs) {
+        const x = deps.evaluate(left, doc)
+        const y = deps.evaluate(right, doc)
+        if (typeof x === 'number' && typeof y === 'number') pairs.push([x, y])
+      }
+      return covariance(pairs, name === '$covarianceSamp')
+    }
+
+    if (WINDOW_ACCUMULATORS.includes(name)) {
+      return accumulateWindow(name, operator as AccumulatorExpression, windowDocs, deps)
+    }
+    throw new Error(`memgoose: unsupported window function ${name}`)
+  })
+}
+
+function requireSortBy(name: string, context: PartitionContext): void {
+  if (context.sortFields.length === 0) {
+    throw new Error(`memgoose: ${name} requires sortBy in $setWindowFields`)
+  }
+}
+
+// The documents of the window around the document at `index` (the whole partition by default)
+function documentsInWindow(
+  window: WindowSpec | undefined,
+  index: number,
+  docs: Doc[],
+  context: PartitionContext
+): Doc[] {
+  if (window?.documents) {
+    const [lower, upper] = window.documents
+    const start = lower === 'unbounded' ? 0 : index + (lower === 'current' ? 0 : lower)
+    const end = upper === 'unbounded' ? docs.length - 1 : index + (upper === 'current' ? 0 : upper)
+    return docs.slice(Math.max(start, 0), Math.max(end + 1, 0))
+  }
+
+  if (window?.range) {
+    if (context.sortFields.length !== 1) {
+      throw new Error('memgoose: range windows require sortBy on exactly one field')
+    }
+    const current = context.sortKeys[index][0]
+    const [lower, upper] = window.range.map(bound =>
+      rangeBound(bound, current, window.unit, context)
+    )
+    const selected: Doc[] = []
+    docs.forEach((doc, i) => {
+      const value = context.sortKeys[i][0]
+      if (typeof value !== 'number' && !(value instanceof Date)) return
+      if (lower !== null && context.deps.compareValues(value, lower) < 0) return
+      if (upper !== null && context.deps.compareValues(value, upper) > 0) return
+      selected.push(doc)
+    })
+    return selected
+  }
+
+  return docs
+}
+
+// The sortBy value a range bound stands for (null when unbounded)
+function rangeBound(
+  bound: WindowBound,
+  current: unknown,
+  unit: string | undefined,
+  context: PartitionContext
+): unknown {
+  if (bound === 'unbounded') return null
+  const offset = bound === 'current' ? 0 : bound
+  if (unit) {
+    if (!(current instanceof Date)) {
+      throw new Error('memgoose: range windows with a unit require sortBy on a date field')
+    }
+    return context.deps.addToDate(current, unit, offset)
+  }
+  if (typeof current !== 'number') {
+    throw new Error('memgoose: range windows require sortBy on a numeric field')
+  }
+  return current + offset
+}
+
+// (sortBy value, input) points of a window, for $derivative and $integral
+// Dates become milliseconds, divided by the unit when there is one
+function timeSeriesPoints(
+  input: unknown,
+  unit: string | undefined,
+  docs: Doc[],
+  name: string,
+  context: PartitionContext
+): Array<{ x: number; y: number }> {
+  if (context.sortFields.length !== 1) {
+    throw new Error(`memgoose: ${name} requires sortBy on exactly one field`)
+  }
+  const points: Array<{ x: number; y: number }> = []
+  for (const doc of docs) {
+    const sortValue = context.deps.evaluate(`$${context.sortFields[0]}`, doc)
+    const y = context.deps.evaluate(input, doc)
+    if (typeof y !== 'number') continue
+    if (sortValue instanceof Date) {
+      points.push({ x: sortValue.getTime() / (unit ? UNIT_MS[unit] : 1), y })
+    } else if (typeof sortValue === 'number') {
+      if (unit) throw new Error(`memgoose: ${name} with a unit requires sortBy on a date field`)
+      points.push({ x: sortValue, y })
+    }
+  }
+  return points
+}
+
+// Null values interpolated between the values before and after them, by sortBy value
+// (null when there is none on one side)
+function linearFill(input: unknown, docs: Doc[], context: PartitionContext): unknown[] {
+  if (context.sortFields.length !== 1) {
+    throw new Error('memgoose: $linearFill requires sortBy on exactly one field')
+  }
+  const values = docs.map(doc => context.deps.evaluate(input, doc))
+  const positions = context.sortKeys.map(([key]) => (key instanceof Date ? key.getTime() : key))
+  const known: number[] = []
+  values.forEach((value, i) => {
+    if (typeof value === 'number' && typeof positions[i] === 'number') known.push(i)
+  })
+
+  return values.map((value, i) => {
+    if (value !== null && value !== undefined) return value
+    const after = known.findIndex(index => index > i)
+    if (after <= 0) return null
+    const [left, right] = [known[after - 1], known[after]]
+    const [x0, x1, x] = [positions[left], positions[right], positions[i]] as number[]
+    if (typeof x !== 'number' || x1 === x0) return null
+    const [y0, y1] = [values[left], values[right]] as number[]
+    return y0 + ((y1 - y0) * (x - x0)) / (x1 - x0)
+  })
+}
+
+function covariance(pairs: Array<[number, number]>, isSample: boolean): number | null {
+  const count = pairs.length
+  if (count === 0 || (isSample && count === 1)) return null
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / count
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / count
+  const total = pairs.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0)
+  return total / (isSample ? count - 1 : count)
+}
+
+// A $group accumulator over a window; empty windows give null (or 0 and [] for counts and lists)
+function accumulateWindow(
+  name: string,
+  accumulator: AccumulatorExpression,
+  docs: Doc[],
+  deps: SetWindowFieldsDeps
+): unknown {
+  if (docs.length === 0) {
+    if (name === '$sum' || name === '$count') return 0
+    if (name === '$push' || name === '$addToSet') return []
+    return null
+  }
+  const value = deps.accumulate(accumulator, docs)
+  // $min and $max start from Infinity, which stays when no value is a number
+  return value === Infinity || value === -Infinity ? null : value
+}
+
+// Set a (dot-notation) output field
+export function setField(doc: Doc, path: string, value: unknown): void {
+  const segments = path.split('.')
+  let target = doc
+  for (const segment of segments.slice(0, -1)) {
+    const next = target[segment]
+    target[segment] =
+      typeof next === 'object' && next !== null && !Array.isArray(next) ? { ...next } : {}
+    target = target[segment] as Doc
+  }
+  target[segments[segments.length - 1]] = value
+}
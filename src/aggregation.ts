@@ -9,6 +9,7 @@ export type AggregationStage<T extends object = Record<string, unknown>> =
   | { $group: GroupStage<T> }
   | { $project: ProjectStage<T> }
   | { $lookup: LookupStage }
+  | { $graphLookup: GraphLookupStage }
   | { $unwind: UnwindStage }
   | { $sort: SortStage }
   | { $limit: number }
@@ -24,6 +25,26 @@ export type AggregationStage<T extends object = Record<string, unknown>> =
   | { $merge: MergeStage }
   | { $vectorSearch: VectorSearchStage }
   | { $search: AtlasSearchStage }
+  | { $geoNear: GeoNearStage }
+  | { $setWindowFields: SetWindowFieldsStage }
+  | { $set: Record<string, unknown> } // Alias of $addFields
+  | { $unset: string | string[] } // Removes fields, like an exclusion $project
+  | { $replaceWith: string | Record<string, unknown> } // Alias of $replaceRoot
+  | { $unionWith: UnionWithStage }
+  | { $documents: Record<string, unknown>[] } // Literal input documents (first stage)
+  | { $sortByCount: ProjectionExpression }
+  | { $redact: ProjectionExpression } // Evaluates to '$$DESCEND', '$$PRUNE' or '$$KEEP'
+  | { $densify: DensifyStage }
+  | { $fill: FillStage }
+
+// Stages of a pipeline-style update, computed from each document's own fields
+export type UpdatePipelineStage<T extends object = Record<string, unknown>> =
+  | { $set: Record<string, unknown> }
+  | { $addFields: Record<string, unknown> }
+  | { $project: ProjectStage<T> }
+  | { $unset: string | string[] }
+  | { $replaceRoot: ReplaceRootStage }
+  | { $replaceWith: string | Record<string, unknown> }
 
 /** Atlas $vectorSearch stage (subset). */
 export type VectorSearchStage = {
@@ -40,6 +61,75 @@ export type AtlasSearchStage = {
   text: { path: string; query: string }
 }
 
+// $geoNear stage: documents sorted by distance from a point, with the distance added
+export type GeoNearStage = {
+  near: { type: 'Point'; coordinates: [number, number] } | [number, number]
+  distanceField: string
+  spherical?: boolean
+  maxDistance?: number
+  minDistance?: number
+  query?: Record<string, unknown>
+  key?: string
+  distanceMultiplier?: number
+  includeLocs?: string
+}
+
+// $setWindowFields stage: fields computed over a window of the sorted documents of each partition
+export type SetWindowFieldsStage = {
+  partitionBy?: unknown // Expression, or { name: expression } for several fields
+  sortBy?: SortStage
+  output: Record<string, WindowOutput>
+}
+
+// A window function with its (optional) window; without one it covers the whole partition
+export type WindowOutput = (
+  | AccumulatorExpression
+  | { $rank: Record<string, never> }
+  | { $denseRank: Record<string, never> }
+  | { $documentNumber: Record<string, never> }
+  | { $shift: { output: unknown; by: number; default?: unknown } }
+  | { $derivative: { input: unknown; unit?: WindowTimeUnit } }
+  | { $integral: { input: unknown; unit?: WindowTimeUnit } }
+  | { $expMovingAvg: { input: unknown; N: number } | { input: unknown; alpha: number } }
+  | { $covariancePop: [unknown, unknown] }
+  | { $covarianceSamp: [unknown, unknown] }
+  | { $locf: unknown } // Last non-null value so far
+  | { $linearFill: unknown } // Null values interpolated from the sortBy values around them
+) & { window?: WindowSpec }
+
+// Window bounds: positions relative to the current document (documents), or sortBy values
+// relative to its own (range, in `unit`s for dates)
+export type WindowSpec = {
+  documents?: [WindowBound, WindowBound]
+  range?: [WindowBound, WindowBound]
+  unit?: 'year' | 'quarter' | 'month' | WindowTimeUnit
+}
+
+export type WindowBound = 'unbounded' | 'current' | number
+
+export type WindowTimeUnit = 'week' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond'
+
+// Adds documents for the missing values of `field`, every `step` (`unit`s for dates)
+export type DensifyStage = {
+  field: string
+  partitionByFields?: string[]
+  range: {
+    step: number
+    unit?: 'year' | 'quarter' | 'month' | WindowTimeUnit
+    // 'full': from the lowest to the highest value of all documents, 'partition': of each
+    // partition, or [lower, upper) explicitly (the upper bound is excluded)
+    bounds: 'full' | 'partition' | [number, number] | [Date, Date]
+  }
+}
+
+// Fills null and missing fields with a value, the last value (locf) or by interpolation (linear)
+export type FillStage = {
+  sortBy?: SortStage
+  partitionBy?: unknown // Expression, or { name: expression } for several fields
+  partitionByFields?: string[]
+  output: Record<string, { value: unknown } | { method: 'locf' | 'linear' }>
+}
+
 // Group stage configuration
 export type GroupStage<_T = Record<string, unknown>> = {
   _id: string | Record<string, string> | null
@@ -75,7 +165,7 @@ export type ProjectionExpression =
   | { $toUpper: string }
   | { $toLower: string }
   | { $substr: [string, number, number] }
-  | { $cond: [unknown, unknown, unknown] }
+  | { $cond: [unknown, unknown, unknown] | { if: unknown; then: unknown; else: unknown } }
   | { $add: (number | string)[] }
   | { $subtract: [number | string, number | string] }
   | { $multiply: (number | string)[] }
@@ -121,8 +211,7 @@ export type ProjectionExpression =
   | { $concatArrays: (string | ProjectionExpression)[] }
   | {
       $slice:
-        | [string | ProjectionExpression, number]
-        | [string | ProjectionExpression, number, number]
+        [string | ProjectionExpression, number] | [string | ProjectionExpression, number, number]
     }
   | {
       $zip: {
@@ -146,6 +235,18 @@ export type ProjectionExpression =
   | { $toObjectId: unknown }
   | { $convert: { input: unknown; to: string; onError?: unknown; onNull?: unknown } }
   | { $type: string }
+  // Comparison operators
+  | { $eq: [unknown, unknown] }
+  | { $ne: [unknown, unknown] }
+  | { $gt: [unknown, unknown] }
+  | { $gte: [unknown, unknown] }
+  | { $lt: [unknown, unknown] }
+  | { $lte: [unknown, unknown] }
+  | { $cmp: [unknown, unknown] }
+  // Boolean operators
+  | { $and: unknown[] }
+  | { $or: unknown[] }
+  | { $not: unknown }
   // Conditional operators
   | { $switch: { branches: Array<{ case: unknown; then: unknown }>; default?: unknown } }
   // Object operators
@@ -158,14 +259,37 @@ export type ProjectionExpression =
   | number
   | boolean
 
-// Lookup stage for joins
+// Lookup stage for joins: equality on localField/foreignField, a pipeline run for each
+// document (with `let` variables available as $$name), or both
 export type LookupStage = {
   from: string
-  localField: string
-  foreignField: string
+  localField?: string
+  foreignField?: string
+  let?: Record<string, unknown>
+  pipeline?: AggregationStage[]
   as: string
 }
 
+// Recursive lookup: follows connectFromField -> connectToField links from startWith
+export type GraphLookupStage = {
+  from: string
+  startWith: unknown // Expression, e.g. '$reportsTo'
+  connectFromField: string
+  connectToField: string
+  as: string
+  maxDepth?: number // Recursions after the first lookup (0: direct matches only)
+  depthField?: string // Adds the recursion depth of each match
+  restrictSearchWithMatch?: Record<string, unknown>
+}
+
+// Appends the results of a pipeline on another model (or of a pipeline starting with $documents)
+export type UnionWithStage =
+  | string
+  | {
+      coll?: string
+      pipeline?: AggregationStage[]
+    }
+
 // Unwind stage for array flattening
 export type UnwindStage =
   | string // Simple path like "$items"
@@ -0,0 +1,57 @@
+import type { ClientSession } from './session'
+
+type Filter = Record<string, unknown>
+
+type UpdateOperationOptions = { upsert?: boolean; arrayFilters?: Array<Record<string, unknown>> }
+
+// Operations accepted by Model.bulkWrite() (same shape as MongoDB's)
+export type BulkWriteOperation<T extends object = Record<string, unknown>> =
+  | { insertOne: { document: Partial<T> | Record<string, unknown> } }
+  | { updateOne: { filter: Filter; update: Record<string, unknown> } & UpdateOperationOptions }
+  | { updateMany: { filter: Filter; update: Record<string, unknown> } & UpdateOperationOptions }
+  | {
+      replaceOne: {
+        filter: Filter
+        replacement: Partial<T> | Record<string, unknown>
+        upsert?: boolean
+      }
+    }
+  | { deleteOne: { filter: Filter } }
+  | { deleteMany: { filter: Filter } }
+
+export type BulkWriteOptions = {
+  // Stop at the first failed operation (default: true)
+  ordered?: boolean
+  session?: ClientSession
+}
+
+// A failed operation reported in BulkWriteResult.writeErrors
+export type BulkWriteError = {
+  index: number
+  code?: number
+  errmsg: string
+  op: BulkWriteOperation<any>
+}
+
+/**
+ * Result of Model.bulkWrite() (like the MongoDB driver's BulkWriteResult)
+ * insertedIds and upsertedIds are keyed by operation index.
+ */
+export class BulkWriteResult {
+  insertedCount = 0
+  matchedCount = 0
+  modifiedCount = 0
+  deletedCount = 0
+  upsertedCount = 0
+  insertedIds: Record<number, unknown> = {}
+  upsertedIds: Record<number, unknown> = {}
+  writeErrors: BulkWriteError[] = []
+
+  hasWriteErrors(): boolean {
+    return this.writeErrors.length > 0
+  }
+
+  getWriteErrors(): BulkWriteError[] {
+    return this.writeErrors
+  }
+}
@@ -0,0 +1,169 @@
+import { ObjectId } from './objectid'
+import { Decimal128 } from './decimal128'
+import { UUID } from './uuid'
+
+// Converts a value to a schema type, throwing when the value cannot be converted
+export type Caster = (value: unknown) => unknown
+
+function castString(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+    return String(value)
+  }
+  // Objects with their own toString (ObjectId, Date, ...) but not plain objects or arrays
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    value.toString !== Object.prototype.toString
+  ) {
+    return value.toString()
+  }
+  throw new Error('not a string')
+}
+
+function castNumber(value: unknown): number | null {
+  if (value === '') return null
+  const number =
+    typeof value === 'boolean'
+      ? Number(value)
+      : typeof value === 'string'
+        ? Number(value.trim())
+        : value instanceof Number
+          ? value.valueOf()
+          : value
+  if (typeof number !== 'number' || Number.isNaN(number)) throw new Error('not a number')
+  return number
+}
+
+function castBoolean(value: unknown): boolean {
+  if ([true, 'true', 1, '1', 'yes'].includes(value as never)) return true
+  if ([false, 'false', 0, '0', 'no'].includes(value as never)) return false
+  throw new Error('not a boolean')
+}
+
+function castDate(value: unknown): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'number' || typeof value === 'string'
+        ? new Date(value)
+        : null
+  if (!date || Number.isNaN(date.getTime())) throw new Error('not a date')
+  return date
+}
+
+function castObjectId(value: unknown): ObjectId {
+  if (value instanceof ObjectId) return value
+  // A populated document casts to its _id
+  if (value !== null && typeof value === 'object' && (value as { _id?: unknown })._id) {
+    return castObjectId((value as { _id: unknown })._id)
+  }
+  if (typeof value === 'string' && ObjectId.isValid(value)) return new ObjectId(value)
+  throw new Error('not an ObjectId')
+}
+
+function castDecimal128(value: unknown): Decimal128 {
+  if (value instanceof Decimal128) return value
+  // Extended JSON, as in the output of toJSON()
+  if (isPlainObject(value) && typeof value.$numberDecimal === 'string') {
+    return new Decimal128(value.$numberDecimal)
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) throw new Error('not a decimal')
+  if (Decimal128.isValid(value)) return new Decimal128(value as string | number)
+  throw new Error('not a decimal')
+}
+
+function castBuffer(value: unknown): Buffer {
+  if (Buffer.isBuffer(value)) return value
+  if (value instanceof Uint8Array || Array.isArray(value)) return Buffer.from(value)
+  if (typeof value === 'string') return Buffer.from(value, 'utf8')
+  if (value instanceof UUID) return value.toBinary()
+  // The output of Buffer#toJSON() and Extended JSON binary
+  if (isPlainObject(value) && value.type === 'Buffer' && Array.isArray(value.data)) {
+    return Buffer.from(value.data)
+  }
+  if (isPlainObject(value) && isPlainObject(value.$binary)) {
+    return Buffer.from(String(value.$binary.base64), 'base64')
+  }
+  throw new Error('not a buffer')
+}
+
+function castUUID(value: unknown): UUID {
+  if (value instanceof UUID) return value
+  if (UUID.isValid(value)) return new UUID(value as string | Uint8Array)
+  throw new Error('not a UUID')
+}
+
+// Casters by kind (the name CastError reports)
+export const casters: Record<string, Caster> = {
+  String: castString,
+  Number: castNumber,
+  Boolean: castBoolean,
+  Date: castDate,
+  ObjectId: castObjectId,
+  Decimal128: castDecimal128,
+  Buffer: castBuffer,
+  UUID: castUUID
+}
+
+// Schema type for values of any kind, which are never cast (`{}` means the same)
+export class Mixed {}
+
+/**
+ * Value of a `Map` path in a hydrated document
+ * Stored documents hold the map as a plain object; toJSON() returns that object, so the map
+ * serializes (and compares, for change tracking) by its entries.
+ */
+export class SchemaMap<V = unknown> extends Map<string, V> {
+  toJSON(): Record<string, V> {
+    return Object.fromEntries(this)
+  }
+}
+
+// Kind of a scalar schema type (`String`, `'String'`, `Schema.Types.ObjectId`, ...)
+export function scalarKind(type: unknown): string | undefined {
+  if (type === String) return 'String'
+  if (type === Number) return 'Number'
+  if (type === Boolean) return 'Boolean'
+  if (type === Date) return 'Date'
+  if (type === ObjectId) return 'ObjectId'
+  if (type === Decimal128) return 'Decimal128'
+  if (type === Buffer) return 'Buffer'
+  if (type === UUID) return 'UUID'
+  if (typeof type === 'string') {
+    return Object.keys(casters).find(name => name.toLowerCase() === type.toLowerCase())
+  }
+  return undefined
+}
+
+// Whether a schema type describes a map (`{ type: Map, of: Number }`)
+export function isMapType(type: unknown): boolean {
+  return type === Map || (typeof type === 'string' && type.toLowerCase() === 'map')
+}
+
+// Whether a schema type describes an array (`[String]`, `Array`, `[subSchema]`)
+export function isArrayType(type: unknown): boolean {
+  return Array.isArray(type) || type === Array
+}
+
+// Type of the elements of an array type; `[{ type: String }]` is `String`
+export function elementType(type: unknown): unknown {
+  const element = Array.isArray(type) ? type[0] : undefined
+  return isPlainObject(element) && 'type' in element ? element.type : element
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+  )
+}
+
+// Query conditions made of operators only (`{ $gt: 5 }`), as opposed to values
+export function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every(key => key.startsWith('$'))
+  )
+}
@@ -0,0 +1,233 @@
+import { EventEmitter } from 'events'
+import { AggregationEngine } from './aggregation-engine'
+import { cloneDocument } from './storage/snapshot-transaction'
+import type { Model } from './model'
+import type { AggregationPipeline } from './aggregation'
+
+export type ChangeOperationType = 'insert' | 'update' | 'replace' | 'delete' | 'drop'
+
+// Fields changed by an update event
+export type UpdateDescription = {
+  updatedFields: Record<string, unknown>
+  removedFields: string[]
+  truncatedArrays: Array<{ field: string; newSize: number }>
+}
+
+// Change event (shaped like MongoDB change stream events)
+export type ChangeEvent<T extends object = Record<string, unknown>> = {
+  _id: { _data: string } // Resume token
+  operationType: ChangeOperationType
+  clusterTime: Date
+  wallTime: Date
+  ns: { coll: string }
+  documentKey?: { _id: unknown }
+  fullDocument?: T
+  updateDescription?: UpdateDescription
+}
+
+// Options accepted by Model.watch() and Database.watch()
+export type ChangeStreamOptions = {
+  // 'updateLookup' includes the updated document in update events (default: 'default')
+  fullDocument?: 'default' | 'updateLookup'
+}
+
+// Change as reported by a model write, before it is turned into an event
+export type ChangeInput<T extends object = Record<string, unknown>> = {
+  operationType: ChangeOperationType
+  documentKey?: { _id: unknown }
+  fullDocument?: T
+  updateDescription?: UpdateDescription
+}
+
+// Stages MongoDB allows in a change stream pipeline
+const ALLOWED_STAGES = new Set(['$match', '$project', '$addFields', '$replaceRoot'])
+
+let tokenCounter = 0
+
+/**
+ * Build a change event from a model write
+ */
+export function createChangeEvent<T extends object>(
+  coll: string,
+  change: ChangeInput<T>
+): ChangeEvent<T> {
+  const now = new Date()
+  tokenCounter++
+  return {
+    _id: { _data: `${now.getTime().toString(16)}${tokenCounter.toString(16).padStart(8, '0')}` },
+    operationType: change.operationType,
+    clusterTime: now,
+    wallTime: now,
+    ns: { coll },
+    ...(change.documentKey && { documentKey: change.documentKey }),
+    ...(change.fullDocument && { fullDocument: cloneDocument(change.fullDocument) }),
+    ...(change.updateDescription && { updateDescription: change.updateDescription })
+  }
+}
+
+/**
+ * Describe the top-level fields that differ between two versions of a document
+ */
+export function buildUpdateDescription(before: object, after: object): UpdateDescription {
+  const beforeRecord = before as Record<string, unknown>
+  const afterRecord = after as Record<string, unknown>
+  const updatedFields: Record<string, unknown> = {}
+  const removedFields: string[] = []
+
+  for (const [key, value] of Object.entries(afterRecord)) {
+    if (!(key in beforeRecord) || JSON.stringify(beforeRecord[key]) !== JSON.stringify(value)) {
+      updatedFields[key] = cloneDocument(value)
+    }
+  }
+  for (const key of Object.keys(beforeRecord)) {
+    if (!(key in afterRecord)) {
+      removedFields.push(key)
+    }
+  }
+
+  return { updatedFields, removedFields, truncatedArrays: [] }
+}
+
+/**
+ * Change stream (like mongoose's ChangeStream)
+ * Emits 'change' events and can also be consumed with for await...of or next().
+ * Events are delivered asynchronously, in write order.
+ *
+ * @example
+ * ```typescript
+ * const stream = User.watch([{ $match: { operationType: 'insert' } }])
+ * stream.on('change', event => console.log(event.fullDocument))
+ * ```
+ */
+export class ChangeStream<T extends object = Record<string, unknown>>
+  extends EventEmitter
+  implements AsyncIterable<ChangeEvent<T>>
+{
+  private _pipeline: AggregationPipeline
+  private _options: ChangeStreamOptions
+  private _engine: AggregationEngine | null
+  private _closed = false
+  // Events not yet taken by next() (only buffered when nobody listens to 'change')
+  private _buffer: ChangeEvent<T>[] = []
+  private _waiting: Array<{
+    resolve: (event: ChangeEvent<T> | null) => void
+    reject: (error: unknown) => void
+  }> = []
+  // Processing error not yet taken by next() (only kept when nobody listens to 'error')
+  private _error: { error: unknown } | null = null
+  private _processing: Promise<void> = Promise.resolve()
+
+  constructor(model: Model<any>, pipeline: unknown[] = [], options: ChangeStreamOptions = {}) {
+    super()
+    for (const stage of pipeline) {
+      const name = Object.keys(stage as object)[0]
+      if (!ALLOWED_STAGES.has(name)) {
+        throw new Error(`${name} is not allowed in a change stream pipeline`)
+      }
+    }
+    this._pipeline = pipeline as AggregationPipeline
+    this._options = options
+    this._engine = pipeline.length > 0 ? new AggregationEngine(model) : null
+  }
+
+  get closed(): boolean {
+    return this._closed
+  }
+
+  /**
+   * Deliver a change event to this stream
+   * @internal
+   */
+  _push(event: ChangeEvent<T>): void {
+    if (this._closed) return
+
+    const visible = { ...event }
+    if (visible.operationType === 'update' && this._options.fullDocument !== 'updateLookup') {
+      delete visible.fullDocument
+    }
+
+    this._processing = this._processing.then(async () => {
+      try {
+        let output = visible as Record<string, unknown>
+        if (this._engine) {
+          const [result] = await this._engine.executeOnDocuments([output], this._pipeline)
+          if (!result) return
+          output = result
+        }
+        this._deliver(output as ChangeEvent<T>)
+      } catch (error) {
+        this._fail(error)
+      }
+    })
+  }
+
+  private _deliver(event: ChangeEvent<T>): void {
+    if (this._closed) return
+
+    const waiter = this._waiting.shift()
+    if (waiter) {
+      waiter.resolve(event)
+    } else if (this.listenerCount('change') === 0) {
+      this._buffer.push(event)
+    }
+    this.emit('change', event)
+  }
+
+  // Report a processing error to 'error' listeners, or else to the next next() call
+  private _fail(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error)
+      return
+    }
+    const waiter = this._waiting.shift()
+    if (waiter) waiter.reject(error)
+    else this._error ??= { error }
+  }
+
+  /**
+   * Wait for the next change event (resolves null once the stream is closed)
+   * Rejects with an error from processing an event when nobody listens to 'error'.
+   */
+  async next(): Promise<ChangeEvent<T> | null> {
+    const buffered = this.tryNext()
+    if (buffered) return buffered
+    if (this._closed) return null
+    return new Promise((resolve, reject) => this._waiting.push({ resolve, reject }))
+  }
+
+  /**
+   * Check whether an event is ready without waiting
+   */
+  tryNext(): ChangeEvent<T> | null {
+    const buffered = this._buffer.shift()
+    if (buffered) return buffered
+    if (this._error) {
+      const { error } = this._error
+      this._error = null
+      throw error
+    }
+    return null
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) return
+    // Let events already in flight reach their consumers first
+    await this._processing
+    this._closed = true
+    this._buffer = []
+    this._error = null
+    for (const waiter of this._waiting.splice(0)) {
+      waiter.resolve(null)
+    }
+    this.emit('close')
+    this.removeAllListeners('change')
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ChangeEvent<T>> {
+    while (true) {
+      const event = await this.next()
+      if (!event) return
+      yield event
+    }
+  }
+}
@@ -1,6 +1,7 @@
-import { Database, DatabaseConfig } from './database'
-import { Schema } from './schema'
+import { Database, DatabaseConfig, addGlobalPlugin } from './database'
+import { Schema, type SchemaPlugin } from './schema'
 import { Model } from './model'
+import type { ClientSession } from './session'
 
 // Default database instance (auto-created in-memory)
 let defaultDatabase: Database = new Database()
@@ -62,6 +63,28 @@ export function model<T extends object>(name: string, schema: Schema<T>): Model<
   return defaultDatabase.model(name, schema)
 }
 
+/**
+ * Register a plugin for every schema (like mongoose.plugin())
+ * It runs on each schema registered afterwards through model() or Database.model()
+ *
+ * @param fn Plugin function, called with the schema and the options
+ * @param options Plugin options
+ * @example
+ * ```typescript
+ * plugin(schema => {
+ *   schema.add({ deletedAt: Date })
+ *   schema.statics.findActive = function () {
+ *     return this.find({ deletedAt: null })
+ *   }
+ * })
+ *
+ * const User = model('User', userSchema) // Has deletedAt and findActive()
+ * ```
+ */
+export function plugin<O = any>(fn: SchemaPlugin<O>, options?: O): void {
+  addGlobalPlugin(fn, options)
+}
+
 /**
  * Get a model from the default database
  * @param name Model name
@@ -73,6 +96,22 @@ export function getModel<T extends object = Record<string, unknown>>(
   return defaultDatabase.getModel(name)
 }
 
+/**
+ * Start a client session on the default database (like mongoose.startSession())
+ * @returns ClientSession for running transactions
+ * @example
+ * ```typescript
+ * const session = startSession()
+ * await session.withTransaction(async () => {
+ *   await Order.create({ item: 'book' }, { session })
+ *   await Stock.updateOne({ item: 'book' }, { $inc: { qty: -1 } }, { session })
+ * })
+ * ```
+ */
+export function startSession(): ClientSession {
+  return defaultDatabase.startSession()
+}
+
 /**
  * Clear all models in the default database and their storage
  * Useful for testing - recreates the default database with fresh storage
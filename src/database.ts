@@ -6,8 +6,10 @@ import {
   WiredTigerStorageStrategy
 } from './storage'
 import { Model } from './model'
-import { Schema } from './schema'
+import { Schema, type SchemaPlugin } from './schema'
 import { TTLManager } from './ttl-manager'
+import { ClientSession } from './session'
+import { ChangeStream, type ChangeEvent, type ChangeStreamOptions } from './change-stream'
 
 // Database configuration
 export interface DatabaseConfig {
@@ -31,6 +33,7 @@ export interface DatabaseConfig {
   }
   sqlite?: {
     dataPath: string
+    busyTimeout?: number // ms to wait for a lock or an open transaction (default: 5000)
   }
   wiredtiger?: {
     dataPath: string
@@ -39,6 +42,17 @@ export interface DatabaseConfig {
   }
 }
 
+// Plugins run on every schema registered through Database.model(), in registration order
+const globalPlugins: Array<{ fn: SchemaPlugin; options?: unknown }> = []
+
+/**
+ * Register a plugin for the schemas of all databases
+ * Applies to models created afterwards, before their Model is built
+ */
+export function addGlobalPlugin<O = any>(fn: SchemaPlugin<O>, options?: O): void {
+  globalPlugins.push({ fn, options })
+}
+
 // Database class - manages storage and models
 export class Database {
   // Internal storage uses flexible typing since models can be different types
@@ -47,6 +61,7 @@ export class Database {
   private _modelRegistry: Map<string, Model<Record<string, unknown>>>
   private _config: DatabaseConfig
   private _ttlManager: TTLManager
+  private _changeStreams: Set<ChangeStream> = new Set()
 
   constructor(config: DatabaseConfig = {}) {
     this._config = config
@@ -69,6 +84,9 @@ export class Database {
       return existing as unknown as Model<T>
     }
 
+    // Global plugins can add fields, indexes and statics, so they run before anything reads them
+    schema.applyPlugins(globalPlugins)
+
     // Create storage strategy for this model
     // Each model gets its own storage instance
     let storage: StorageStrategy<T>
@@ -84,7 +102,8 @@ export class Database {
     } else if (this._config.storage === 'sqlite' && this._config.sqlite) {
       storage = new SqliteStorageStrategy<T>({
         dataPath: this._config.sqlite.dataPath,
-        modelName: name
+        modelName: name,
+        busyTimeout: this._config.sqlite.busyTimeout
       })
     } else if (this._config.storage === 'wiredtiger' && this._config.wiredtiger) {
       storage = new WiredTigerStorageStrategy<T>({
@@ -100,6 +119,7 @@ export class Database {
 
     // Create model with storage
     const model = new Model<T>(schema, undefined, storage, this)
+    model._setModelName(name)
 
     // Initialize storage asynchronously and pass promise to model
     // Model will automatically wait for this on first operation
@@ -145,6 +165,38 @@ export class Database {
     return this._modelRegistry.get(name) as any
   }
 
+  /**
+   * Start a client session for running multi-document transactions
+   * @returns ClientSession bound to this database
+   */
+  startSession(): ClientSession {
+    return new ClientSession(this)
+  }
+
+  /**
+   * Watch changes on every model in this database
+   * @param pipeline Optional $match/$project stages applied to change events
+   * @param options Change stream options
+   * @returns ChangeStream emitting events for all models
+   */
+  watch(pipeline: unknown[] = [], options: ChangeStreamOptions = {}): ChangeStream {
+    // Pipeline stages only need query matching, so a schemaless model is enough
+    const stream = new ChangeStream(new Model(), pipeline, options)
+    this._changeStreams.add(stream)
+    stream.once('close', () => this._changeStreams.delete(stream))
+    return stream
+  }
+
+  _hasChangeStreams(): boolean {
+    return this._changeStreams.size > 0
+  }
+
+  _emitChange(event: ChangeEvent): void {
+    for (const stream of this._changeStreams) {
+      stream._push(event)
+    }
+  }
+
   /**
    * Clear all models in this database and their storage
    */
@@ -171,6 +223,9 @@ export class Database {
 
     // Drop storage for each model (deletes physical files)
     for (const model of this._modelRegistry.values()) {
+      model._emitChange({ operationType: 'drop' })
+      await model._closeChangeStreams()
+
       const storage = (model as unknown as { _storage: StorageStrategy<Record<string, unknown>> })
         ._storage
 
@@ -209,6 +264,12 @@ export class Database {
     // Clean up TTL intervals
     this._ttlManager.cleanup()
 
+    // Close change streams
+    for (const model of this._modelRegistry.values()) {
+      await model._closeChangeStreams()
+    }
+    await Promise.all(Array.from(this._changeStreams, stream => stream.close()))
+
     // Flush any pending writes in file storage
     for (const model of this._modelRegistry.values()) {
       const storage = (
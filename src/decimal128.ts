@@ -0,0 +1,154 @@
+// Significant digits kept by division (the precision of a BSON decimal)
+const DIVISION_DIGITS = 34
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/
+
+/**
+ * Exact decimal number (coefficient × 10^exponent), for money and other values that must not
+ * pick up binary floating point errors.
+ */
+export class Decimal128 {
+  private readonly coefficient: bigint
+  private readonly exponent: number
+  public readonly _bsontype = 'Decimal128' as const // For mongoose/bson type detection
+
+  constructor(value: string | number | bigint | Decimal128, exponent?: number) {
+    if (value instanceof Decimal128) {
+      this.coefficient = value.coefficient
+      this.exponent = value.exponent
+    } else if (typeof value === 'bigint') {
+      this.coefficient = value
+      this.exponent = exponent ?? 0
+    } else {
+      const text = String(value).trim()
+      const match = DECIMAL_PATTERN.exec(text)
+      if (!match || (!match[2] && !match[3])) throw new Error(`Invalid Decimal128 "${text}"`)
+      const [, sign, whole = '', fraction = '', power = '0'] = match
+      const digits = BigInt(`${whole}${fraction}` || '0')
+      this.coefficient = sign === '-' ? -digits : digits
+      this.exponent = Number(power) - fraction.length
+    }
+  }
+
+  /**
+   * Creates a Decimal128 from its string representation.
+   * Explicit factory method matching the bson API.
+   */
+  static fromString(value: string): Decimal128 {
+    return new Decimal128(value)
+  }
+
+  static isValid(value: unknown): boolean {
+    if (value instanceof Decimal128) return true
+    if (typeof value !== 'string' && typeof value !== 'number') return false
+    const match = DECIMAL_PATTERN.exec(String(value).trim())
+    return !!match && !!(match[2] || match[3])
+  }
+
+  add(other: Decimal128 | string | number): Decimal128 {
+    const [a, b, exponent] = Decimal128.align(this, Decimal128.from(other))
+    return new Decimal128(a + b, exponent)
+  }
+
+  subtract(other: Decimal128 | string | number): Decimal128 {
+    const [a, b, exponent] = Decimal128.align(this, Decimal128.from(other))
+    return new Decimal128(a - b, exponent)
+  }
+
+  multiply(other: Decimal128 | string | number): Decimal128 {
+    const operand = Decimal128.from(other)
+    return new Decimal128(this.coefficient * operand.coefficient, this.exponent + operand.exponent)
+  }
+
+  /**
+   * Quotient rounded (half away from zero) to 34 significant digits, without trailing zeros
+   */
+  divide(other: Decimal128 | string | number): Decimal128 {
+    const divisor = Decimal128.from(other)
+    if (divisor.coefficient === 0n) throw new Error('Division by zero')
+
+    // Scale the dividend so the quotient has one digit more than needed, for rounding
+    const abs = (n: bigint) => (n < 0n ? -n : n)
+    const shift =
+      DIVISION_DIGITS +
+      1 -
+      (abs(this.coefficient).toString().length - abs(divisor.coefficient).toString().length)
+    const scale = Math.max(shift, 0)
+    let quotient = (this.coefficient * 10n ** BigInt(scale)) / divisor.coefficient
+    const roundUp = abs(quotient) % 10n >= 5n
+    quotient = quotient / 10n + (roundUp ? (quotient < 0n ? -1n : 1n) : 0n)
+    return new Decimal128(quotient, this.exponent - divisor.exponent - scale + 1).normalize()
+  }
+
+  negate(): Decimal128 {
+    return new Decimal128(-this.coefficient, this.exponent)
+  }
+
+  // -1, 0 or 1
+  compare(other: Decimal128 | string | number): number {
+    const [a, b] = Decimal128.align(this, Decimal128.from(other))
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  equals(other: unknown): boolean {
+    if (other === null || other === undefined) return false
+    if (!(other instanceof Decimal128) && !Decimal128.isValid(other)) return false
+    return this.compare(other as Decimal128 | string | number) === 0
+  }
+
+  // The same value without trailing zeros in the coefficient ('1.50' becomes '1.5')
+  normalize(): Decimal128 {
+    let coefficient = this.coefficient
+    let exponent = this.exponent
+    while (coefficient !== 0n && coefficient % 10n === 0n) {
+      coefficient /= 10n
+      exponent++
+    }
+    return new Decimal128(coefficient, coefficient === 0n ? 0 : exponent)
+  }
+
+  toString(): string {
+    const negative = this.coefficient < 0n
+    const digits = (negative ? -this.coefficient : this.coefficient).toString()
+    let text: string
+    if (this.exponent >= 0) {
+      text = digits + '0'.repeat(this.exponent)
+    } else {
+      const padded = digits.padStart(-this.exponent + 1, '0')
+      const point = padded.length + this.exponent
+      text = `${padded.slice(0, point)}.${padded.slice(point)}`
+    }
+    return negative ? `-${text}` : text
+  }
+
+  // Canonical Extended JSON
+  toJSON(): { $numberDecimal: string } {
+    return { $numberDecimal: this.toString() }
+  }
+
+  // Nearest double, so relational operators and sorting work with numbers too
+  valueOf(): number {
+    return Number(this.toString())
+  }
+
+  /**
+   * Custom inspect for Node.js util.inspect()
+   */
+  [Symbol.for('nodejs.util.inspect.custom')](): string {
+    return `new Decimal128("${this.toString()}")`
+  }
+
+  static from(value: Decimal128 | string | number): Decimal128 {
+    return value instanceof Decimal128 ? value : new Decimal128(value)
+  }
+
+  // Coefficients of two decimals scaled to their common (smallest) exponent
+  private static align(a: Decimal128, b: Decimal128): [bigint, bigint, number] {
+    const exponent = Math.min(a.exponent, b.exponent)
+    return [
+      a.coefficient * 10n ** BigInt(a.exponent - exponent),
+      b.coefficient * 10n ** BigInt(b.exponent - exponent),
+      exponent
+    ]
+  }
+}
@@ -1,5 +1,6 @@
 import { QueryBuilder } from './query-builder'
 import { QueryableKeys } from './type-utils'
+import type { ClientSession } from './session'
 
 // Type definitions needed from model.ts
 export type QueryOptions<T = any> = {
@@ -8,6 +9,7 @@ export type QueryOptions<T = any> = {
   skip?: number
   select?: Partial<Record<keyof T, 0 | 1>>
   lean?: boolean
+  session?: ClientSession
 }
 
 // Populate options for advanced population
@@ -23,6 +25,9 @@ type LogicalQueryOperators<T extends object> = {
   $or?: Query<T>[]
   $and?: Query<T>[]
   $nor?: Query<T>[]
+  $expr?: Record<string, unknown>
+  $where?: (this: any, doc: any) => boolean
+  $jsonSchema?: Record<string, unknown>
 }
 
 export type Query<T extends object = Record<string, unknown>> = {
@@ -42,6 +47,7 @@ export class DocumentQueryBuilder<
   protected _select?: Partial<Record<keyof T, 0 | 1>>
   protected _lean?: boolean
   protected _populate?: string[] | PopulateOptions | PopulateOptions[]
+  protected _session?: ClientSession
   protected _model: any
   protected _executeInternal: (options?: QueryOptions<T>) => Promise<TResult>
 
@@ -58,6 +64,7 @@ export class DocumentQueryBuilder<
       // Convert space-separated string to object format
       // 'name age' -> { name: 1, age: 1 }
       // '-password -secret' -> { password: 0, secret: 0 }
+      // '+password' -> { '+password': 1 } (adds back a field declared with select: false)
       const selectObj: Partial<Record<keyof T, 0 | 1>> = {}
       fields
         .split(/\s+/)
@@ -81,6 +88,12 @@ export class DocumentQueryBuilder<
     return this
   }
 
+  // Run the query inside the session's transaction
+  session(session: ClientSession | null): this {
+    this._session = session ?? undefined
+    return this
+  }
+
   populate<TPopulated extends object = T>(
     field: string | string[] | PopulateOptions
   ): DocumentQueryBuilder<TPopulated, TResult> {
@@ -121,7 +134,8 @@ export class DocumentQueryBuilder<
     // Build options object from builder state
     const options: QueryOptions<T> = {
       select: this._select,
-      lean: this._lean
+      lean: this._lean,
+      session: this._session
     }
 
     // Pass options to the operation
@@ -137,7 +151,7 @@ export class DocumentQueryBuilder<
       if (this._populate) {
         const hasPopulate = Array.isArray(this._populate) ? this._populate.length > 0 : true // Single PopulateOptions object
         if (hasPopulate) {
-          const results = await this._model._applyPopulate([doc], this._populate)
+          const results = await this._model._applyPopulate([doc], this._populate, this._session)
           doc = results[0] || null
         }
       }
@@ -0,0 +1,96 @@
+import { cloneDocument } from './storage/snapshot-transaction'
+import { getPath } from './update-paths'
+
+/**
+ * Change tracking for a hydrated document: the field values it was loaded with, the paths
+ * marked with markModified() and whether it is being inserted.
+ */
+export type DocumentState = {
+  snapshot: Record<string, unknown>
+  marked: Set<string>
+  isNew: boolean
+}
+
+export function createDocumentState(
+  fields: Record<string, unknown>,
+  isNew: boolean = false
+): DocumentState {
+  return { snapshot: cloneDocument(fields), marked: new Set(), isNew }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+  )
+}
+
+/**
+ * Paths whose values differ between two versions of a document
+ * Embedded documents are compared field by field; arrays and other values as a whole.
+ */
+export function diffPaths(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix: string = ''
+): string[] {
+  const paths: string[] = []
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const path = prefix + key
+    const [previous, current] = [before[key], after[key]]
+    if (isPlainObject(previous) && isPlainObject(current)) {
+      paths.push(...diffPaths(previous, current, `${path}.`))
+    } else if (JSON.stringify(previous) !== JSON.stringify(current)) {
+      paths.push(path)
+    }
+  }
+  return paths
+}
+
+// Paths changed since the document was loaded, plus marked paths (every field when new)
+export function directModifiedPaths(
+  state: DocumentState,
+  fields: Record<string, unknown>
+): string[] {
+  if (state.isNew) {
+    return Object.keys(fields).filter(key => key !== '_id' && fields[key] !== undefined)
+  }
+  return [...new Set([...diffPaths(state.snapshot, fields), ...state.marked])]
+}
+
+// Direct paths and their parents: a change to 'address.city' also modifies 'address'
+export function modifiedPaths(directPaths: string[]): string[] {
+  const paths = new Set<string>()
+  for (const path of directPaths) {
+    const parts = path.split('.')
+    parts.forEach((_, i) => paths.add(parts.slice(0, i + 1).join('.')))
+  }
+  return [...paths]
+}
+
+// Whether a path (or any of several) is, contains or lies inside a modified path
+export function isPathModified(directPaths: string[], path?: string | string[]): boolean {
+  if (path === undefined) return directPaths.length > 0
+  const candidates = Array.isArray(path) ? path : path.split(' ')
+  return candidates.some(candidate =>
+    directPaths.some(
+      modified =>
+        modified === candidate ||
+        modified.startsWith(`${candidate}.`) ||
+        candidate.startsWith(`${modified}.`)
+    )
+  )
+}
+
+// Whether any of the paths is an array, or lies inside one, before or after the change
+export function modifiesArray(
+  state: DocumentState,
+  fields: Record<string, unknown>,
+  directPaths: string[]
+): boolean {
+  return directPaths.some(path => {
+    const parts = path.split('.')
+    return parts.some((_, i) =>
+      [state.snapshot, fields].some(doc => Array.isArray(getPath(doc, parts.slice(0, i + 1))))
+    )
+  })
+}
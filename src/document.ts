@@ -1,4 +1,6 @@
 import { ObjectId } from './objectid'
+import type { ClientSession } from './session'
+import type { ValidationError } from './schema'
 
 // Document interface - represents a document returned from queries
 // with instance methods attached
@@ -6,7 +8,17 @@ export interface IDocument {
   _id: ObjectId // Always present on retrieved documents (auto-generated ObjectId if not provided)
   toJSON?(options?: any): any
   toObject?(options?: any): any
-  save(): Promise<any>
+  save(options?: { session?: ClientSession }): Promise<any>
+  // Change tracking (see Document)
+  isModified(path?: string | string[]): boolean
+  modifiedPaths(): string[]
+  directModifiedPaths(): string[]
+  markModified(path: string): void
+  // Validation (see Document)
+  validate(paths?: string[]): Promise<void>
+  validateSync(paths?: string[]): ValidationError | undefined
+  isNew: boolean
+  $isNew: boolean
 }
 
 /**
@@ -17,6 +29,9 @@ export interface IDocument {
  */
 export class Document implements IDocument {
   _id!: ObjectId
+  // Whether the document is being inserted (true in pre-save hooks of create/insertMany)
+  declare isNew: boolean
+  declare $isNew: boolean
 
   // These methods are typically overridden by the Model when attaching to documents
   toJSON(_options?: any): any {
@@ -29,7 +44,34 @@ export class Document implements IDocument {
     return { ...this }
   }
 
-  async save(): Promise<this> {
+  // Whether a path (or any path, without arguments) changed since the document was loaded
+  isModified(_path?: string | string[]): boolean {
+    return false
+  }
+
+  // Changed paths and their parents, e.g. ['address', 'address.city']
+  modifiedPaths(): string[] {
+    return []
+  }
+
+  // Changed paths without their parents, e.g. ['address.city']
+  directModifiedPaths(): string[] {
+    return []
+  }
+
+  // Save a path on the next save() even if its value looks unchanged
+  markModified(_path: string): void {}
+
+  // Run the schema validators on the document as save() would store it; rejects with a
+  // ValidationError listing every failing path
+  async validate(_paths?: string[]): Promise<void> {}
+
+  // Like validate(), skipping async validators; returns the error instead of throwing
+  validateSync(_paths?: string[]): ValidationError | undefined {
+    return undefined
+  }
+
+  async save(_options?: { session?: ClientSession }): Promise<this> {
     // This is a stub - actual save logic is attached by Model
     throw new Error('save() must be called on a document retrieved from a Model')
   }
@@ -1,11 +1,15 @@
 import { DocumentQueryBuilder, QueryOptions, PopulateOptions } from './document-query-builder'
 import { QueryableKeys } from './type-utils'
+import { QueryCursor, CursorOptions, EachAsyncOptions } from './query-cursor'
 
 // Type imports needed for Model reference
 type LogicalQueryOperators<T extends object> = {
   $or?: Query<T>[]
   $and?: Query<T>[]
   $nor?: Query<T>[]
+  $expr?: Record<string, unknown>
+  $where?: (this: any, doc: any) => boolean
+  $jsonSchema?: Record<string, unknown>
 }
 
 export type Query<T extends object = Record<string, unknown>> = {
@@ -105,15 +109,55 @@ export class FindQueryBuilder<
     return this as any
   }
 
-  // Override exec to execute find with all accumulated options
-  async exec(): Promise<Array<T & Document>> {
-    const options: QueryOptions<T> = {
+  // Stream results in batches instead of materialising the full array
+  cursor(options: CursorOptions = {}): QueryCursor<T> {
+    const batches = this._model._executeFindBatches(this._query, {
+      ...this._buildOptions(),
+      batchSize: options.batchSize
+    }) as AsyncIterable<Array<T & Document>>
+    const populate = this._populate
+    const hasPopulate = Array.isArray(populate) ? populate.length > 0 : !!populate
+    if (!hasPopulate) return new QueryCursor<T>(batches)
+
+    // Populate each batch as it is pulled from storage
+    const model = this._model
+    const session = this._session
+    return new QueryCursor<T>(
+      (async function* () {
+        for await (const batch of batches) {
+          yield (await model._applyPopulate(batch, populate, session)) as Array<T & Document>
+        }
+      })()
+    )
+  }
+
+  // Run fn on every matching document through a cursor
+  eachAsync(
+    fn: (doc: T & Document, index: number) => unknown,
+    options: EachAsyncOptions & CursorOptions = {}
+  ): Promise<void> {
+    return this.cursor({ batchSize: options.batchSize }).eachAsync(fn, options)
+  }
+
+  // Support for await (const doc of Model.find(query))
+  [Symbol.asyncIterator](): AsyncIterator<T & Document> {
+    return this.cursor()[Symbol.asyncIterator]()
+  }
+
+  private _buildOptions(): QueryOptions<T> {
+    return {
       sort: this._sort,
       limit: this._limit,
       skip: this._skip,
       select: this._select,
-      lean: this._lean
+      lean: this._lean,
+      session: this._session
     }
+  }
+
+  // Override exec to execute find with all accumulated options
+  async exec(): Promise<Array<T & Document>> {
+    const options = this._buildOptions()
 
     let results = await this._model._executeFindWithOptions(this._query, options)
 
@@ -121,7 +165,7 @@ export class FindQueryBuilder<
     if (this._populate) {
       const hasPopulate = Array.isArray(this._populate) ? this._populate.length > 0 : true // Single PopulateOptions object
       if (hasPopulate) {
-        results = await this._model._applyPopulate(results, this._populate)
+        results = await this._model._applyPopulate(results, this._populate, this._session)
       }
     }
 
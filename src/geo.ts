@@ -0,0 +1,421 @@
+// Mean earth radius used for spherical distances (same value MongoDB uses)
+export const EARTH_RADIUS_METERS = 6378100
+
+// [longitude, latitude]
+export type Position = [number, number]
+
+// GeoJSON geometries supported by 2dsphere queries
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+
+// Geospatial query operators
+export type GeoQueryOperators = {
+  $near?: GeoNearOperand
+  $nearSphere?: GeoNearOperand
+  $maxDistance?: number
+  $minDistance?: number
+  $geoWithin?: {
+    $geometry?: GeoJsonGeometry
+    $centerSphere?: [Position, number]
+    $center?: [Position, number]
+    $box?: [Position, Position]
+    $polygon?: Position[]
+  }
+  $geoIntersects?: { $geometry: GeoJsonGeometry }
+}
+
+// $near / $nearSphere accept a GeoJSON point (distances in meters) or a legacy pair (radians)
+export type GeoNearOperand =
+  { $geometry: GeoJsonGeometry; $maxDistance?: number; $minDistance?: number } | Position
+
+export const GEO_QUERY_OPERATORS = new Set(['$near', '$nearSphere', '$geoWithin', '$geoIntersects'])
+
+type Segment = [Position, Position]
+
+function isPosition(value: unknown): value is Position {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number'
+  )
+}
+
+// Normalise a stored or query value to a GeoJSON geometry (legacy [lng, lat] pairs become points)
+export function toGeometry(value: unknown): GeoJsonGeometry | null {
+  if (isPosition(value)) return { type: 'Point', coordinates: [value[0], value[1]] }
+  if (value && typeof value === 'object' && 'type' in value && 'coordinates' in value) {
+    return value as GeoJsonGeometry
+  }
+  return null
+}
+
+// Get the position of a point geometry (or legacy pair)
+export function toPoint(value: unknown): Position | null {
+  const geometry = toGeometry(value)
+  return geometry?.type === 'Point' ? geometry.coordinates : null
+}
+
+function vertices(geometry: GeoJsonGeometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates]
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat()
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2)
+  }
+}
+
+function segments(geometry: GeoJsonGeometry): Segment[] {
+  const path = (points: Position[]): Segment[] =>
+    points.slice(1).map((point, i) => [points[i], point])
+
+  switch (geometry.type) {
+    case 'Point':
+      return [[geometry.coordinates, geometry.coordinates]]
+    case 'MultiPoint':
+      return geometry.coordinates.map(point => [point, point])
+    case 'LineString':
+      return path(geometry.coordinates)
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flatMap(path)
+    case 'MultiPolygon':
+      return geometry.coordinates.flat().flatMap(path)
+  }
+}
+
+function polygons(geometry: GeoJsonGeometry): Position[][][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates]
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates
+  return []
+}
+
+/**
+ * Great-circle distance between two positions, in radians
+ * Multiply by EARTH_RADIUS_METERS for meters.
+ */
+export function sphericalDistance(a: Position, b: Position): number {
+  const toRadians = Math.PI / 180
+  const dLat = (b[1] - a[1]) * toRadians
+  const dLng = (b[0] - a[0]) * toRadians
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a[1] * toRadians) * Math.cos(b[1] * toRadians) * Math.sin(dLng / 2) ** 2
+  return 2 * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Ray casting test against a single ring
+function pointInRing(point: Position, ring: Position[]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > point[1] !== yj > point[1]) {
+      const x = ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi
+      if (point[0] < x) inside = !inside
+    }
+  }
+  return inside
+}
+
+// Inside the outer ring and outside every hole
+function pointInPolygon(point: Position, polygon: Position[][]): boolean {
+  const [outer, ...holes] = polygon
+  return pointInRing(point, outer) && !holes.some(hole => pointInRing(point, hole))
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  const value = (b[1] - a[1]) * (c[0] - b[0]) - (b[0] - a[0]) * (c[1] - b[1])
+  return value === 0 ? 0 : value > 0 ? 1 : 2
+}
+
+function onSegment(a: Position, b: Position, c: Position): boolean {
+  return (
+    b[0] <= Math.max(a[0], c[0]) &&
+    b[0] >= Math.min(a[0], c[0]) &&
+    b[1] <= Math.max(a[1], c[1]) &&
+    b[1] >= Math.min(a[1], c[1])
+  )
+}
+
+function segmentsIntersect([p1, q1]: Segment, [p2, q2]: Segment): boolean {
+  const o1 = orientation(p1, q1, p2)
+  const o2 = orientation(p1, q1, q2)
+  const o3 = orientation(p2, q2, p1)
+  const o4 = orientation(p2, q2, q1)
+
+  if (o1 !== o2 && o3 !== o4) return true
+  return (
+    (o1 === 0 && onSegment(p1, p2, q1)) ||
+    (o2 === 0 && onSegment(p1, q2, q1)) ||
+    (o3 === 0 && onSegment(p2, p1, q2)) ||
+    (o4 === 0 && onSegment(p2, q1, q2))
+  )
+}
+
+/**
+ * Whether two geometries share at least one point
+ * Edges are treated as planar segments between vertices.
+ */
+export function geometriesIntersect(a: GeoJsonGeometry, b: GeoJsonGeometry): boolean {
+  const aSegments = segments(a)
+  const bSegments = segments(b)
+  if (aSegments.some(sa => bSegments.some(sb => segmentsIntersect(sa, sb)))) return true
+
+  const contains = (outer: GeoJsonGeometry, inner: GeoJsonGeometry) =>
+    polygons(outer).some(polygon => vertices(inner).some(point => pointInPolygon(point, polygon)))
+  return contains(a, b) || contains(b, a)
+}
+
+/**
+ * Resolve the $near / $nearSphere condition on a field
+ * GeoJSON points measure distances in meters, legacy pairs in radians.
+ */
+export function parseNear(condition: Record<string, unknown>): {
+  center: Position
+  unit: 'meters' | 'radians'
+  maxDistance?: number
+  minDistance?: number
+} {
+  const operand = condition.$near ?? condition.$nearSphere
+  if (operand && typeof operand === 'object' && '$geometry' in operand) {
+    const geo = operand as { $geometry: unknown; $maxDistance?: number; $minDistance?: number }
+    const center = toPoint(geo.$geometry)
+    if (!center) throw new Error('$near requires a GeoJSON Point')
+    return {
+      center,
+      unit: 'meters',
+      maxDistance: geo.$maxDistance ?? (condition.$maxDistance as number | undefined),
+      minDistance: geo.$minDistance ?? (condition.$minDistance as number | undefined)
+    }
+  }
+
+  const center = toPoint(operand)
+  if (!center) throw new Error('$near requires a point')
+  return {
+    center,
+    unit: 'radians',
+    maxDistance: condition.$maxDistance as number | undefined,
+    minDistance: condition.$minDistance as number | undefined
+  }
+}
+
+/**
+ * Distance from a point to the closest vertex of a stored geometry
+ * Returns Infinity when the value is not a geometry.
+ */
+export function geoDistance(center: Position, value: unknown, unit: 'meters' | 'radians'): number {
+  const geometry = toGeometry(value)
+  if (!geometry) return Infinity
+  const radians = Math.min(...vertices(geometry).map(point => sphericalDistance(center, point)))
+  return unit === 'meters' ? radians * EARTH_RADIUS_METERS : radians
+}
+
+// Build the containment test for a $geoWithin shape
+function withinTest(shape: Record<string, unknown>): (point: Position) => boolean {
+  if (shape.$centerSphere) {
+    const [center, radius] = shape.$centerSphere as [Position, number]
+    return point => sphericalDistance(center, point) <= radius
+  }
+  if (shape.$center) {
+    const [center, radius] = shape.$center as [Position, number]
+    return point => Math.hypot(point[0] - center[0], point[1] - center[1]) <= radius
+  }
+  if (shape.$box) {
+    const [[x1, y1], [x2, y2]] = shape.$box as [Position, Position]
+    return ([x, y]) =>
+      x >= Math.min(x1, x2) &&
+      x <= Math.max(x1, x2) &&
+      y >= Math.min(y1, y2) &&
+      y <= Math.max(y1, y2)
+  }
+  if (shape.$polygon) {
+    const ring = shape.$polygon as Position[]
+    return point => pointInRing(point, ring)
+  }
+  if (shape.$geometry) {
+    const geometry = toGeometry(shape.$geometry)
+    if (!geometry || polygons(geometry).length === 0) {
+      throw new Error('$geoWithin $geometry must be a Polygon or MultiPolygon')
+    }
+    return point => polygons(geometry).some(polygon => pointInPolygon(point, polygon))
+  }
+  throw new Error('$geoWithin requires $geometry, $centerSphere, $center, $box or $polygon')
+}
+
+/**
+ * Match a field value against a geospatial query operator
+ * `condition` is the field's full operator object, so $near can read $maxDistance.
+ */
+export function matchesGeoOperator(
+  value: unknown,
+  operator: string,
+  operand: unknown,
+  condition: Record<string, unknown>
+): boolean {
+  switch (operator) {
+    case '$near':
+    case '$nearSphere': {
+      const near = parseNear(condition)
+      const distance = geoDistance(near.center, value, near.unit)
+      if (distance === Infinity) return false
+      if (near.maxDistance !== undefined && distance > near.maxDistance) return false
+      if (near.minDistance !== undefined && distance < near.minDistance) return false
+      return true
+    }
+    case '$geoWithin': {
+      const geometry = toGeometry(value)
+      if (!geometry) return false
+      return vertices(geometry).every(withinTest(operand as Record<string, unknown>))
+    }
+    case '$geoIntersects': {
+      const geometry = toGeometry(value)
+      const target = toGeometry((operand as { $geometry?: unknown })?.$geometry)
+      if (!target) throw new Error('$geoIntersects requires a $geometry')
+      return geometry !== null && geometriesIntersect(geometry, target)
+    }
+    default:
+      return false
+  }
+}
+
+// Whether a field condition uses a geospatial query operator
+export function isGeoCondition(condition: unknown): condition is Record<string, unknown> {
+  return (
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).some(key => GEO_QUERY_OPERATORS.has(key))
+  )
+}
+
+function boundingCircle(points: Position[]): { center: Position; radius: number } {
+  const lngs = points.map(point => point[0])
+  const lats = points.map(point => point[1])
+  const center: Position = [
+    (Math.min(...lngs) + Math.max(...lngs)) / 2,
+    (Math.min(...lats) + Math.max(...lats)) / 2
+  ]
+  const radius = Math.max(...points.map(point => sphericalDistance(center, point)))
+  return { center, radius: radius * EARTH_RADIUS_METERS }
+}
+
+/**
+ * Circle (center and radius in meters) enclosing every point a geo condition can match
+ * Returns null when the condition is unbounded, e.g. $near without $maxDistance.
+ */
+export function geoSearchArea(
+  condition: Record<string, unknown>
+): { center: Position; radius: number } | null {
+  if (condition.$near !== undefined || condition.$nearSphere !== undefined) {
+    const near = parseNear(condition)
+    if (near.maxDistance === undefined) return null
+    const radius =
+      near.unit === 'meters' ? near.maxDistance : near.maxDistance * EARTH_RADIUS_METERS
+    return { center: near.center, radius }
+  }
+
+  const within = condition.$geoWithin as Record<string, unknown> | undefined
+  if (within) {
+    if (within.$centerSphere) {
+      const [center, radius] = within.$centerSphere as [Position, number]
+      return { center, radius: radius * EARTH_RADIUS_METERS }
+    }
+    if (within.$center) {
+      const [[x, y], r] = within.$center as [Position, number]
+      return boundingCircle([
+        [x - r, y - r],
+        [x + r, y + r]
+      ])
+    }
+    if (within.$box) return boundingCircle(within.$box as Position[])
+    if (within.$polygon) return boundingCircle(within.$polygon as Position[])
+    const geometry = toGeometry(within.$geometry)
+    if (geometry) return boundingCircle(vertices(geometry))
+  }
+
+  const intersects = condition.$geoIntersects as { $geometry?: unknown } | undefined
+  const geometry = toGeometry(intersects?.$geometry)
+  return geometry ? boundingCircle(vertices(geometry)) : null
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz'
+
+// Longest geohash kept by spatial indexes (cells of roughly 38m x 19m)
+export const GEOHASH_MAX_PRECISION = 8
+
+export function encodeGeohash(lat: number, lng: number, precision: number): string {
+  const latRange = [-90, 90]
+  const lngRange = [-180, 180]
+  let hash = ''
+  let bits = 0
+  let bit = 0
+  let evenBit = true
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange
+    const value = evenBit ? lng : lat
+    const mid = (range[0] + range[1]) / 2
+    if (value >= mid) {
+      bits = bits * 2 + 1
+      range[0] = mid
+    } else {
+      bits = bits * 2
+      range[1] = mid
+    }
+    evenBit = !evenBit
+
+    if (++bit === 5) {
+      hash += GEOHASH_BASE32[bits]
+      bits = 0
+      bit = 0
+    }
+  }
+  return hash
+}
+
+// Cell size in degrees for a geohash of the given length
+function geohashCellSize(precision: number): { lat: number; lng: number } {
+  const bits = precision * 5
+  return { lat: 180 / 2 ** Math.floor(bits / 2), lng: 360 / 2 ** Math.ceil(bits / 2) }
+}
+
+/**
+ * Geohash cells covering a circle: the 3x3 block around the center at the finest
+ * precision whose cells are at least as large as the radius
+ * Returns null when no cell set can cover the area (huge radii or near the poles).
+ */
+export function geohashCover(center: Position, radiusMeters: number): string[] | null {
+  const [lng, lat] = center
+  const dLat = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI)
+  if (lat - dLat <= -90 || lat + dLat >= 90) return null
+  const dLng = dLat / Math.cos(((Math.abs(lat) + dLat) * Math.PI) / 180)
+  if (dLng >= 180) return null
+
+  for (let precision = GEOHASH_MAX_PRECISION; precision >= 1; precision--) {
+    const size = geohashCellSize(precision)
+    if (size.lat < dLat || size.lng < dLng) continue
+
+    const cells = new Set<string>()
+    for (const i of [-1, 0, 1]) {
+      for (const j of [-1, 0, 1]) {
+        const cellLat = Math.max(-90, Math.min(90 - 1e-9, lat + i * size.lat))
+        const cellLng = ((((lng + j * size.lng + 180) % 360) + 360) % 360) - 180
+        cells.add(encodeGeohash(cellLat, cellLng, precision))
+      }
+    }
+    return [...cells]
+  }
+  return null
+}
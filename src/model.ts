@@ -1,6 +1,9 @@
-import { Schema } from './schema'
+import { Schema, VersionError, CastError, type ValidationError } from './schema'
 import { buildSearchIndexRegistry, type SearchIndexRegistry } from './search-index-registry'
 import { ObjectId } from './objectid'
+import { Decimal128 } from './decimal128'
+import { UUID } from './uuid'
+import { SchemaMap, isOperatorObject } from './cast'
 import { QueryBuilder } from './query-builder'
 import { DocumentQueryBuilder } from './document-query-builder'
 import { FindQueryBuilder } from './find-query-builder'
@@ -8,11 +11,85 @@ import { QueryableKeys } from './type-utils'
 import { StorageStrategy, MemoryStorageStrategy } from './storage'
 import { Document, type IDocument } from './document'
 import type { Database } from './database'
-import type { AggregationPipeline } from './aggregation'
+import type { AggregationPipeline, UpdatePipelineStage } from './aggregation'
+import type { ClientSession } from './session'
+import { BulkWriteResult, type BulkWriteOperation, type BulkWriteOptions } from './bulk-write'
+import { cloneDocument } from './storage/snapshot-transaction'
+import { AggregationEngine } from './aggregation-engine'
+import {
+  matchesType,
+  matchesMod,
+  matchesBits,
+  matchesJsonSchema,
+  type BsonTypeAlias,
+  type JsonSchema
+} from './query-operators'
+import {
+  geoDistance,
+  geoSearchArea,
+  isGeoCondition,
+  matchesGeoOperator,
+  parseNear,
+  type GeoQueryOperators
+} from './geo'
+import {
+  createDocumentState,
+  diffPaths,
+  directModifiedPaths,
+  isPathModified,
+  modifiedPaths,
+  modifiesArray
+} from './document-state'
+import {
+  expandUpdatePath,
+  getPath,
+  hasPath,
+  hasPositionalPath,
+  isEachModifier,
+  parseArrayFilters,
+  queryPathValues,
+  setPath,
+  unsetPath,
+  type PushModifiers
+} from './update-paths'
+import {
+  ChangeStream,
+  createChangeEvent,
+  buildUpdateDescription,
+  type ChangeEvent,
+  type ChangeInput,
+  type ChangeStreamOptions
+} from './change-stream'
 
 // Symbols for internal document properties (non-enumerable)
 const ORIGINAL_DOC = Symbol('originalDoc')
 const MODEL_REF = Symbol('modelRef')
+const DOC_STATE = Symbol('docState')
+
+// Update operators that can move array elements (and so change the document version)
+const ARRAY_UPDATE_OPERATORS = ['$push', '$addToSet', '$pull', '$pullAll', '$pop']
+
+// Arithmetic of $inc, $dec and $mul, exact when either operand is a Decimal128
+function updateArithmetic(
+  current: unknown,
+  value: unknown,
+  operation: 'add' | 'subtract' | 'multiply'
+): number | Decimal128 {
+  if (current instanceof Decimal128 || value instanceof Decimal128) {
+    return Decimal128.from(current as Decimal128 | number)[operation](value as Decimal128 | number)
+  }
+  const [a, b] = [Number(current), Number(value)]
+  if (operation === 'add') return a + b
+  return operation === 'subtract' ? a - b : a * b
+}
+
+// Whether $inc, $dec or $mul use a Decimal128, which SQL arithmetic would turn into a float
+function hasDecimalArithmetic(update: Record<string, unknown>): boolean {
+  return ['$inc', '$dec', '$mul'].some(operator => {
+    const operands = update[operator] as Record<string, unknown> | undefined
+    return !!operands && Object.values(operands).some(value => value instanceof Decimal128)
+  })
+}
 
 // Re-export Document class and interface for backwards compatibility
 export { Document }
@@ -41,7 +118,13 @@ export type QueryOperator<T = unknown> = {
   $elemMatch?: Record<string, unknown>
   $all?: T extends unknown[] ? T : never
   $not?: QueryOperator<T>
-}
+  $type?: BsonTypeAlias | number | Array<BsonTypeAlias | number>
+  $mod?: [number, number]
+  $bitsAllSet?: number | number[]
+  $bitsAnySet?: number | number[]
+  $bitsAllClear?: number | number[]
+  $bitsAnyClear?: number | number[]
+} & GeoQueryOperators
 
 // Query can be a simple value or an operator object
 export type QueryValue<T = unknown> = T | QueryOperator<T>
@@ -51,6 +134,9 @@ type LogicalQueryOperators<T extends object> = {
   $or?: Query<T>[]
   $and?: Query<T>[]
   $nor?: Query<T>[]
+  $expr?: Record<string, unknown>
+  $where?: (this: any, doc: any) => boolean
+  $jsonSchema?: JsonSchema
 }
 
 // Query object with field names as keys and optional logical operators
@@ -69,10 +155,42 @@ export type UpdateOperator<T extends object = Record<string, unknown>> = {
   $addToSet?: Partial<Record<keyof T, unknown>>
   $pop?: Partial<Record<keyof T, 1 | -1>>
   $rename?: Partial<Record<keyof T, string>>
+  $mul?: Partial<Record<keyof T, number>>
+  $min?: Partial<T>
+  $max?: Partial<T>
+  $currentDate?: Partial<Record<keyof T, true | { $type: 'date' | 'timestamp' }>>
+  $setOnInsert?: Partial<T>
+  $pullAll?: Partial<Record<keyof T, unknown[]>>
+  $bit?: Partial<Record<keyof T, BitwiseUpdate>>
+}
+
+// $bit operations, applied in the order given
+export type BitwiseUpdate = { and?: number; or?: number; xor?: number }
+
+// Conditions selecting array elements for `$[<identifier>]` update paths, e.g. { 'i.sku': 'A' }
+export type ArrayFilters = Array<Record<string, unknown>>
+
+// Context for applying an update to one document
+type ApplyUpdateOptions<T extends object> = {
+  // The update's filter, which `$` positional paths refer to
+  query?: Query<T>
+  arrayFilters?: Map<string, Record<string, unknown>>
+  // The document is being created by an upsert, so $setOnInsert applies
+  isInsert?: boolean
 }
 
 // Update can be direct field updates or operator-based
-export type Update<T extends object = Record<string, unknown>> = Partial<T> | UpdateOperator<T>
+// An update document, or a pipeline computing each document's new version from its own fields
+export type Update<T extends object = Record<string, unknown>> =
+  Partial<T> | UpdateOperator<T> | UpdatePipelineStage<T>[]
+
+// Result of updateOne/updateMany
+export type UpdateResult = {
+  matchedCount: number
+  modifiedCount: number
+  upsertedCount?: number
+  upsertedId?: unknown
+}
 
 // Query options
 export type QueryOptions<T extends object = Record<string, unknown>> = {
@@ -81,6 +199,12 @@ export type QueryOptions<T extends object = Record<string, unknown>> = {
   skip?: number
   select?: Partial<Record<keyof T, 0 | 1>>
   lean?: boolean
+  session?: ClientSession
+}
+
+// Options for write operations that can run inside a transaction
+export type SessionOptions = {
+  session?: ClientSession
 }
 
 // Populate options for advanced population
@@ -100,6 +224,11 @@ export class Model<T extends object = Record<string, unknown>> {
   private _database?: Database // Database reference for getModel
   private _storageInitPromise: Promise<void> | null = null
   private _searchIndexRegistry: SearchIndexRegistry | null = null
+  private _sessionRoot?: Model<T> // Set on the session-scoped view created by _withSession
+  private _session?: ClientSession
+  private _modelName?: string
+  private _changeStreams: Set<ChangeStream<T>> = new Set()
+  private _expressionEngine: AggregationEngine<T> | null = null // Evaluates $expr and update pipelines
 
   constructor(
     schema?: Schema<T>,
@@ -127,6 +256,11 @@ export class Model<T extends object = Record<string, unknown>> {
         this.createIndex(fields, { unique: isUnique })
       }
 
+      // Spatial indexes (storage strategies without geo support match these queries by scanning)
+      for (const field of schema.getGeoIndexes()) {
+        this._storage.createGeoIndex?.(field)
+      }
+
       const searchIdx = schema.getSearchIndexes()
       if (searchIdx.length > 0) {
         this._searchIndexRegistry = buildSearchIndexRegistry(searchIdx)
@@ -145,6 +279,15 @@ export class Model<T extends object = Record<string, unknown>> {
     this._storageInitPromise = promise
   }
 
+  // Set the name the model was registered under (called by Database)
+  _setModelName(name: string): void {
+    this._modelName = name
+  }
+
+  get modelName(): string | undefined {
+    return this._modelName
+  }
+
   // Helper to ensure storage is initialized before any operation
   private async _ensureStorageReady(): Promise<void> {
     if (this._storageInitPromise) {
@@ -153,20 +296,43 @@ export class Model<T extends object = Record<string, unknown>> {
     }
   }
 
-  private _applyVirtuals(doc: T): T & Document {
+  // Resolve the model to run an operation on: inside an active transaction this is a
+  // view of the model whose storage is the session's transaction storage
+  private async _withSession(session?: ClientSession): Promise<Model<T>> {
+    if (!session || !session.inTransaction() || this._sessionRoot) return this
+
+    await this._ensureStorageReady()
+    return this._withStorage(await session._getTransactionStorage(this._storage), session)
+  }
+
+  // View of the model whose operations go through a transaction's storage
+  private _withStorage(storage: StorageStrategy<T>, session?: ClientSession): Model<T> {
+    const scoped = Object.create(this) as Model<T>
+    scoped._storage = storage
+    scoped._storageInitPromise = null
+    scoped._sessionRoot = this
+    scoped._session = session
+    return scoped
+  }
+
+  // Hydrate a stored document: getters, virtuals, schema methods, save() and change tracking
+  private _applyVirtuals(doc: T, isNew: boolean = false): T & Document {
     if (!this._schema) return doc as T & Document
 
     const virtuals = this._schema.getVirtuals()
 
     // Always create a copy to add methods, even if no virtuals
-    // Need to use intermediate variable to allow dynamic property assignment
-    const intermediate = { ...doc }
+    // Nested values are copied too, so changing a loaded document never touches the stored one
+    const intermediate = cloneDocument(doc)
 
     // Apply field getters first
     const withGetters = this._schema.applyGetters(intermediate as T)
+    this._schema.hydrateMaps(withGetters)
 
     // Create a mutable result object for adding properties dynamically
     const result = withGetters as T & Document
+    const state = createDocumentState({ ...withGetters }, isNew)
+    ;(result as unknown as Record<symbol, unknown>)[DOC_STATE] = state
 
     // Apply virtuals if any
     if (virtuals.size > 0) {
@@ -210,94 +376,141 @@ export class Model<T extends object = Record<string, unknown>> {
     // Store reference to original document and model for save functionality using Symbols
     // This makes them non-enumerable and won't show up in iteration
     ;(result as unknown as Record<symbol, unknown>)[ORIGINAL_DOC] = doc
-    ;(result as unknown as Record<symbol, unknown>)[MODEL_REF] = this
+    // Documents loaded inside a transaction still belong to the base model
+    ;(result as unknown as Record<symbol, unknown>)[MODEL_REF] = this._sessionRoot ?? this
+
+    // Change tracking (isNew is not enumerable, so it is never saved as a field)
+    const directPaths = () => directModifiedPaths(state, this._documentFields(result))
+    result.isModified = (path?: string | string[]) => isPathModified(directPaths(), path)
+    result.modifiedPaths = () => modifiedPaths(directPaths())
+    result.directModifiedPaths = directPaths
+    result.markModified = (path: string) => {
+      state.marked.add(path)
+    }
+    for (const name of ['isNew', '$isNew']) {
+      Object.defineProperty(result, name, {
+        configurable: true,
+        get: () => state.isNew,
+        set: (value: boolean) => {
+          state.isNew = value
+        }
+      })
+    }
+
+    // Validation of the document as save() would store it, with cast failures as errors
+    const validationTarget = (): [Partial<T>, CastError[]] => {
+      const target = cloneDocument(
+        (result as unknown as Record<symbol, unknown>)[ORIGINAL_DOC] as T
+      )
+      try {
+        const update = this._buildSaveUpdate(result)
+        if (update) this._applyUpdate(target, update)
+        return [target, []]
+      } catch (error) {
+        if (!(error instanceof CastError)) throw error
+        return [target, [error]]
+      }
+    }
+    result.validate = async (paths?: string[]) => {
+      const [target, castErrors] = validationTarget()
+      await this._schema?.validate(target, paths, castErrors)
+    }
+    result.validateSync = (paths?: string[]): ValidationError | undefined => {
+      const [target, castErrors] = validationTarget()
+      return this._schema?.validateSync(target, paths, castErrors)
+    }
 
     // Add save method
-    result.save = async () => {
-      const originalDoc = (result as unknown as Record<symbol, unknown>)[ORIGINAL_DOC] as T
-      const model = (result as unknown as Record<symbol, unknown>)[MODEL_REF] as Model<T>
+    result.save = async (options?: SessionOptions) => {
+      const loadedDoc = (result as unknown as Record<symbol, unknown>)[ORIGINAL_DOC] as T
+      const baseModel = (result as unknown as Record<symbol, unknown>)[MODEL_REF] as Model<T>
+      const model = await baseModel._withSession(options?.session)
 
       await model._ensureStorageReady()
 
-      // Check if original document still exists in storage (by _id or reference)
+      // Find the stored copy of the document (by reference or _id)
+      // Inside a transaction this is the transaction's copy rather than the loaded one
       const allDocs = await model._storage.getAll()
-      const docExists = allDocs.some((d: T) => {
+      const originalDoc = allDocs.find((d: T) => {
         const dRecord = d as unknown as Record<string, unknown>
-        const origRecord = originalDoc as unknown as Record<string, unknown>
+        const origRecord = loadedDoc as unknown as Record<string, unknown>
         return (
-          d === originalDoc ||
+          d === loadedDoc ||
           (dRecord._id && origRecord._id && String(dRecord._id) === String(origRecord._id))
         )
       })
-      if (!docExists) {
+      if (!originalDoc) {
         throw new Error('Document has been deleted and cannot be saved')
       }
 
-      // Get list of virtual property names to exclude from saving
-      const virtualNames = new Set(model._schema?.getVirtuals().keys())
-
-      // Create a test copy to validate before modifying the original
-      const testCopy = JSON.parse(JSON.stringify(originalDoc)) as T
-
-      // Copy modified fields to test copy (skip virtuals and methods)
-      for (const key in result) {
-        if (
-          typeof (result as unknown as Record<string, unknown>)[key] === 'function' || // Skip methods
-          virtualNames.has(key) // Skip virtuals
-        ) {
-          continue
-        }
-
-        // Copy the value to the test copy
-        ;(testCopy as unknown as Record<string, unknown>)[key] = (
-          result as unknown as Record<string, unknown>
-        )[key]
+      // Validate the changes on a copy before touching the stored document
+      const pending = model._buildSaveUpdate(result)
+      if (pending) {
+        const testCopy = cloneDocument(originalDoc)
+        model._applyUpdate(testCopy, pending)
+        await model._validateDocument(testCopy)
+        model._checkUniqueConstraints(testCopy, originalDoc)
       }
 
-      // Remove fields that were deleted from the document
-      for (const key in testCopy) {
-        if (!virtualNames.has(key) && !(key in result)) {
-          delete testCopy[key as keyof T]
+      // Execute pre-save hooks (`this` is the document, so hooks can call isModified())
+      await model._executePreHooks('save', { doc: result }, result)
+
+      // Hooks may have changed more fields
+      const update = model._buildSaveUpdate(result)
+      if (update) {
+        const id = (originalDoc as Record<string, unknown>)._id
+        const filter: Record<string, unknown> = { _id: id }
+
+        // Saves that modify arrays (or every save, with optimisticConcurrency) must start from
+        // the stored version and increment it
+        const versionKey = model._schema?.getVersionKey()
+        const directPaths = result.directModifiedPaths()
+        const versioned =
+          versionKey &&
+          (model._schema?.getOptions().optimisticConcurrency ||
+            modifiesArray(state, model._documentFields(result), directPaths))
+        if (versioned) {
+          const version = state.snapshot[versionKey] as number | undefined
+          if ((originalDoc as Record<string, unknown>)[versionKey] !== version) {
+            throw new VersionError(id, version, directPaths)
+          }
+          if (version !== undefined) filter[versionKey] = version
+          update.$inc = { [versionKey]: 1 } as UpdateOperator<T>['$inc']
         }
-      }
-
-      // Apply setters to test copy
-      if (model._schema) {
-        model._schema.applySetters(testCopy)
-      }
-
-      // Apply timestamps to test copy (update operation)
-      model._applyTimestamps(testCopy, 'update')
 
-      // Validate the test copy
-      await model._validateDocument(testCopy)
+        const before = model._hasChangeStreams() ? cloneDocument(originalDoc) : null
+        model._applyUpdate(originalDoc, update)
 
-      // Check unique constraints on test copy (excluding the original doc)
-      model._checkUniqueConstraints(testCopy, originalDoc)
-
-      // If validation passed, copy all fields from test copy to original
-      for (const key in testCopy) {
-        originalDoc[key as keyof T] = testCopy[key as keyof T]
-      }
-
-      // Remove fields from original that don't exist in test copy
-      for (const key in originalDoc) {
-        if (!(key in testCopy)) {
-          delete originalDoc[key as keyof T]
+        // Persist only the changed paths when the storage can update in place
+        const storage = model._storage as StorageStrategy<T> & {
+          updateNative?: StorageStrategy<T>['updateNative']
+        }
+        if (typeof storage.updateNative === 'function') {
+          const { modifiedCount } = await storage.updateNative(filter as Query<T>, update)
+          if (versioned && modifiedCount === 0) {
+            throw new VersionError(id, filter[versionKey] as number | undefined, directPaths)
+          }
+        } else {
+          await storage.update(originalDoc, originalDoc)
+        }
+        if (versioned) {
+          ;(result as Record<string, unknown>)[versionKey] = (
+            originalDoc as Record<string, unknown>
+          )[versionKey]
         }
-      }
-
-      // Execute pre-save hooks
-      await model._executePreHooks('save', { doc: originalDoc })
-
-      // Persist changes to storage
-      await model._storage.update(originalDoc, originalDoc)
 
-      // Rebuild indexes (in case indexed fields changed)
-      model._rebuildIndexes()
+        // Rebuild indexes (in case indexed fields changed)
+        await model._rebuildIndexes()
+        if (before) model._emitUpdate(before, originalDoc)
+      }
 
       // Execute post-save hooks
-      await model._executePostHooks('save', { doc: originalDoc })
+      await model._executePostHooks('save', { doc: result }, result)
+
+      // The saved state is the new baseline
+      state.snapshot = cloneDocument(model._documentFields(result))
+      state.marked.clear()
+      state.isNew = false
 
       // Re-apply virtuals and return the updated document
       return model._applyVirtuals(originalDoc)
@@ -329,6 +542,58 @@ export class Model<T extends object = Record<string, unknown>> {
     return withGetters
   }
 
+  // Data fields of a hydrated document (without methods and virtuals)
+  private _documentFields(doc: T & Document): Record<string, unknown> {
+    const virtualNames = new Set(this._schema?.getVirtuals().keys())
+    const fields: Record<string, unknown> = {}
+    for (const key in doc) {
+      const value = (doc as Record<string, unknown>)[key]
+      if (typeof value === 'function' || virtualNames.has(key)) continue
+      fields[key] = value
+    }
+    return fields
+  }
+
+  // $set/$unset update for the fields of a hydrated document that changed, or null if none did
+  private _buildSaveUpdate(doc: T & Document): UpdateOperator<T> | null {
+    const paths = doc.directModifiedPaths()
+    if (paths.length === 0) return null
+
+    // Setters run on the changed top-level fields only
+    const fields = this._documentFields(doc)
+    const changed: Record<string, unknown> = {}
+    for (const path of paths) {
+      const field = path.split('.')[0]
+      changed[field] = cloneDocument(fields[field])
+    }
+    this._schema?.applyStrict(changed)
+    this._schema?.applySetters(changed)
+    this._schema?.castDocument(changed)
+
+    let $set: Record<string, unknown> = {}
+    let $unset: Record<string, unknown> = {}
+    for (const path of paths) {
+      // Fields dropped by strict mode are not saved
+      if (!(path.split('.')[0] in changed)) continue
+      const value = getPath(changed, path.split('.'))
+      if (value === undefined) $unset[path] = 1
+      else $set[path] = value
+    }
+    // Immutable fields are not saved either
+    if (this._schema) {
+      const allowed = this._schema.strictUpdate({ $set, $unset })
+      $set = (allowed.$set as Record<string, unknown>) ?? {}
+      $unset = (allowed.$unset as Record<string, unknown>) ?? {}
+    }
+    if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) return null
+    this._applyTimestamps($set as Partial<T>, 'update')
+
+    return {
+      $set: $set as Partial<T>,
+      ...(Object.keys($unset).length > 0 && { $unset: $unset as UpdateOperator<T>['$unset'] })
+    }
+  }
+
   private _serializeDocument(
     doc: Record<string, unknown>,
     options: {
@@ -339,12 +604,15 @@ export class Model<T extends object = Record<string, unknown>> {
   ): Record<string, unknown> {
     let result = { ...doc }
 
-    // Remove all function properties (methods) and convert ObjectIds to strings
+    // Remove all function properties (methods), convert ObjectIds and UUIDs to strings and
+    // maps to plain objects
     for (const key in result) {
       if (typeof result[key] === 'function') {
         delete result[key]
-      } else if (result[key] instanceof ObjectId) {
+      } else if (result[key] instanceof ObjectId || result[key] instanceof UUID) {
         result[key] = result[key].toString()
+      } else if (result[key] instanceof SchemaMap) {
+        result[key] = result[key].toJSON()
       }
     }
 
@@ -357,7 +625,26 @@ export class Model<T extends object = Record<string, unknown>> {
   }
 
   private _applyFieldSelection(doc: T, select?: Partial<Record<keyof T, 0 | 1>>): Partial<T> {
-    if (!select || Object.keys(select).length === 0) return doc
+    if (!select) return doc
+    if (this._schema) {
+      select = this._schema.translateAliases(select as Record<string, unknown>) as typeof select
+    }
+
+    // '+field' only adds a `select: false` field back: it is included along with an inclusion,
+    // and does not make the selection an inclusion by itself
+    const selection = select as Record<string, unknown>
+    const forced = Object.keys(selection).filter(key => key.startsWith('+'))
+    if (forced.length > 0) {
+      const rest = Object.fromEntries(
+        Object.entries(selection).filter(([key]) => !key.startsWith('+'))
+      )
+      const isInclusion = Object.values(rest).some(value => value === 1)
+      for (const key of forced) {
+        if (isInclusion) rest[key.slice(1)] = 1
+      }
+      select = rest as typeof select
+    }
+    if (Object.keys(select).length === 0) return doc
 
     const fields = Object.keys(select) as Array<keyof T>
     const isInclusion = fields.some(f => select[f] === 1)
@@ -396,21 +683,48 @@ export class Model<T extends object = Record<string, unknown>> {
     return result as Partial<T>
   }
 
-  private async _executePreHooks(event: string, context: Record<string, unknown>): Promise<void> {
+  // Run hooks; save hooks get the document as `this`
+  private async _executePreHooks(
+    event: string,
+    context: Record<string, unknown>,
+    document?: T & Document
+  ): Promise<void> {
     if (!this._schema) return
 
     const hooks = this._schema.getPreHooks(event)
     for (const hook of hooks) {
-      await hook(context)
+      await hook.call(document, context)
     }
   }
 
-  private async _executePostHooks(event: string, context: Record<string, unknown>): Promise<void> {
+  private async _executePostHooks(
+    event: string,
+    context: Record<string, unknown>,
+    document?: T & Document
+  ): Promise<void> {
     if (!this._schema) return
 
     const hooks = this._schema.getPostHooks(event)
     for (const hook of hooks) {
-      await hook(context)
+      await hook.call(document, context)
+    }
+  }
+
+  // Pre-save hooks for a document being inserted: `this` is a new document (every path counts
+  // as modified), and changes made through it are copied to the document
+  private async _executeInsertPreHooks(doc: T): Promise<void> {
+    if (!this._schema || this._schema.getPreHooks('save').length === 0) return
+
+    const view = this._applyVirtuals(doc, true)
+    const loaded = cloneDocument(this._documentFields(view))
+    await this._executePreHooks('save', { doc }, view)
+
+    const fields = this._documentFields(view)
+    for (const path of diffPaths(loaded, fields)) {
+      const segments = path.split('.')
+      const value = getPath(fields, segments)
+      if (value === undefined) unsetPath(doc, segments)
+      else setPath(doc, segments, value)
     }
   }
 
@@ -450,6 +764,45 @@ export class Model<T extends object = Record<string, unknown>> {
     }
   }
 
+  // Query filters with aliases translated, strictQuery applied and values cast to the schema types of their paths
+  private _prepareQuery(query: Query<T>): Query<T> {
+    if (!this._schema) return query
+    const translated = this._schema.translateAliases(query as Record<string, unknown>)
+    return this._schema.castQuery(this._schema.strictQuery(translated)) as Query<T>
+  }
+
+  // Update operators with aliases translated, strict mode applied and operands cast (pipeline results are cast per document)
+  private _prepareUpdate(update: Update<T>): Update<T> {
+    if (!this._schema || Array.isArray(update)) return update
+    const translated = this._schema.translateAliases(update as Record<string, unknown>)
+    return this._schema.castUpdate(this._schema.strictUpdate(translated)) as Update<T>
+  }
+
+  // Updates that modify arrays also increment the version key, within the same update
+  private _withVersionIncrement(update: Update<T>): Update<T> {
+    const versionKey = this._schema?.getVersionKey()
+    if (!versionKey || Array.isArray(update)) return update
+
+    const operators = update as Record<string, Record<string, unknown> | undefined>
+    const modifiesArrays = ARRAY_UPDATE_OPERATORS.some(
+      operator => Object.keys(operators[operator] ?? {}).length > 0
+    )
+    const setsVersion = Object.keys(operators).some(
+      key => key === versionKey || (key.startsWith('$') && versionKey in (operators[key] ?? {}))
+    )
+    if (!modifiesArrays || setsVersion) return update
+
+    return { ...update, $inc: { ...operators.$inc, [versionKey]: 1 } } as Update<T>
+  }
+
+  // New documents start at version 0
+  private _applyVersionKey(doc: Partial<T>): void {
+    const versionKey = this._schema?.getVersionKey()
+    if (!versionKey) return
+    const record = doc as Record<string, unknown>
+    if (record[versionKey] === undefined) record[versionKey] = 0
+  }
+
   private _checkUniqueConstraints(doc: Partial<T>, excludeDoc?: T): void {
     // Delegate to storage strategy
     this._storage.checkUniqueConstraints(doc, excludeDoc)
@@ -457,7 +810,8 @@ export class Model<T extends object = Record<string, unknown>> {
 
   async _applyPopulate(
     docs: T[],
-    options: string[] | PopulateOptions | PopulateOptions[]
+    options: string[] | PopulateOptions | PopulateOptions[],
+    session?: ClientSession
   ): Promise<T[]> {
     if (!this._schema) return docs
 
@@ -469,7 +823,7 @@ export class Model<T extends object = Record<string, unknown>> {
 
     // Apply each populate option
     for (const option of normalizedOptions) {
-      populated = await this._populatePath(populated, option)
+      populated = await this._populatePath(populated, option, session)
     }
 
     return populated
@@ -502,7 +856,11 @@ export class Model<T extends object = Record<string, unknown>> {
     return []
   }
 
-  private async _populatePath(docs: T[], option: PopulateOptions): Promise<T[]> {
+  private async _populatePath(
+    docs: T[],
+    option: PopulateOptions,
+    session?: ClientSession
+  ): Promise<T[]> {
     if (!this._schema) return docs
 
     const { path, select, match, populate: nestedPopulate, model: modelOverride } = option
@@ -551,7 +909,7 @@ export class Model<T extends object = Record<string, unknown>> {
     }
 
     // Fetch referenced documents
-    let refDocs = await refModel.find(populateQuery)
+    let refDocs = await refModel.find(populateQuery, { session })
 
     // Apply field selection
     if (select) {
@@ -564,12 +922,13 @@ export class Model<T extends object = Record<string, unknown>> {
     if (nestedPopulate) {
       refDocs = (await refModel._applyPopulate(
         refDocs as unknown as any[],
-        nestedPopulate
+        nestedPopulate,
+        session
       )) as unknown as (Record<string, unknown> & Document)[]
     }
 
-    // Create lookup map
-    const refMap = new Map(refDocs.map((doc: Record<string, unknown>) => [doc._id, doc]))
+    // Create lookup map (keyed by string, so ObjectId and string references both match)
+    const refMap = new Map(refDocs.map((doc: Record<string, unknown>) => [String(doc._id), doc]))
 
     // Replace IDs with documents
     const populated = docs.map((doc: T) => {
@@ -579,10 +938,10 @@ export class Model<T extends object = Record<string, unknown>> {
 
       if (Array.isArray(value)) {
         // Populate array of references
-        populatedDoc[path] = value.map((id: unknown) => refMap.get(id)).filter(Boolean)
+        populatedDoc[path] = value.map((id: unknown) => refMap.get(String(id))).filter(Boolean)
       } else if (value !== undefined && value !== null) {
         // Populate single reference
-        const refDoc = refMap.get(value)
+        const refDoc = refMap.get(String(value))
         if (refDoc) {
           populatedDoc[path] = refDoc
         }
@@ -639,13 +998,34 @@ export class Model<T extends object = Record<string, unknown>> {
     return typeof (this._storage as any).queryNative === 'function'
   }
 
+  // Update pipelines, positional paths, arrayFilters and Decimal128 arithmetic are applied
+  // per document in JavaScript
+  private _canUpdateNatively(
+    query: Query<T>,
+    update: Update<T>,
+    arrayFilters?: ArrayFilters
+  ): boolean {
+    return (
+      !Array.isArray(update) &&
+      !arrayFilters &&
+      !hasPositionalPath(update as Record<string, unknown>) &&
+      !hasDecimalArithmetic(update as Record<string, unknown>) &&
+      this._canQueryNatively(query)
+    )
+  }
+
+  // Helper to check if native SQL methods can run this query (the rest is matched in JavaScript)
+  private _canQueryNatively(query: Query<T>): boolean {
+    return !this._storage.canQueryNative || this._storage.canQueryNative(query)
+  }
+
   // Helper to efficiently find documents using indexes when possible
   private async _findDocumentsUsingIndexes(
     query: Query<T>,
     options?: QueryOptions<T>
   ): Promise<T[]> {
     // NEW: Check if storage supports native queries
-    if (this._hasNativeQuery()) {
+    if (this._hasNativeQuery() && this._canQueryNatively(query)) {
       return await (this._storage as any).queryNative(query, options)
     }
 
@@ -659,6 +1039,9 @@ export class Model<T extends object = Record<string, unknown>> {
     // Create a matcher function for the storage
     const matcher = (doc: T) => this._matches(doc, query)
 
+    const geoResults = await this._findGeoDocuments(queryRecord, matcher)
+    if (geoResults) return geoResults
+
     // Check if we can use an index (all fields must be simple equality, not operators)
     const allSimpleEquality = keys.every(k => typeof queryRecord[k] !== 'object')
 
@@ -675,6 +1058,83 @@ export class Model<T extends object = Record<string, unknown>> {
     return await this._storage.findDocuments(matcher)
   }
 
+  // Geospatial queries: narrow candidates with the storage's spatial index when it has one,
+  // and order $near / $nearSphere results by distance (nearest first)
+  private async _findGeoDocuments(
+    query: Record<string, unknown>,
+    matcher: (doc: T) => boolean
+  ): Promise<T[] | null> {
+    const geoConditions: Array<[string, Record<string, unknown>]> = []
+    for (const [field, condition] of Object.entries(query)) {
+      if (isGeoCondition(condition)) geoConditions.push([field, condition])
+    }
+    if (geoConditions.length === 0) return null
+
+    let results: T[] | null = null
+    if (this._storage.findDocumentsWithin) {
+      for (const [field, condition] of geoConditions) {
+        const area = geoSearchArea(condition)
+        if (!area) continue
+        results = await this._storage.findDocumentsWithin(matcher, field, area.center, area.radius)
+        if (results) break
+      }
+    }
+    results ??= await this._storage.findDocuments(matcher)
+
+    const nearCondition = geoConditions.find(
+      ([, condition]) => '$near' in condition || '$nearSphere' in condition
+    )
+    if (nearCondition) {
+      const [field, condition] = nearCondition
+      const near = parseNear(condition)
+      const distances = new Map(
+        results.map(doc => [
+          doc,
+          geoDistance(near.center, this._getFieldValue(doc, field), near.unit)
+        ])
+      )
+      results = [...results].sort((a, b) => distances.get(a)! - distances.get(b)!)
+    }
+    return results
+  }
+
+  // Fields with a 2dsphere index (used by the $geoNear aggregation stage)
+  _getGeoIndexFields(): string[] {
+    return this._schema ? [...this._schema.getGeoIndexes()] : []
+  }
+
+  /**
+   * Documents whose `field` equals any of `values` (used by $lookup and $graphLookup)
+   * SQL storages run one $in query; the others look each value up in the field's index when
+   * the schema declares one, and scan the collection once otherwise
+   */
+  async _findByFieldValues(
+    field: string,
+    values: unknown[],
+    options: { lean?: boolean } = {}
+  ): Promise<T[]> {
+    const indexed = this._schema
+      ?.getIndexes()
+      .some(fields => fields.length === 1 && String(fields[0]) === field)
+    if (this._hasNativeQuery() || !indexed) {
+      return (await this.find({ [field]: { $in: values } } as Query<T>).lean(!!options.lean)) as T[]
+    }
+
+    await this._ensureStorageReady()
+    const found = new Set<T>()
+    for (const value of values) {
+      const query = this._prepareQuery({ [field]: value } as Query<T>)
+      const indexHint = { fields: [field as keyof T], values: query as Record<string, unknown> }
+      for (const doc of await this._storage.findDocuments(
+        d => this._matches(d, query),
+        indexHint
+      )) {
+        found.add(doc)
+      }
+    }
+    return this._toResultDocuments([...found], options)
+  }
+
   // --- Query Matching ---
   // Helper for ObjectId comparison (defined once, not per document)
   private _compareValues(a: unknown, b: unknown): boolean {
@@ -689,9 +1149,70 @@ export class Model<T extends object = Record<string, unknown>> {
       const bStr = b instanceof ObjectId ? b.toString() : String(b)
       return aStr === bStr
     }
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime()
+    }
+    if (a instanceof Decimal128 || a instanceof UUID) return a.equals(b)
+    if (b instanceof Decimal128 || b instanceof UUID) return b.equals(a)
+    if (Buffer.isBuffer(a) && Buffer.isBuffer(b)) return a.equals(b)
     return a === b
   }
 
+  // $in membership, comparing ObjectIds and dates by value
+  private _includesValue(values: unknown[], value: unknown): boolean {
+    return values.some(item => this._compareValues(value, item))
+  }
+
+  // Resolve a query key against a document, following dot notation into nested objects
+  private _getFieldValue(doc: T, key: string): any {
+    const record = doc as Record<string, unknown>
+    if (key in record || !key.includes('.')) return record[key]
+
+    let value: unknown = doc
+    for (const part of key.split('.')) {
+      if (value === null || value === undefined || typeof value !== 'object') return undefined
+      value = (value as Record<string, unknown>)[part]
+    }
+    return value
+  }
+
+  // Values of a dotted query key that runs through an array, one per element reached
+  private _arrayPathValues(doc: T, key: string): unknown[] | undefined {
+    if (!key.includes('.') || key in (doc as Record<string, unknown>)) return undefined
+    return queryPathValues(doc, key.split('.'))
+  }
+
+  // A condition on array path values holds when one of them matches it; negated operators
+  // ($ne, $nin, $not, $exists: false) hold when none matches the operator they negate
+  private _matchesPathValues(values: unknown[], condition: unknown): boolean {
+    const matchesAny = (elementCondition: unknown) =>
+      values.some(element =>
+        this._matches({ element } as unknown as T, { element: elementCondition } as Query<T>)
+      )
+    if (!isOperatorObject(condition)) return matchesAny(condition)
+
+    return Object.entries(condition).every(([op, operand]) => {
+      switch (op) {
+        case '$ne':
+          return !matchesAny({ $eq: operand })
+        case '$nin':
+          return !matchesAny({ $in: operand })
+        case '$not':
+          return !matchesAny(operand instanceof RegExp ? { $regex: operand } : operand)
+        case '$exists':
+          return matchesAny({ $exists: true }) === Boolean(operand)
+        case '$near':
+        case '$nearSphere':
+        case '$maxDistance':
+        case '$minDistance':
+          // Distance limits are read by $near / $nearSphere
+          return matchesAny(condition)
+        default:
+          return matchesAny({ [op]: operand })
+      }
+    })
+  }
+
   private _matches(doc: T, query: Query<T>): boolean {
     // Check for top-level logical operators first
     if ('$or' in query) {
@@ -713,7 +1234,28 @@ export class Model<T extends object = Record<string, unknown>> {
     }
 
     return Object.entries(query).every(([key, value]) => {
-      const field = doc[key as keyof T]
+      if (key === '$expr') {
+        this._expressionEngine ??= new AggregationEngine(this)
+        return this._expressionEngine.matchesExpression(value, doc as Record<string, unknown>)
+      }
+      if (key === '$where') {
+        if (typeof value !== 'function') {
+          throw new Error('$where requires a function predicate')
+        }
+        return !!value.call(doc, doc)
+      }
+      if (key === '$jsonSchema') {
+        // Checked against the schema types, since SQLite stores ObjectIds and dates as strings
+        const typed = { ...doc } as Record<string, unknown>
+        this._schema?.castDocument(typed, '', [])
+        return matchesJsonSchema(typed, value as JsonSchema)
+      }
+
+      // A dotted path through an array is matched against each element's value
+      const values = this._arrayPathValues(doc, key)
+      if (values) return this._matchesPathValues(values, value)
+
+      const field = this._getFieldValue(doc, key)
 
       // Fast path: simple equality for non-object values (most common case)
       if (typeof value !== 'object' || value === null) {
@@ -724,8 +1266,14 @@ export class Model<T extends object = Record<string, unknown>> {
         return this._compareValues(field, value)
       }
 
-      // Handle ObjectId equality
-      if (value instanceof ObjectId) {
+      // Handle ObjectId, date, decimal, UUID and binary equality
+      if (
+        value instanceof ObjectId ||
+        value instanceof Date ||
+        value instanceof Decimal128 ||
+        value instanceof UUID ||
+        Buffer.isBuffer(value)
+      ) {
         return this._compareValues(field, value)
       }
 
@@ -762,9 +1310,9 @@ export class Model<T extends object = Record<string, unknown>> {
               }
               if (!Array.isArray(v)) return false
               if (Array.isArray(field)) {
-                return field.some(item => v.includes(item))
+                return field.some(item => this._includesValue(v, item))
               }
-              return v.includes(field)
+              return this._includesValue(v, field)
             case '$nin':
               // MongoDB behavior: $nin: [null] excludes both null and undefined
               if (Array.isArray(v) && v.includes(null) && (field === null || field === undefined)) {
@@ -772,9 +1320,9 @@ export class Model<T extends object = Record<string, unknown>> {
               }
               if (!Array.isArray(v)) return false
               if (Array.isArray(field)) {
-                return field.every(item => !v.includes(item))
+                return field.every(item => !this._includesValue(v, item))
               }
-              return !v.includes(field)
+              return !this._includesValue(v, field)
             case '$gt':
               return (field as unknown as number | Date) > (v as unknown as number | Date)
             case '$gte':
@@ -789,6 +1337,24 @@ export class Model<T extends object = Record<string, unknown>> {
               return v === true ? field !== undefined : field === undefined
             case '$size':
               return Array.isArray(field) && field.length === v
+            case '$type':
+              return matchesType(field, v as string)
+            case '$mod':
+              return matchesMod(field, v)
+            case '$bitsAllSet':
+            case '$bitsAnySet':
+            case '$bitsAllClear':
+            case '$bitsAnyClear':
+              return matchesBits(field, op, v)
+            case '$near':
+            case '$nearSphere':
+            case '$geoWithin':
+            case '$geoIntersects':
+              return matchesGeoOperator(field, op, v, value as Record<string, unknown>)
+            case '$maxDistance':
+            case '$minDistance':
+              // Read by $near / $nearSphere
+              return true
             case '$not':
               // Handle $not operator - negates the nested operators
               if (typeof v === 'object' && v !== null && !Array.isArray(v)) {
@@ -822,6 +1388,15 @@ export class Model<T extends object = Record<string, unknown>> {
                       return new RegExp(notV as string).test(String(field))
                     case '$exists':
                       return notV === true ? field !== undefined : field === undefined
+                    case '$type':
+                      return matchesType(field, notV as string)
+                    case '$mod':
+                      return matchesMod(field, notV)
+                    case '$bitsAllSet':
+                    case '$bitsAnySet':
+                    case '$bitsAllClear':
+                    case '$bitsAnyClear':
+                      return matchesBits(field, notOp, notV)
                     default:
                       return false
                   }
@@ -890,34 +1465,11 @@ export class Model<T extends object = Record<string, unknown>> {
   // --- Query API ---
   findOne(query: Query<T>, options?: QueryOptions<T>): DocumentQueryBuilder<T> {
     const operation = async (internalOptions?: QueryOptions<T>): Promise<(T & Document) | null> => {
-      await this._ensureStorageReady()
-
       // Merge options from both sources (builder options take precedence)
       const mergedOptions = { ...options, ...internalOptions }
 
-      await this._executePreHooks('findOne', { query })
-
-      // Use storage's efficient findDocuments and get first result
-      const results = await this._findDocumentsUsingIndexes(query)
-      const doc = results.length > 0 ? results[0] : null
-
-      if (!doc) {
-        await this._executePostHooks('findOne', { query, result: null })
-        return null
-      }
-
-      // Apply virtuals unless lean mode
-      let result: T & Document = mergedOptions?.lean
-        ? (doc as T & Document)
-        : this._applyVirtuals(doc)
-
-      // Apply field selection if specified
-      if (mergedOptions?.select) {
-        result = this._applyFieldSelection(result, mergedOptions.select) as T & Document
-      }
-
-      await this._executePostHooks('findOne', { query, result })
-      return result
+      const model = await this._withSession(mergedOptions.session)
+      return model._executeFindOne(query, mergedOptions)
     }
 
     const builder = new DocumentQueryBuilder<T>(this, operation)
@@ -926,11 +1478,35 @@ export class Model<T extends object = Record<string, unknown>> {
     if (options) {
       if (options.select) builder.select(options.select)
       if (options.lean !== undefined) builder.lean(options.lean)
+      if (options.session) builder.session(options.session)
     }
 
     return builder
   }
 
+  private async _executeFindOne(
+    query: Query<T>,
+    options: QueryOptions<T>
+  ): Promise<(T & Document) | null> {
+    await this._ensureStorageReady()
+    await this._executePreHooks('findOne', { query })
+    query = this._prepareQuery(query)
+
+    // Use storage's efficient findDocuments and get first result
+    const results = await this._findDocumentsUsingIndexes(query)
+    const doc = results.length > 0 ? results[0] : null
+
+    if (!doc) {
+      await this._executePostHooks('findOne', { query, result: null })
+      return null
+    }
+
+    const result = this._toResultDocument(doc, options)
+
+    await this._executePostHooks('findOne', { query, result })
+    return result
+  }
+
   find(query: Query<T> = {}, options?: QueryOptions<T>): FindQueryBuilder<T> {
     const builder = new FindQueryBuilder<T>(this, query)
 
@@ -941,6 +1517,7 @@ export class Model<T extends object = Record<string, unknown>> {
       if (options.skip) builder.skip(options.skip)
       if (options.select) builder.select(options.select)
       if (options.lean !== undefined) builder.lean(options.lean)
+      if (options.session) builder.session(options.session)
     }
 
     return builder
@@ -950,32 +1527,80 @@ export class Model<T extends object = Record<string, unknown>> {
     query: Query<T>,
     options: QueryOptions<T> = {}
   ): Promise<Array<T & Document>> {
+    const model = await this._withSession(options.session)
+    if (model !== this) return model._executeFindWithOptions(query, options)
+
     await this._ensureStorageReady()
     await this._executePreHooks('find', { query })
+    query = this._prepareQuery(query)
 
     // Add discriminator filter if this is a discriminator model
     if (this._discriminatorKey && this._discriminatorValue) {
       query = { ...query, [this._discriminatorKey]: this._discriminatorValue } as Query<T>
     }
 
-    // NEW: If storage has native query support, use it with options directly
-    if (this._hasNativeQuery()) {
-      const results = await this._findDocumentsUsingIndexes(query, options)
-
-      // Apply virtuals unless lean mode
-      let finalResults: Array<T & Document> = options.lean
-        ? results.map(r => r as T & Document)
-        : results.map(doc => this._applyVirtuals(doc))
-
-      // Apply field selection if specified
-      if (options.select) {
-        finalResults = finalResults.map(
-          doc => this._applyFieldSelection(doc, options.select) as T & Document
-        )
+    const results = await this._findSortedDocuments(query, options)
+    const finalResults = this._toResultDocuments(results, options)
+
+    await this._executePostHooks('find', { query, results: finalResults })
+    return finalResults
+  }
+
+  /**
+   * Stream find results in batches (used by FindQueryBuilder.cursor())
+   * Native storage steps through its rows as they are read; other storages
+   * slice the matched documents so virtuals and selection are applied lazily.
+   * The post 'find' hooks run once per batch, with that batch as `results`.
+   */
+  async *_executeFindBatches(
+    query: Query<T>,
+    options: QueryOptions<T> & { batchSize?: number } = {}
+  ): AsyncGenerator<Array<T & Document>> {
+    const model = await this._withSession(options.session)
+    if (model !== this) {
+      yield* model._executeFindBatches(query, options)
+      return
+    }
+
+    await this._ensureStorageReady()
+    await this._executePreHooks('find', { query })
+    query = this._prepareQuery(query)
+
+    // Add discriminator filter if this is a discriminator model
+    if (this._discriminatorKey && this._discriminatorValue) {
+      query = { ...query, [this._discriminatorKey]: this._discriminatorValue } as Query<T>
+    }
+
+    const batchSize = Math.max(1, options.batchSize ?? 1000)
+
+    if (this._storage.iterateNative && this._canQueryNatively(query)) {
+      for await (const batch of this._storage.iterateNative(query, options, batchSize)) {
+        yield await this._finishFindBatch(query, batch, options)
       }
+      return
+    }
 
-      await this._executePostHooks('find', { query, results: finalResults })
-      return finalResults
+    const results = await this._findSortedDocuments(query, options)
+    for (let i = 0; i < results.length; i += batchSize) {
+      yield await this._finishFindBatch(query, results.slice(i, i + batchSize), options)
+    }
+  }
+
+  private async _finishFindBatch(
+    query: Query<T>,
+    batch: T[],
+    options: QueryOptions<T>
+  ): Promise<Array<T & Document>> {
+    const results = this._toResultDocuments(batch, options)
+    await this._executePostHooks('find', { query, results })
+    return results
+  }
+
+  // Find matching documents with sort, skip and limit applied
+  private async _findSortedDocuments(query: Query<T>, options: QueryOptions<T>): Promise<T[]> {
+    // NEW: If storage has native query support, use it with options directly
+    if (this._hasNativeQuery() && this._canQueryNatively(query)) {
+      return await this._findDocumentsUsingIndexes(query, options)
     }
 
     // EXISTING: JavaScript-based query execution
@@ -1016,28 +1641,71 @@ export class Model<T extends object = Record<string, unknown>> {
       results = results.slice(0, options.limit)
     }
 
-    // Apply virtuals unless lean mode
-    let finalResults: Array<T & Document> = options.lean
-      ? results.map(r => r as T & Document)
-      : results.map(doc => this._applyVirtuals(doc))
+    return results
+  }
 
-    // Apply field selection if specified
+  // Apply virtuals (unless lean) and field selection to raw find results
+  private _toResultDocuments(results: T[], options: QueryOptions<T>): Array<T & Document> {
+    return results.map(doc => this._toResultDocument(doc, options))
+  }
+
+  // The same for a single document
+  private _toResultDocument(
+    doc: T,
+    options: { lean?: boolean; select?: Partial<Record<keyof T, 0 | 1>> } = {}
+  ): T & Document {
+    const visible = this._withoutUnselectedFields(doc, options.select)
+    let result: T & Document = options.lean
+      ? (visible as T & Document)
+      : this._applyVirtuals(visible)
     if (options.select) {
-      finalResults = finalResults.map(
-        doc => this._applyFieldSelection(doc, options.select) as T & Document
-      )
+      result = this._applyFieldSelection(result, options.select) as T & Document
     }
+    return result
+  }
 
-    await this._executePostHooks('find', { query, results: finalResults })
-    return finalResults
+  // Leave out the fields declared with `select: false`, unless the selection asks for them
+  // (`{ password: 1 }` or `'+password'`)
+  private _withoutUnselectedFields(doc: T, select?: Partial<Record<keyof T, 0 | 1>>): T {
+    const selection = (select ?? {}) as Record<string, unknown>
+    let visible: Record<string, unknown> | null = null
+    for (const field of this._schema?.getUnselectedFields() ?? []) {
+      if (!(field in doc) || selection[field] === 1 || selection[`+${field}`]) continue
+      visible ??= { ...doc } as Record<string, unknown>
+      delete visible[field]
+    }
+    return (visible ?? doc) as T
+  }
+
+  /**
+   * Cast and validate a plain object without saving it (like mongoose's Model.validate())
+   * @param obj Object to validate
+   * @param paths Only validate these paths (and the paths inside them)
+   * @returns The cast object; rejects with a ValidationError listing every failing path
+   */
+  async validate(obj: DeepPartial<T>, paths?: string[]): Promise<Partial<T>> {
+    if (!this._schema) return obj as Partial<T>
+
+    const doc = this._schema.translateAliases(cloneDocument(obj) as Record<string, unknown>)
+    this._schema.applySetters(doc)
+    const castErrors: CastError[] = []
+    this._schema.castDocument(doc, '', castErrors)
+    await this._schema.validate(doc as Partial<T>, paths, castErrors)
+    return doc as Partial<T>
   }
 
-  async create(doc: DeepPartial<T>): Promise<T & Document> {
+  async create(doc: DeepPartial<T>, options?: SessionOptions): Promise<T & Document> {
+    const model = await this._withSession(options?.session)
+    if (model !== this) return model.create(doc)
+
     await this._ensureStorageReady()
 
     // Apply setters first (before defaults, validation, etc.)
     if (this._schema) {
+      doc = this._schema.translateAliases(doc as Record<string, unknown>) as DeepPartial<T>
+      this._schema.applyStrict(doc as Record<string, unknown>)
       this._schema.applySetters(doc)
+      this._schema.castDocument(doc as Record<string, unknown>)
     }
 
     // Add discriminator key if this is a discriminator model
@@ -1049,24 +1717,38 @@ export class Model<T extends object = Record<string, unknown>> {
     this._ensureId(doc as T)
     this._applyDefaults(doc as T)
     this._applyTimestamps(doc as T, 'create')
+    this._applyVersionKey(doc as T)
     await this._validateDocument(doc as T)
     this._checkUniqueConstraints(doc as T)
-    await this._executePreHooks('save', { doc: doc as T })
+    await this._executeInsertPreHooks(doc as T)
 
     const fullDoc = doc as T
     await this._storage.add(fullDoc)
+    this._emitInsert(fullDoc)
 
     await this._executePostHooks('save', { doc: fullDoc })
     return this._applyVirtuals(fullDoc)
   }
 
-  async insertMany(docs: DeepPartial<T>[]): Promise<Array<T & Document>> {
+  async insertMany(docs: DeepPartial<T>[], options?: SessionOptions): Promise<Array<T & Document>> {
+    const model = await this._withSession(options?.session)
+    if (model !== this) return model.insertMany(docs)
+
     await this._ensureStorageReady()
 
+    if (this._schema) {
+      const schema = this._schema
+      docs = docs.map(
+        doc => schema.translateAliases(doc as Record<string, unknown>) as DeepPartial<T>
+      )
+    }
+
     // Apply setters, defaults, timestamps, validate and check unique constraints (atomic - fail fast)
     for (const doc of docs) {
       if (this._schema) {
+        this._schema.applyStrict(doc as Record<string, unknown>)
         this._schema.applySetters(doc)
+        this._schema.castDocument(doc as Record<string, unknown>)
       }
 
       // Add discriminator key if this is a discriminator model
@@ -1078,6 +1760,7 @@ export class Model<T extends object = Record<string, unknown>> {
       this._ensureId(doc as T)
       this._applyDefaults(doc as T)
       this._applyTimestamps(doc as T, 'create')
+      this._applyVersionKey(doc as T)
       await this._validateDocument(doc as T)
     }
 
@@ -1108,9 +1791,12 @@ export class Model<T extends object = Record<string, unknown>> {
 
     // If all validations pass, proceed with insertion
     for (const doc of fullDocs) {
-      await this._executePreHooks('save', { doc })
+      await this._executeInsertPreHooks(doc)
     }
     await this._storage.addMany(fullDocs)
+    for (const doc of fullDocs) {
+      this._emitInsert(doc)
+    }
     for (const doc of fullDocs) {
       await this._executePostHooks('save', { doc })
     }
@@ -1118,9 +1804,10 @@ export class Model<T extends object = Record<string, unknown>> {
   }
 
   // --- Delete Operations ---
-  deleteOne(query: Query<T>): QueryBuilder<{ deletedCount: number }> {
+  deleteOne(query: Query<T>, options?: SessionOptions): QueryBuilder<{ deletedCount: number }> {
     const operation = async () => {
-      return this._executeDeleteOne(query)
+      const model = await this._withSession(options?.session)
+      return model._executeDeleteOne(query)
     }
     return new QueryBuilder(operation)
   }
@@ -1128,9 +1815,15 @@ export class Model<T extends object = Record<string, unknown>> {
   private async _executeDeleteOne(query: Query<T>): Promise<{ deletedCount: number }> {
     await this._ensureStorageReady()
     await this._executePreHooks('delete', { query })
+    query = this._prepareQuery(query)
 
     // NEW: Use native delete if available
-    if (typeof (this._storage as any).deleteNative === 'function') {
+    // (native deletes don't report which documents they removed, so watchers need the JS path)
+    if (
+      typeof (this._storage as any).deleteNative === 'function' &&
+      !this._hasChangeStreams() &&
+      this._canQueryNatively(query)
+    ) {
       try {
         // For single delete, add LIMIT 1 to query (SQLite will handle this via UPDATE/DELETE)
         const result = await (this._storage as any).deleteNative(query)
@@ -1156,13 +1849,15 @@ export class Model<T extends object = Record<string, unknown>> {
     await this._storage.remove(docToDelete)
     // Efficiently update indexes for deleted document
     this._updateIndexForDocument(docToDelete, null)
+    this._emitDelete(docToDelete)
     await this._executePostHooks('delete', { query, deletedCount: 1, doc: docToDelete })
     return { deletedCount: 1 }
   }
 
-  deleteMany(query: Query<T>): QueryBuilder<{ deletedCount: number }> {
+  deleteMany(query: Query<T>, options?: SessionOptions): QueryBuilder<{ deletedCount: number }> {
     const operation = async () => {
-      return this._executeDeleteMany(query)
+      const model = await this._withSession(options?.session)
+      return model._executeDeleteMany(query)
     }
     return new QueryBuilder(operation)
   }
@@ -1170,9 +1865,14 @@ export class Model<T extends object = Record<string, unknown>> {
   private async _executeDeleteMany(query: Query<T>): Promise<{ deletedCount: number }> {
     await this._ensureStorageReady()
     await this._executePreHooks('delete', { query })
+    query = this._prepareQuery(query)
 
     // NEW: Use native delete if available
-    if (typeof (this._storage as any).deleteNative === 'function') {
+    if (
+      typeof (this._storage as any).deleteNative === 'function' &&
+      !this._hasChangeStreams() &&
+      this._canQueryNatively(query)
+    ) {
       try {
         const result = await (this._storage as any).deleteNative(query)
         await this._executePostHooks('delete', { query, deletedCount: result.deletedCount })
@@ -1193,6 +1893,9 @@ export class Model<T extends object = Record<string, unknown>> {
     await this._storage.removeMany(docsToDelete)
 
     await this._rebuildIndexes()
+    for (const doc of docsToDelete) {
+      this._emitDelete(doc)
+    }
     await this._executePostHooks('delete', {
       query,
       deletedCount: docsToDelete.length,
@@ -1212,7 +1915,144 @@ export class Model<T extends object = Record<string, unknown>> {
   }
 
   // --- Update Operations ---
-  private _applyUpdate(doc: T, update: Update<T>): boolean {
+  // Compare for $min / $max; validation copies hold dates as JSON strings
+  private _compareUpdateValues(a: unknown, b: unknown): number {
+    const normalize = (value: unknown, other: unknown) =>
+      value instanceof Date
+        ? value.getTime()
+        : other instanceof Date && typeof value === 'string'
+          ? new Date(value).getTime()
+          : value
+    const left = normalize(a, b) as number | string
+    const right = normalize(b, a) as number | string
+    return left < right ? -1 : left > right ? 1 : 0
+  }
+
+  // Array element equality for $pullAll and $addToSet: like query equality, but embedded
+  // documents compare by value
+  private _sameArrayValue(item: unknown, value: unknown): boolean {
+    if (this._compareValues(item, value)) return true
+    return (
+      typeof item === 'object' &&
+      item !== null &&
+      !(item instanceof ObjectId) &&
+      JSON.stringify(item) === JSON.stringify(value)
+    )
+  }
+
+  // Array after a $push: one value, or $each values placed at $position, then $sort and $slice
+  private _pushValues(arr: unknown[], value: unknown): unknown[] {
+    if (!isEachModifier(value)) return [...arr, value]
+    const modifiers = value as PushModifiers
+
+    let position = modifiers.$position ?? arr.length
+    if (position < 0) position = Math.max(arr.length + position, 0)
+    const result = [...arr.slice(0, position), ...modifiers.$each, ...arr.slice(position)]
+
+    const sort = modifiers.$sort
+    if (sort !== undefined) {
+      const keys: Array<[string[], number]> =
+        typeof sort === 'number'
+          ? [[[], sort]]
+          : Object.entries(sort).map(([k, d]) => [k.split('.'), d])
+      result.sort((a, b) => {
+        for (const [key, direction] of keys) {
+          const left = key.length ? getPath(Object(a), key) : a
+          const right = key.length ? getPath(Object(b), key) : b
+          const order = this._compareUpdateValues(left, right)
+          if (order !== 0) return order * direction
+        }
+        return 0
+      })
+    }
+
+    const slice = modifiers.$slice
+    if (slice === undefined) return result
+    return slice < 0 ? result.slice(Math.max(result.length + slice, 0)) : result.slice(0, slice)
+  }
+
+  // Index of the first element of an array that the query's conditions on it match (for `$`)
+  private _positionalIndex(
+    doc: T,
+    query: Query<T> | undefined,
+    arrayPath: string
+  ): number | undefined {
+    const array = this._getFieldValue(doc, arrayPath)
+    if (!query || !Array.isArray(array)) return undefined
+
+    const condition: Record<string, unknown> = {}
+    const collect = (q: Record<string, unknown>) => {
+      for (const [key, value] of Object.entries(q)) {
+        if (key === '$and' && Array.isArray(value)) {
+          value.forEach(collect)
+        } else if (key === arrayPath) {
+          const elemMatch = (value as { $elemMatch?: Record<string, unknown> } | null)?.$elemMatch
+          if (elemMatch && !Object.keys(elemMatch).every(k => k.startsWith('$'))) {
+            Object.assign(condition, elemMatch)
+          } else {
+            condition[''] = elemMatch ?? value
+          }
+        } else if (key.startsWith(`${arrayPath}.`)) {
+          condition[key.slice(arrayPath.length + 1)] = value
+        }
+      }
+    }
+    collect(query as Record<string, unknown>)
+    if (Object.keys(condition).length === 0) return undefined
+
+    const index = array.findIndex(element => this._matchesArrayElement(element, condition))
+    return index === -1 ? undefined : index
+  }
+
+  // Match an array element against conditions on its fields ('' is the element itself)
+  private _matchesArrayElement(element: unknown, condition: Record<string, unknown>): boolean {
+    return Object.entries(condition).every(([field, value]) => {
+      if (field === '') {
+        return this._matches({ element } as unknown as T, { element: value } as Query<T>)
+      }
+      return (
+        element !== null &&
+        typeof element === 'object' &&
+        this._matches(element as T, { [field]: value } as Query<T>)
+      )
+    })
+  }
+
+  // Concrete paths addressed by an update key, resolving positional operators for this document
+  private _resolveUpdatePaths(doc: T, key: string, options: ApplyUpdateOptions<T>): string[][] {
+    if (!key.includes('$')) return [key.split('.')]
+
+    const filters = options.arrayFilters
+    return expandUpdatePath(doc, key, {
+      firstMatch: arrayPath => this._positionalIndex(doc, options.query, arrayPath),
+      matchesFilter: (identifier, element) => {
+        const condition = filters?.get(identifier)
+        if (!condition) throw new Error(`No array filter found for identifier '${identifier}'`)
+        return this._matchesArrayElement(element, condition)
+      }
+    })
+  }
+
+  // Replace the document's fields with the pipeline's result (cast to the schema), keeping its _id
+  private _applyUpdatePipeline(doc: T, pipeline: UpdatePipelineStage<T>[]): boolean {
+    this._expressionEngine ??= new AggregationEngine(this)
+    const record = doc as Record<string, unknown>
+    const before = JSON.stringify(record)
+    const result = this._expressionEngine.applyUpdatePipeline({ ...record }, pipeline)
+    this._schema?.castDocument(result)
+
+    for (const key of Object.keys(record)) {
+      if (key !== '_id' && !(key in result)) delete record[key]
+    }
+    for (const [key, value] of Object.entries(result)) {
+      if (key !== '_id') record[key] = value
+    }
+    return JSON.stringify(record) !== before
+  }
+
+  private _applyUpdate(doc: T, update: Update<T>, options: ApplyUpdateOptions<T> = {}): boolean {
+    if (Array.isArray(update)) return this._applyUpdatePipeline(doc, update)
+
     let modified = false
 
     // Check if update contains operators
@@ -1220,51 +2060,107 @@ export class Model<T extends object = Record<string, unknown>> {
 
     if (hasOperators) {
       const updateOp = update as UpdateOperator<T>
+      // Every [path segments, operand] pair an operator addresses in this document
+      const targets = (fields: object) =>
+        Object.entries(fields).flatMap(([key, value]) =>
+          this._resolveUpdatePaths(doc, key, options).map(path => [path, value] as const)
+        )
 
       // $set
       if (updateOp.$set) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, value] of Object.entries(updateOp.$set)) {
-          docAsRecord[key] = value
+        for (const [path, value] of targets(updateOp.$set)) {
+          setPath(doc, path, value)
           modified = true
         }
       }
 
       // $unset
       if (updateOp.$unset) {
-        for (const key of Object.keys(updateOp.$unset)) {
-          delete doc[key as keyof T]
+        for (const [path] of targets(updateOp.$unset)) {
+          unsetPath(doc, path)
           modified = true
         }
       }
 
-      // $inc
+      // $inc (a missing field counts as 0)
       if (updateOp.$inc) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, value] of Object.entries(updateOp.$inc)) {
-          const currentVal = docAsRecord[key]
-          docAsRecord[key] = Number(currentVal) + Number(value)
+        for (const [path, value] of targets(updateOp.$inc)) {
+          setPath(doc, path, updateArithmetic(getPath(doc, path) ?? 0, value, 'add'))
           modified = true
         }
       }
 
       // $dec
       if (updateOp.$dec) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, value] of Object.entries(updateOp.$dec)) {
-          const currentVal = docAsRecord[key]
-          docAsRecord[key] = Number(currentVal) - Number(value)
+        for (const [path, value] of targets(updateOp.$dec)) {
+          setPath(doc, path, updateArithmetic(getPath(doc, path) ?? 0, value, 'subtract'))
+          modified = true
+        }
+      }
+
+      // $mul (a missing field becomes 0)
+      if (updateOp.$mul) {
+        for (const [path, value] of targets(updateOp.$mul)) {
+          setPath(doc, path, updateArithmetic(getPath(doc, path) ?? 0, value, 'multiply'))
+          modified = true
+        }
+      }
+
+      // $min / $max (set when the field is missing or the value is lower / higher)
+      for (const [operator, direction] of [
+        ['$min', -1],
+        ['$max', 1]
+      ] as const) {
+        const values = updateOp[operator]
+        if (!values) continue
+        for (const [path, value] of targets(values)) {
+          const current = getPath(doc, path)
+          if (current === undefined || this._compareUpdateValues(value, current) === direction) {
+            setPath(doc, path, value)
+            modified = true
+          }
+        }
+      }
+
+      // $bit
+      if (updateOp.$bit) {
+        for (const [path, operations] of targets(updateOp.$bit)) {
+          let result = BigInt(Number(getPath(doc, path) ?? 0))
+          for (const [operation, operand] of Object.entries(operations as BitwiseUpdate)) {
+            const mask = BigInt(operand as number)
+            if (operation === 'and') result &= mask
+            else if (operation === 'or') result |= mask
+            else if (operation === 'xor') result ^= mask
+            else throw new Error(`Unknown $bit operation: ${operation}`)
+          }
+          setPath(doc, path, Number(result))
+          modified = true
+        }
+      }
+
+      // $currentDate
+      if (updateOp.$currentDate) {
+        for (const [path, spec] of targets(updateOp.$currentDate)) {
+          const isTimestamp = (spec as { $type?: string }).$type === 'timestamp'
+          setPath(doc, path, isTimestamp ? Date.now() : new Date())
           modified = true
         }
       }
 
-      // $push
+      // $setOnInsert (only when an upsert creates the document)
+      if (updateOp.$setOnInsert && options.isInsert) {
+        for (const [path, value] of targets(updateOp.$setOnInsert)) {
+          setPath(doc, path, value)
+          modified = true
+        }
+      }
+
+      // $push (creates the array when the field is missing)
       if (updateOp.$push) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, value] of Object.entries(updateOp.$push)) {
-          const arr = docAsRecord[key]
+        for (const [path, value] of targets(updateOp.$push)) {
+          const arr = getPath(doc, path) ?? []
           if (Array.isArray(arr)) {
-            arr.push(value)
+            setPath(doc, path, this._pushValues(arr, value))
             modified = true
           }
         }
@@ -1272,9 +2168,8 @@ export class Model<T extends object = Record<string, unknown>> {
 
       // $pull
       if (updateOp.$pull) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, value] of Object.entries(updateOp.$pull)) {
-          const arr = docAsRecord[key]
+        for (const [path, value] of targets(updateOp.$pull)) {
+          const arr = getPath(doc, path)
           if (Array.isArray(arr)) {
             const index = arr.indexOf(value)
             if (index > -1) {
@@ -1285,25 +2180,41 @@ export class Model<T extends object = Record<string, unknown>> {
         }
       }
 
-      // $addToSet
+      // $pullAll
+      if (updateOp.$pullAll) {
+        for (const [path, values] of targets(updateOp.$pullAll)) {
+          const arr = getPath(doc, path)
+          if (!Array.isArray(arr) || !Array.isArray(values)) continue
+          const kept = arr.filter(item => !values.some(value => this._sameArrayValue(item, value)))
+          if (kept.length !== arr.length) {
+            arr.splice(0, arr.length, ...kept)
+            modified = true
+          }
+        }
+      }
+
+      // $addToSet (creates the array when the field is missing)
       if (updateOp.$addToSet) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, value] of Object.entries(updateOp.$addToSet)) {
-          const arr = docAsRecord[key]
-          if (Array.isArray(arr)) {
-            if (!arr.includes(value)) {
-              arr.push(value)
-              modified = true
-            }
+        for (const [path, value] of targets(updateOp.$addToSet)) {
+          const arr = getPath(doc, path) ?? []
+          if (!Array.isArray(arr)) continue
+          const values = isEachModifier(value) ? value.$each : [value]
+          const added = values.filter(
+            (item, i) =>
+              !arr.some(existing => this._sameArrayValue(existing, item)) &&
+              !values.slice(0, i).some(earlier => this._sameArrayValue(earlier, item))
+          )
+          if (added.length > 0 || getPath(doc, path) === undefined) {
+            setPath(doc, path, [...arr, ...added])
+            modified = true
           }
         }
       }
 
       // $pop
       if (updateOp.$pop) {
-        const docAsRecord = doc as unknown as Record<string, unknown>
-        for (const [key, direction] of Object.entries(updateOp.$pop)) {
-          const arr = docAsRecord[key]
+        for (const [path, direction] of targets(updateOp.$pop)) {
+          const arr = getPath(doc, path)
           if (Array.isArray(arr) && arr.length > 0) {
             if (direction === 1) {
               arr.pop()
@@ -1318,9 +2229,11 @@ export class Model<T extends object = Record<string, unknown>> {
       // $rename
       if (updateOp.$rename) {
         for (const [oldKey, newKey] of Object.entries(updateOp.$rename)) {
-          if (oldKey in doc) {
-            doc[newKey as keyof T] = doc[oldKey as keyof T]
-            delete doc[oldKey as keyof T]
+          const oldPath = oldKey.split('.')
+          if (hasPath(doc, oldPath)) {
+            const value = getPath(doc, oldPath)
+            unsetPath(doc, oldPath)
+            setPath(doc, String(newKey).split('.'), value)
             modified = true
           }
         }
@@ -1340,10 +2253,11 @@ export class Model<T extends object = Record<string, unknown>> {
   updateOne(
     query: Query<T>,
     update: Update<T>,
-    options?: { upsert?: boolean }
-  ): QueryBuilder<{ modifiedCount: number; upsertedCount?: number }> {
+    options?: { upsert?: boolean; arrayFilters?: ArrayFilters } & SessionOptions
+  ): QueryBuilder<UpdateResult> {
     const operation = async () => {
-      return this._executeUpdateOne(query, update, options)
+      const model = await this._withSession(options?.session)
+      return model._executeUpdateOne(query, update, options)
     }
     return new QueryBuilder(operation)
   }
@@ -1351,27 +2265,26 @@ export class Model<T extends object = Record<string, unknown>> {
   private async _executeUpdateOne(
     query: Query<T>,
     update: Update<T>,
-    options?: { upsert?: boolean }
-  ): Promise<{ modifiedCount: number; upsertedCount?: number }> {
+    options?: { upsert?: boolean; arrayFilters?: ArrayFilters }
+  ): Promise<UpdateResult> {
     await this._ensureStorageReady()
     await this._executePreHooks('update', { query, update })
+    query = this._prepareQuery(query)
+    update = this._withVersionIncrement(this._prepareUpdate(update))
+    const applyOptions = { query, arrayFilters: parseArrayFilters(options?.arrayFilters) }
 
     // NEW: Use native update if available
-    if (typeof (this._storage as any).updateNative === 'function') {
+    if (
+      typeof (this._storage as any).updateNative === 'function' &&
+      !this._hasChangeStreams() &&
+      this._canUpdateNatively(query, update, options?.arrayFilters)
+    ) {
       try {
         const result = await (this._storage as any).updateNative(query, update)
 
         // Handle upsert if no docs were modified
         if (result.modifiedCount === 0 && options?.upsert) {
-          const newDoc = this._buildUpsertDocument(query, update)
-          await this.create(newDoc as DeepPartial<T>)
-          await this._executePostHooks('update', {
-            query,
-            update,
-            modifiedCount: 1,
-            upsertedCount: 1
-          })
-          return { modifiedCount: 1, upsertedCount: 1 }
+          return await this._executeUpsert(query, update)
         }
 
         await this._executePostHooks('update', {
@@ -1379,7 +2292,7 @@ export class Model<T extends object = Record<string, unknown>> {
           update,
           modifiedCount: result.modifiedCount
         })
-        return result
+        return { matchedCount: result.modifiedCount, modifiedCount: result.modifiedCount }
       } catch (error) {
         // If SQL update fails, fall back to JS (safety net)
         console.warn('Native update failed, falling back to JavaScript:', error)
@@ -1394,28 +2307,19 @@ export class Model<T extends object = Record<string, unknown>> {
     if (!docToUpdate) {
       // Handle upsert: create document if it doesn't exist
       if (options?.upsert) {
-        const newDoc = this._buildUpsertDocument(query, update)
-        await this.create(newDoc as DeepPartial<T>)
-
-        await this._executePostHooks('update', {
-          query,
-          update,
-          modifiedCount: 1,
-          upsertedCount: 1
-        })
-        return { modifiedCount: 1, upsertedCount: 1 }
+        return await this._executeUpsert(query, update)
       }
 
       await this._executePostHooks('update', { query, update, modifiedCount: 0 })
-      return { modifiedCount: 0 }
+      return { matchedCount: 0, modifiedCount: 0 }
     }
 
     // Save old state for index update
     const oldState = { ...docToUpdate }
 
     // Create a deep copy to validate before modifying the original
-    const docCopy = JSON.parse(JSON.stringify(docToUpdate)) as T
-    const modified = this._applyUpdate(docCopy, update)
+    const docCopy = cloneDocument(docToUpdate)
+    const modified = this._applyUpdate(docCopy, update, applyOptions)
 
     if (modified) {
       // Apply timestamps to the copy for validation
@@ -1425,8 +2329,10 @@ export class Model<T extends object = Record<string, unknown>> {
       // Check unique constraints (exclude the document being updated)
       this._checkUniqueConstraints(docCopy, docToUpdate)
 
+      const before = this._hasChangeStreams() ? cloneDocument(docToUpdate) : null
+
       // If validation passes, apply the same update to the original
-      this._applyUpdate(docToUpdate, update)
+      this._applyUpdate(docToUpdate, update, applyOptions)
       this._applyTimestamps(docToUpdate, 'update')
 
       // Persist changes to storage
@@ -1434,22 +2340,42 @@ export class Model<T extends object = Record<string, unknown>> {
 
       // Efficiently update indexes for this single document
       this._updateIndexForDocument(oldState, docToUpdate)
+      if (before) this._emitUpdate(before, docToUpdate)
 
       await this._executePostHooks('update', { query, update, modifiedCount: 1, doc: docToUpdate })
-      return { modifiedCount: 1 }
+      return { matchedCount: 1, modifiedCount: 1 }
     }
 
     await this._executePostHooks('update', { query, update, modifiedCount: 0 })
-    return { modifiedCount: 0 }
+    return { matchedCount: 1, modifiedCount: 0 }
   }
 
-  updateMany(query: Query<T>, update: Update<T>): QueryBuilder<{ modifiedCount: number }> {
+  updateMany(
+    query: Query<T>,
+    update: Update<T>,
+    options?: { upsert?: boolean; arrayFilters?: ArrayFilters } & SessionOptions
+  ): QueryBuilder<UpdateResult> {
     const operation = async () => {
-      return this._executeUpdateMany(query, update)
+      const model = await this._withSession(options?.session)
+      return model._executeUpdateMany(query, update, options)
     }
     return new QueryBuilder(operation)
   }
 
+  // Create the document for an upsert that matched nothing (pre-update hooks already ran)
+  private async _executeUpsert(query: Query<T>, update: Update<T>): Promise<UpdateResult> {
+    const newDoc = this._buildUpsertDocument(query, update)
+    const created = await this.create(newDoc as DeepPartial<T>)
+
+    await this._executePostHooks('update', {
+      query,
+      update,
+      modifiedCount: 1,
+      upsertedCount: 1
+    })
+    return { matchedCount: 0, modifiedCount: 1, upsertedCount: 1, upsertedId: created._id }
+  }
+
   // Helper to build document for upsert
   private _buildUpsertDocument(query: Query<T>, update: Update<T>): Record<string, unknown> {
     const newDoc = {} as Record<string, unknown>
@@ -1462,28 +2388,39 @@ export class Model<T extends object = Record<string, unknown>> {
     }
 
     // Apply the update
-    this._applyUpdate(newDoc as T, update)
+    this._applyUpdate(newDoc as T, update, { isInsert: true })
 
     return newDoc
   }
 
   private async _executeUpdateMany(
     query: Query<T>,
-    update: Update<T>
-  ): Promise<{ modifiedCount: number }> {
+    update: Update<T>,
+    options?: { upsert?: boolean; arrayFilters?: ArrayFilters }
+  ): Promise<UpdateResult> {
     await this._ensureStorageReady()
     await this._executePreHooks('update', { query, update })
+    query = this._prepareQuery(query)
+    update = this._withVersionIncrement(this._prepareUpdate(update))
+    const applyOptions = { query, arrayFilters: parseArrayFilters(options?.arrayFilters) }
 
     // NEW: Use native update if available
-    if (typeof (this._storage as any).updateNative === 'function') {
+    if (
+      typeof (this._storage as any).updateNative === 'function' &&
+      !this._hasChangeStreams() &&
+      this._canUpdateNatively(query, update, options?.arrayFilters)
+    ) {
       try {
         const result = await (this._storage as any).updateNative(query, update)
+        if (result.modifiedCount === 0 && options?.upsert) {
+          return await this._executeUpsert(query, update)
+        }
         await this._executePostHooks('update', {
           query,
           update,
           modifiedCount: result.modifiedCount
         })
-        return result
+        return { matchedCount: result.modifiedCount, modifiedCount: result.modifiedCount }
       } catch (error) {
         console.warn('Native updateMany failed, falling back to JavaScript:', error)
       }
@@ -1493,15 +2430,18 @@ export class Model<T extends object = Record<string, unknown>> {
     // Use indexes for efficient lookup
     const docsToUpdate = await this._findDocumentsUsingIndexes(query)
     if (docsToUpdate.length === 0) {
+      if (options?.upsert) {
+        return await this._executeUpsert(query, update)
+      }
       await this._executePostHooks('update', { query, update, modifiedCount: 0 })
-      return { modifiedCount: 0 }
+      return { matchedCount: 0, modifiedCount: 0 }
     }
 
     // Validate all updates first (atomic - fail fast)
     for (let i = 0; i < docsToUpdate.length; i++) {
       const doc = docsToUpdate[i]
-      const docCopy = JSON.parse(JSON.stringify(doc)) as T
-      if (this._applyUpdate(docCopy, update)) {
+      const docCopy = cloneDocument(doc)
+      if (this._applyUpdate(docCopy, update, applyOptions)) {
         this._applyTimestamps(docCopy, 'update')
         await this._validateDocument(docCopy)
         this._checkUniqueConstraints(docCopy, doc)
@@ -1510,27 +2450,243 @@ export class Model<T extends object = Record<string, unknown>> {
 
     // If all validations pass, apply updates to originals
     let modifiedCount = 0
+    const changes: Array<{ before: T; after: T }> = []
+    const watching = this._hasChangeStreams()
     for (const doc of docsToUpdate) {
-      if (this._applyUpdate(doc, update)) {
+      const before = watching ? cloneDocument(doc) : null
+      if (this._applyUpdate(doc, update, applyOptions)) {
         this._applyTimestamps(doc, 'update')
         // Persist changes to storage
         await this._storage.update(doc, doc)
         modifiedCount++
+        if (before) changes.push({ before, after: doc })
       }
     }
 
     if (modifiedCount > 0) {
       await this._rebuildIndexes()
     }
+    for (const { before, after } of changes) {
+      this._emitUpdate(before, after)
+    }
 
     await this._executePostHooks('update', { query, update, modifiedCount, docs: docsToUpdate })
-    return { modifiedCount }
+    return { matchedCount: docsToUpdate.length, modifiedCount }
+  }
+
+  replaceOne(
+    query: Query<T>,
+    replacement: DeepPartial<T>,
+    options?: { upsert?: boolean } & SessionOptions
+  ): QueryBuilder<UpdateResult> {
+    const operation = async () => {
+      const model = await this._withSession(options?.session)
+      return model._executeReplaceOne(query, replacement, options)
+    }
+    return new QueryBuilder(operation)
+  }
+
+  // Replace the first matching document, keeping its _id
+  private async _executeReplaceOne(
+    query: Query<T>,
+    replacement: DeepPartial<T>,
+    options?: { upsert?: boolean }
+  ): Promise<UpdateResult> {
+    this._checkReplacement(replacement)
+    await this._ensureStorageReady()
+    await this._executePreHooks('update', { query, update: replacement })
+    query = this._prepareQuery(query)
+
+    const candidates = await this._findDocumentsUsingIndexes(query)
+    const docToReplace = candidates[0]
+
+    if (!docToReplace) {
+      if (options?.upsert) {
+        return await this._executeUpsert(query, replacement as Update<T>)
+      }
+      await this._executePostHooks('update', { query, update: replacement, modifiedCount: 0 })
+      return { matchedCount: 0, modifiedCount: 0 }
+    }
+
+    await this._replaceDocument(docToReplace, replacement)
+
+    await this._executePostHooks('update', {
+      query,
+      update: replacement,
+      modifiedCount: 1,
+      doc: docToReplace
+    })
+    return { matchedCount: 1, modifiedCount: 1 }
+  }
+
+  private _checkReplacement(replacement: DeepPartial<T>): void {
+    if (Object.keys(replacement).some(key => key.startsWith('$'))) {
+      throw new Error('Replacement document must not contain update operators')
+    }
+  }
+
+  // Swap a stored document's contents for the replacement (with setters, defaults and timestamps)
+  private async _replaceDocument(docToReplace: T, replacement: DeepPartial<T>): Promise<void> {
+    const current = docToReplace as Record<string, unknown>
+    const next = cloneDocument(
+      this._schema?.translateAliases(replacement as Record<string, unknown>) ?? replacement
+    ) as Record<string, unknown>
+    if (next._id !== undefined && String(next._id) !== String(current._id)) {
+      throw new Error(
+        "Performing a replace on the path '_id' would modify the immutable field '_id'"
+      )
+    }
+    next._id = current._id
+
+    if (this._schema) {
+      this._schema.applyStrict(next)
+      this._schema.applySetters(next)
+      this._schema.castDocument(next)
+
+      // Immutable fields keep their values
+      for (const field of this._schema.getImmutableFields()) {
+        if (current[field] === undefined) delete next[field]
+        else next[field] = current[field]
+      }
+    }
+    if (this._discriminatorKey && this._discriminatorValue) {
+      next[this._discriminatorKey] = this._discriminatorValue
+    }
+    this._applyDefaults(next as Partial<T>)
+
+    // Replacing keeps the original creation time
+    const timestampConfig = this._schema?.getTimestampConfig()
+    if (timestampConfig?.createdAt && current[timestampConfig.createdAt] !== undefined) {
+      next[timestampConfig.createdAt] = current[timestampConfig.createdAt]
+    }
+    this._applyTimestamps(next as Partial<T>, 'update')
+
+    await this._validateDocument(next as Partial<T>)
+    this._checkUniqueConstraints(next as Partial<T>, docToReplace)
+
+    // Swap the contents in place so the stored reference stays valid
+    const oldState = { ...docToReplace }
+    for (const key of Object.keys(current)) {
+      delete current[key]
+    }
+    Object.assign(current, next)
+
+    // Storages write the whole document, so this is a single row replace for SQL storages
+    await this._storage.update(docToReplace, docToReplace)
+    this._updateIndexForDocument(oldState, docToReplace)
+    this._emitChange({
+      operationType: 'replace',
+      documentKey: { _id: current._id },
+      fullDocument: docToReplace
+    })
+  }
+
+  // --- Bulk Operations ---
+  async bulkWrite(
+    operations: BulkWriteOperation<T>[],
+    options: BulkWriteOptions = {}
+  ): Promise<BulkWriteResult> {
+    const model = await this._withSession(options.session)
+    if (model !== this) return model.bulkWrite(operations, { ordered: options.ordered })
+
+    await this._ensureStorageReady()
+
+    // SQL storages run the whole batch in one native transaction
+    const transaction =
+      !this._session && this._hasNativeQuery() && this._storage.beginTransaction
+        ? await this._storage.beginTransaction()
+        : null
+
+    const target = transaction ? this._withStorage(transaction.storage) : this
+    const ordered = options.ordered ?? true
+    const result = new BulkWriteResult()
+
+    try {
+      for (let index = 0; index < operations.length; index++) {
+        const op = operations[index]
+        try {
+          await target._executeBulkOperation(op, index, result)
+        } catch (error) {
+          const code = (error as { code?: unknown }).code
+          result.writeErrors.push({
+            index,
+            ...(typeof code === 'number' && { code }),
+            errmsg: error instanceof Error ? error.message : String(error),
+            op
+          })
+          if (ordered) break
+        }
+      }
+    } catch (error) {
+      await transaction?.abort()
+      throw error
+    }
+
+    await transaction?.commit()
+    return result
+  }
+
+  private async _executeBulkOperation(
+    op: BulkWriteOperation<T>,
+    index: number,
+    result: BulkWriteResult
+  ): Promise<void> {
+    const recordUpdate = (updateResult: UpdateResult) => {
+      if (updateResult.upsertedCount) {
+        result.upsertedCount += updateResult.upsertedCount
+        result.upsertedIds[index] = updateResult.upsertedId
+      } else {
+        result.matchedCount += updateResult.matchedCount
+        result.modifiedCount += updateResult.modifiedCount
+      }
+    }
+
+    if ('insertOne' in op) {
+      const created = await this.create(op.insertOne.document as DeepPartial<T>)
+      result.insertedCount++
+      result.insertedIds[index] = created._id
+    } else if ('updateOne' in op) {
+      const { filter, update, upsert, arrayFilters } = op.updateOne
+      recordUpdate(
+        await this._executeUpdateOne(filter as Query<T>, update as Update<T>, {
+          upsert,
+          arrayFilters
+        })
+      )
+    } else if ('updateMany' in op) {
+      const { filter, update, upsert, arrayFilters } = op.updateMany
+      recordUpdate(
+        await this._executeUpdateMany(filter as Query<T>, update as Update<T>, {
+          upsert,
+          arrayFilters
+        })
+      )
+    } else if ('replaceOne' in op) {
+      const { filter, replacement, upsert } = op.replaceOne
+      recordUpdate(
+        await this._executeReplaceOne(filter as Query<T>, replacement as DeepPartial<T>, {
+          upsert
+        })
+      )
+    } else if ('deleteOne' in op) {
+      const { deletedCount } = await this._executeDeleteOne(op.deleteOne.filter as Query<T>)
+      result.deletedCount += deletedCount
+    } else if ('deleteMany' in op) {
+      const { deletedCount } = await this._executeDeleteMany(op.deleteMany.filter as Query<T>)
+      result.deletedCount += deletedCount
+    } else {
+      throw new Error(`Invalid bulkWrite operation: ${Object.keys(op)[0]}`)
+    }
   }
 
   // --- Count Operations ---
-  async countDocuments(query: Query<T> = {}): Promise<number> {
+  async countDocuments(query: Query<T> = {}, options?: SessionOptions): Promise<number> {
+    const model = await this._withSession(options?.session)
+    if (model !== this) return model.countDocuments(query)
+    query = this._prepareQuery(query)
+
     // NEW: Use native count if available
-    if (typeof (this._storage as any).countNative === 'function') {
+    if (typeof (this._storage as any).countNative === 'function' && this._canQueryNatively(query)) {
       return await (this._storage as any).countNative(query)
     }
 
@@ -1543,10 +2699,16 @@ export class Model<T extends object = Record<string, unknown>> {
   findOneAndUpdate(
     query: Query<T>,
     update: Update<T>,
-    options: { returnDocument?: 'before' | 'after'; new?: boolean; upsert?: boolean } = {}
+    options: {
+      returnDocument?: 'before' | 'after'
+      new?: boolean
+      upsert?: boolean
+      arrayFilters?: ArrayFilters
+    } & SessionOptions = {}
   ): DocumentQueryBuilder<T> {
     const operation = async (queryOptions?: QueryOptions<T>): Promise<(T & Document) | null> => {
-      return this._executeFindOneAndUpdate(query, update, {
+      const model = await this._withSession(queryOptions?.session ?? options.session)
+      return model._executeFindOneAndUpdate(query, update, {
         ...options,
         lean: queryOptions?.lean,
         select: queryOptions?.select
@@ -1562,11 +2724,15 @@ export class Model<T extends object = Record<string, unknown>> {
       returnDocument?: 'before' | 'after'
       new?: boolean
       upsert?: boolean
+      arrayFilters?: ArrayFilters
       lean?: boolean
       select?: Partial<Record<keyof T, 0 | 1>>
     } = {}
   ): Promise<(T & Document) | null> {
     await this._ensureStorageReady()
+    query = this._prepareQuery(query)
+    update = this._withVersionIncrement(this._prepareUpdate(update))
+    const applyOptions = { query, arrayFilters: parseArrayFilters(options.arrayFilters) }
 
     // Support 'new' as alias for returnDocument
     // new: true -> returnDocument: 'after'
@@ -1592,7 +2758,7 @@ export class Model<T extends object = Record<string, unknown>> {
         }
 
         // Apply the update
-        this._applyUpdate(newDoc as T, update)
+        this._applyUpdate(newDoc as T, update, { isInsert: true })
 
         // Create the document
         const created = await this.create(newDoc as DeepPartial<T>)
@@ -1606,53 +2772,119 @@ export class Model<T extends object = Record<string, unknown>> {
     const oldState = { ...docToUpdate }
 
     if (returnBefore) {
-      const original = JSON.parse(JSON.stringify(docToUpdate)) as T
+      const original = cloneDocument(docToUpdate)
       // Validate on a copy first
-      const testCopy = JSON.parse(JSON.stringify(docToUpdate)) as T
-      this._applyUpdate(testCopy, update)
+      const testCopy = cloneDocument(docToUpdate)
+      this._applyUpdate(testCopy, update, applyOptions)
       this._applyTimestamps(testCopy, 'update')
       await this._validateDocument(testCopy)
       this._checkUniqueConstraints(testCopy, docToUpdate)
       // If valid, apply to original
-      this._applyUpdate(docToUpdate, update)
+      this._applyUpdate(docToUpdate, update, applyOptions)
       this._applyTimestamps(docToUpdate, 'update')
+      // Persist changes to storage
+      await this._storage.update(docToUpdate, docToUpdate)
       // Efficiently update indexes for this single document
       this._updateIndexForDocument(oldState, docToUpdate)
-      // Apply virtuals unless lean mode
-      let result: T & Document = isLean ? (original as T & Document) : this._applyVirtuals(original)
-      // Apply field selection if specified
-      if (options.select) {
-        result = this._applyFieldSelection(result, options.select) as T & Document
-      }
-      return result
+      this._emitUpdate(original, docToUpdate)
+      return this._toResultDocument(original, { lean: isLean, select: options.select })
     }
 
     // Return after (default or when new: true)
     // Validate on a copy first
-    const testCopy = JSON.parse(JSON.stringify(docToUpdate)) as T
-    this._applyUpdate(testCopy, update)
+    const testCopy = cloneDocument(docToUpdate)
+    this._applyUpdate(testCopy, update, applyOptions)
     this._applyTimestamps(testCopy, 'update')
     await this._validateDocument(testCopy)
     this._checkUniqueConstraints(testCopy, docToUpdate)
+    const before = this._hasChangeStreams() ? cloneDocument(docToUpdate) : null
     // If valid, apply to original
-    this._applyUpdate(docToUpdate, update)
+    this._applyUpdate(docToUpdate, update, applyOptions)
     this._applyTimestamps(docToUpdate, 'update')
+    // Persist changes to storage
+    await this._storage.update(docToUpdate, docToUpdate)
     // Efficiently update indexes for this single document
     this._updateIndexForDocument(oldState, docToUpdate)
+    if (before) this._emitUpdate(before, docToUpdate)
     // Apply virtuals unless lean mode
-    let result: T & Document = isLean
-      ? (docToUpdate as T & Document)
-      : this._applyVirtuals(docToUpdate)
-    // Apply field selection if specified
-    if (options.select) {
-      result = this._applyFieldSelection(result, options.select) as T & Document
+    return this._toResultDocument(docToUpdate, { lean: isLean, select: options.select })
+  }
+
+  findOneAndReplace(
+    query: Query<T>,
+    replacement: DeepPartial<T>,
+    options: {
+      returnDocument?: 'before' | 'after'
+      new?: boolean
+      upsert?: boolean
+    } & SessionOptions = {}
+  ): DocumentQueryBuilder<T> {
+    const operation = async (queryOptions?: QueryOptions<T>): Promise<(T & Document) | null> => {
+      const model = await this._withSession(queryOptions?.session ?? options.session)
+      return model._executeFindOneAndReplace(query, replacement, {
+        ...options,
+        lean: queryOptions?.lean,
+        select: queryOptions?.select
+      })
     }
-    return result
+    return new DocumentQueryBuilder<T>(this, operation)
+  }
+
+  private async _executeFindOneAndReplace(
+    query: Query<T>,
+    replacement: DeepPartial<T>,
+    options: {
+      returnDocument?: 'before' | 'after'
+      new?: boolean
+      upsert?: boolean
+      lean?: boolean
+      select?: Partial<Record<keyof T, 0 | 1>>
+    } = {}
+  ): Promise<(T & Document) | null> {
+    this._checkReplacement(replacement)
+    await this._ensureStorageReady()
+    await this._executePreHooks('update', { query, update: replacement })
+    query = this._prepareQuery(query)
+
+    // Same defaults as findOneAndUpdate: return the new document unless asked for the original
+    const returnBefore = options.new === false || options.returnDocument === 'before'
+
+    const candidates = await this._findDocumentsUsingIndexes(query)
+    const docToReplace = candidates[0]
+
+    if (!docToReplace) {
+      if (!options.upsert) {
+        await this._executePostHooks('update', { query, update: replacement, modifiedCount: 0 })
+        return null
+      }
+      const newDoc = this._buildUpsertDocument(query, replacement as Update<T>)
+      const created = await this.create(newDoc as DeepPartial<T>)
+      await this._executePostHooks('update', {
+        query,
+        update: replacement,
+        modifiedCount: 1,
+        upsertedCount: 1
+      })
+      return returnBefore ? null : created
+    }
+
+    const original = cloneDocument(docToReplace)
+    await this._replaceDocument(docToReplace, replacement)
+    await this._executePostHooks('update', {
+      query,
+      update: replacement,
+      modifiedCount: 1,
+      doc: docToReplace
+    })
+
+    const returned = returnBefore ? original : docToReplace
+    return this._toResultDocument(returned, options)
   }
 
-  findOneAndDelete(query: Query<T>): DocumentQueryBuilder<T> {
+  findOneAndDelete(query: Query<T>, options?: SessionOptions): DocumentQueryBuilder<T> {
     const operation = async (queryOptions?: QueryOptions<T>): Promise<(T & Document) | null> => {
-      return this._executeFindOneAndDelete(query, {
+      const model = await this._withSession(queryOptions?.session ?? options?.session)
+      return model._executeFindOneAndDelete(query, {
         lean: queryOptions?.lean,
         select: queryOptions?.select
       })
@@ -1665,6 +2897,7 @@ export class Model<T extends object = Record<string, unknown>> {
     options?: { lean?: boolean; select?: Partial<Record<keyof T, 0 | 1>> }
   ): Promise<(T & Document) | null> {
     await this._ensureStorageReady()
+    query = this._prepareQuery(query)
 
     // Use indexes for efficient lookup
     const candidates = await this._findDocumentsUsingIndexes(query)
@@ -1678,20 +2911,20 @@ export class Model<T extends object = Record<string, unknown>> {
     await this._storage.remove(docToDelete)
     // Efficiently update indexes for deleted document
     this._updateIndexForDocument(docToDelete, null)
+    this._emitDelete(docToDelete)
 
-    // Apply virtuals unless lean mode
-    let result: T & Document = options?.lean
-      ? (original as T & Document)
-      : this._applyVirtuals(original)
-    // Apply field selection if specified
-    if (options?.select) {
-      result = this._applyFieldSelection(result, options.select) as T & Document
-    }
-    return result
+    return this._toResultDocument(original, options)
   }
 
   // --- Utility Operations ---
-  async distinct<K extends keyof T>(field: K, query?: Query<T>): Promise<Array<T[K]>> {
+  async distinct<K extends keyof T>(
+    field: K,
+    query?: Query<T>,
+    options?: SessionOptions
+  ): Promise<Array<T[K]>> {
+    const model = await this._withSession(options?.session)
+    if (model !== this) return model.distinct(field, query)
+
     await this._ensureStorageReady()
 
     const docs = query ? await this.find(query) : await this._storage.getAll()
@@ -1706,27 +2939,50 @@ export class Model<T extends object = Record<string, unknown>> {
     return Array.from(uniqueValues)
   }
 
-  findById(id: string | ObjectId): DocumentQueryBuilder<T> {
-    return this.findOne({ _id: id } as Query<T>)
+  findById(id: string | ObjectId, options?: QueryOptions<T>): DocumentQueryBuilder<T> {
+    return this.findOne({ _id: id } as Query<T>, options)
   }
 
   findByIdAndUpdate(
     id: string | ObjectId,
     update: Update<T>,
-    options?: { returnDocument?: 'before' | 'after'; new?: boolean; upsert?: boolean }
+    options?: {
+      returnDocument?: 'before' | 'after'
+      new?: boolean
+      upsert?: boolean
+      arrayFilters?: ArrayFilters
+    } & SessionOptions
   ): DocumentQueryBuilder<T> {
     return this.findOneAndUpdate({ _id: id } as Query<T>, update, options)
   }
 
-  findByIdAndDelete(id: string | ObjectId): DocumentQueryBuilder<T> {
-    return this.findOneAndDelete({ _id: id } as Query<T>)
+  findByIdAndReplace(
+    id: string | ObjectId,
+    replacement: DeepPartial<T>,
+    options?: {
+      returnDocument?: 'before' | 'after'
+      new?: boolean
+      upsert?: boolean
+    } & SessionOptions
+  ): DocumentQueryBuilder<T> {
+    return this.findOneAndReplace({ _id: id } as Query<T>, replacement, options)
+  }
+
+  findByIdAndDelete(id: string | ObjectId, options?: SessionOptions): DocumentQueryBuilder<T> {
+    return this.findOneAndDelete({ _id: id } as Query<T>, options)
   }
 
   _getSearchIndexRegistry(): SearchIndexRegistry | null {
     return this._searchIndexRegistry
   }
 
-  async aggregate<R = Record<string, unknown>>(pipeline: unknown[]): Promise<R[]> {
+  async aggregate<R = Record<string, unknown>>(
+    pipeline: unknown[],
+    options?: SessionOptions
+  ): Promise<R[]> {
+    const model = await this._withSession(options?.session)
+    if (model !== this) return model.aggregate<R>(pipeline)
+
     await this._ensureStorageReady()
 
     // NEW: Check for native aggregation support first (new interface)
@@ -1750,6 +3006,68 @@ export class Model<T extends object = Record<string, unknown>> {
     return results as R[]
   }
 
+  // --- Change Streams ---
+  watch(pipeline: unknown[] = [], options: ChangeStreamOptions = {}): ChangeStream<T> {
+    const stream = new ChangeStream<T>(this, pipeline, options)
+    this._changeStreams.add(stream)
+    stream.once('close', () => this._changeStreams.delete(stream))
+    return stream
+  }
+
+  // Whether any change stream (on this model or its database) wants events
+  private _hasChangeStreams(): boolean {
+    return this._changeStreams.size > 0 || (this._database?._hasChangeStreams() ?? false)
+  }
+
+  // Publish a change to watchers; changes made in a transaction are held until it commits
+  _emitChange(change: ChangeInput<T>): void {
+    if (!this._hasChangeStreams()) return
+
+    if (this._session && this._sessionRoot) {
+      const root = this._sessionRoot
+      const held = {
+        ...change,
+        fullDocument: change.fullDocument && cloneDocument(change.fullDocument)
+      }
+      this._session._queueChange(() => root._emitChange(held))
+      return
+    }
+
+    const event = createChangeEvent(this._modelName ?? '', change)
+    for (const stream of this._changeStreams) {
+      stream._push(event)
+    }
+    this._database?._emitChange(event as ChangeEvent)
+  }
+
+  async _closeChangeStreams(): Promise<void> {
+    await Promise.all(Array.from(this._changeStreams, stream => stream.close()))
+  }
+
+  private _emitUpdate(before: T, after: T): void {
+    this._emitChange({
+      operationType: 'update',
+      documentKey: { _id: (after as Record<string, unknown>)._id },
+      updateDescription: buildUpdateDescription(before, after),
+      fullDocument: after
+    })
+  }
+
+  private _emitInsert(doc: T): void {
+    this._emitChange({
+      operationType: 'insert',
+      documentKey: { _id: (doc as Record<string, unknown>)._id },
+      fullDocument: doc
+    })
+  }
+
+  private _emitDelete(doc: T): void {
+    this._emitChange({
+      operationType: 'delete',
+      documentKey: { _id: (doc as Record<string, unknown>)._id }
+    })
+  }
+
   discriminator<D extends object>(name: string, schema: Schema<D>): Model<T & D> {
     if (!this._schema) {
       throw new Error('Cannot create discriminator without base schema')
@@ -1782,6 +3100,9 @@ export class Model<T extends object = Record<string, unknown>> {
     for (const fields of schema.getIndexes()) {
       mergedSchema.index(fields as keyof (T & D) | Array<keyof (T & D)>)
     }
+    for (const field of [...this._schema.getGeoIndexes(), ...schema.getGeoIndexes()]) {
+      mergedSchema.index({ [field]: '2dsphere' })
+    }
 
     for (const d of this._schema.getSearchIndexes()) {
       mergedSchema.searchIndex(d)
@@ -1801,6 +3122,7 @@ export class Model<T extends object = Record<string, unknown>> {
       this._storage as StorageStrategy<T & D>,
       this._database
     )
+    discriminatorModel._setModelName(name)
 
     // Register the discriminator model in database
     if (this._database) {
@@ -0,0 +1,110 @@
+import type { Document } from './document'
+
+// Options accepted by FindQueryBuilder.cursor()
+export type CursorOptions = {
+  // Number of documents fetched from storage at a time (default: 1000)
+  batchSize?: number
+}
+
+// Options accepted by eachAsync()
+export type EachAsyncOptions = {
+  // Maximum number of callbacks running at once (default: 1)
+  parallel?: number
+}
+
+/**
+ * Query cursor (like mongoose's QueryCursor)
+ * Pulls documents from storage one batch at a time instead of materialising
+ * the full result array. Consume it with next(), for await...of or eachAsync().
+ *
+ * @example
+ * ```typescript
+ * const cursor = User.find({ active: true }).cursor({ batchSize: 100 })
+ * for await (const user of cursor) {
+ *   console.log(user.name)
+ * }
+ * ```
+ */
+export class QueryCursor<T extends object = Record<string, unknown>> implements AsyncIterable<
+  T & Document
+> {
+  private _batches: AsyncIterator<Array<T & Document>>
+  private _buffer: Array<T & Document> = []
+  private _position = 0
+  private _closed = false
+
+  constructor(batches: AsyncIterable<Array<T & Document>>) {
+    this._batches = batches[Symbol.asyncIterator]()
+  }
+
+  get closed(): boolean {
+    return this._closed
+  }
+
+  /**
+   * Get the next document (resolves null once the cursor is exhausted or closed)
+   */
+  async next(): Promise<(T & Document) | null> {
+    while (this._position >= this._buffer.length) {
+      if (this._closed) return null
+
+      const { value, done } = await this._batches.next()
+      if (done) {
+        await this.close()
+        return null
+      }
+      this._buffer = value
+      this._position = 0
+    }
+    return this._buffer[this._position++]
+  }
+
+  /**
+   * Run fn on every remaining document, with up to `parallel` calls in flight
+   * Rejects with the first error thrown by fn, after running calls have settled.
+   */
+  async eachAsync(
+    fn: (doc: T & Document, index: number) => unknown,
+    options: EachAsyncOptions = {}
+  ): Promise<void> {
+    const parallel = Math.max(1, options.parallel ?? 1)
+    const running = new Set<Promise<void>>()
+    let index = 0
+
+    try {
+      for (let doc = await this.next(); doc !== null; doc = await this.next()) {
+        const call: Promise<void> = Promise.resolve(fn(doc, index++)).then(() => {
+          running.delete(call)
+        })
+        running.add(call)
+        if (running.size >= parallel) {
+          await Promise.race(running)
+        }
+      }
+      await Promise.all(running)
+    } catch (error) {
+      await Promise.allSettled(running)
+      throw error
+    } finally {
+      await this.close()
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) return
+    this._closed = true
+    this._buffer = []
+    this._position = 0
+    await this._batches.return?.()
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T & Document> {
+    try {
+      for (let doc = await this.next(); doc !== null; doc = await this.next()) {
+        yield doc
+      }
+    } finally {
+      await this.close()
+    }
+  }
+}
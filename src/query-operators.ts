@@ -0,0 +1,394 @@
+import { ObjectId } from './objectid'
+import { Decimal128 } from './decimal128'
+import { UUID } from './uuid'
+
+// Type aliases accepted by $type and $jsonSchema's bsonType
+export type BsonTypeAlias =
+  | 'double'
+  | 'string'
+  | 'object'
+  | 'array'
+  | 'binData'
+  | 'objectId'
+  | 'bool'
+  | 'date'
+  | 'null'
+  | 'regex'
+  | 'int'
+  | 'long'
+  | 'decimal'
+  | 'number'
+
+// Numeric BSON type codes that $type also accepts
+const BSON_TYPE_CODES: Record<number, BsonTypeAlias> = {
+  1: 'double',
+  2: 'string',
+  3: 'object',
+  4: 'array',
+  5: 'binData',
+  7: 'objectId',
+  8: 'bool',
+  9: 'date',
+  10: 'null',
+  11: 'regex',
+  16: 'int',
+  18: 'long',
+  19: 'decimal'
+}
+
+const BSON_TYPE_ALIASES = new Set<string>([...Object.values(BSON_TYPE_CODES), 'number'])
+
+// JSON Schema subset supported by $jsonSchema (draft 4, as in MongoDB)
+export type JsonSchema = {
+  bsonType?: BsonTypeAlias | BsonTypeAlias[]
+  type?: string | string[]
+  required?: string[]
+  properties?: Record<string, JsonSchema>
+  patternProperties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  minProperties?: number
+  maxProperties?: number
+  enum?: unknown[]
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: boolean
+  exclusiveMaximum?: boolean
+  multipleOf?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  items?: JsonSchema | JsonSchema[]
+  additionalItems?: boolean | JsonSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  allOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  not?: JsonSchema
+  title?: string
+  description?: string
+}
+
+const INT32_MIN = -2147483648
+const INT32_MAX = 2147483647
+
+/**
+ * Resolve a $type argument (alias or numeric code) to its alias
+ */
+export function resolveBsonType(type: string | number): BsonTypeAlias {
+  const alias = typeof type === 'number' ? BSON_TYPE_CODES[type] : type
+  if (!alias || !BSON_TYPE_ALIASES.has(alias)) {
+    throw new Error(`Unknown type name alias: ${type}`)
+  }
+  return alias as BsonTypeAlias
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof ObjectId) &&
+    !(value instanceof RegExp) &&
+    !(value instanceof Uint8Array)
+  )
+}
+
+/**
+ * Check a single value against a BSON type
+ * Numbers follow the Node.js driver's encoding: integers that fit in 32 bits
+ * are 'int', other numbers are 'double', and bigints are 'long'.
+ */
+export function matchesBsonType(value: unknown, type: string | number): boolean {
+  switch (resolveBsonType(type)) {
+    case 'double':
+      return (
+        typeof value === 'number' &&
+        !(Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX)
+      )
+    case 'int':
+      return (
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= INT32_MIN &&
+        value <= INT32_MAX
+      )
+    case 'long':
+      return typeof value === 'bigint'
+    case 'number':
+      return typeof value === 'number' || typeof value === 'bigint' || value instanceof Decimal128
+    case 'string':
+      return typeof value === 'string'
+    case 'object':
+      return isPlainObject(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'binData':
+      return value instanceof Uint8Array || value instanceof UUID
+    case 'objectId':
+      return value instanceof ObjectId
+    case 'bool':
+      return typeof value === 'boolean'
+    case 'date':
+      return value instanceof Date
+    case 'null':
+      return value === null
+    case 'regex':
+      return value instanceof RegExp
+    case 'decimal':
+      return value instanceof Decimal128
+  }
+}
+
+/**
+ * $type: match a field against one or more BSON types
+ * Arrays match 'array' or any of the types of their elements.
+ */
+export function matchesType(
+  value: unknown,
+  types: string | number | Array<string | number>
+): boolean {
+  const typeList = Array.isArray(types) ? types : [types]
+  if (value === undefined) return false
+  if (typeList.some(type => matchesBsonType(value, type))) return true
+  return Array.isArray(value) && value.some(item => typeList.some(t => matchesBsonType(item, t)))
+}
+
+/**
+ * Parse a $mod argument into an integer divisor and remainder
+ */
+export function parseMod(value: unknown): [number, number] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new Error('malformed mod, needs to be an array of [divisor, remainder]')
+  }
+  const [divisor, remainder] = value.map(n => Math.trunc(Number(n)))
+  if (!Number.isFinite(divisor) || !Number.isFinite(remainder)) {
+    throw new Error('malformed mod, divisor and remainder must be numbers')
+  }
+  if (divisor === 0) {
+    throw new Error('divisor cannot be 0')
+  }
+  return [divisor, remainder]
+}
+
+/**
+ * $mod: field % divisor === remainder (both truncated to integers)
+ */
+export function matchesMod(value: unknown, mod: unknown): boolean {
+  const [divisor, remainder] = parseMod(mod)
+  if (typeof value !== 'number' || !Number.isFinite(value)) return false
+  return Math.trunc(value) % divisor === remainder
+}
+
+/**
+ * Build the 64-bit mask for a $bits* operator from a number or a list of bit positions
+ */
+export function bitMask(value: unknown): bigint {
+  if (Array.isArray(value)) {
+    return BigInt.asIntN(
+      64,
+      value.reduce((mask: bigint, position: number) => {
+        if (!Number.isInteger(position) || position < 0 || position > 63) {
+          throw new Error(`Invalid bit position: ${position}`)
+        }
+        return mask | (1n << BigInt(position))
+      }, 0n)
+    )
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error('Bit mask must be a non-negative integer or an array of bit positions')
+  }
+  return BigInt.asIntN(64, BigInt(value))
+}
+
+export type BitsOperator = '$bitsAllSet' | '$bitsAnySet' | '$bitsAllClear' | '$bitsAnyClear'
+
+/**
+ * $bitsAllSet / $bitsAnySet / $bitsAllClear / $bitsAnyClear on an integer field
+ */
+export function matchesBits(value: unknown, operator: BitsOperator, mask: unknown): boolean {
+  const bits = bitMask(mask)
+  let field: bigint
+  if (typeof value === 'bigint') {
+    field = BigInt.asIntN(64, value)
+  } else if (typeof value === 'number' && Number.isInteger(value)) {
+    field = BigInt.asIntN(64, BigInt(value))
+  } else {
+    return false
+  }
+
+  const masked = field & bits
+  switch (operator) {
+    case '$bitsAllSet':
+      return masked === bits
+    case '$bitsAnySet':
+      return masked !== 0n
+    case '$bitsAllClear':
+      return masked === 0n
+    case '$bitsAnyClear':
+      return masked !== bits
+  }
+}
+
+// JSON Schema 'type' keyword values
+function matchesJsonType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'number':
+      return typeof value === 'number' || typeof value === 'bigint' || value instanceof Decimal128
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'string':
+      return typeof value === 'string'
+    case 'null':
+      return value === null
+    default:
+      throw new Error(`Unsupported $jsonSchema type: ${type}`)
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+const SCHEMA_KEYWORDS = new Set<string>([
+  'bsonType',
+  'type',
+  'required',
+  'properties',
+  'patternProperties',
+  'additionalProperties',
+  'minProperties',
+  'maxProperties',
+  'enum',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'items',
+  'additionalItems',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'not',
+  'title',
+  'description'
+])
+
+/**
+ * $jsonSchema: check a value against a JSON Schema
+ * Keywords only constrain values of the type they apply to (e.g. minimum only checks numbers).
+ */
+export function matchesJsonSchema(value: unknown, schema: JsonSchema): boolean {
+  for (const keyword of Object.keys(schema)) {
+    if (!SCHEMA_KEYWORDS.has(keyword)) {
+      throw new Error(`Unsupported $jsonSchema keyword: ${keyword}`)
+    }
+  }
+
+  if (schema.bsonType !== undefined) {
+    const types = Array.isArray(schema.bsonType) ? schema.bsonType : [schema.bsonType]
+    if (!types.some(type => matchesBsonType(value, type))) return false
+  }
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesJsonType(value, type))) return false
+  }
+  if (schema.enum && !schema.enum.some(option => sameValue(option, value))) return false
+
+  if (schema.allOf && !schema.allOf.every(sub => matchesJsonSchema(value, sub))) return false
+  if (schema.anyOf && !schema.anyOf.some(sub => matchesJsonSchema(value, sub))) return false
+  if (schema.oneOf && schema.oneOf.filter(sub => matchesJsonSchema(value, sub)).length !== 1) {
+    return false
+  }
+  if (schema.not && matchesJsonSchema(value, schema.not)) return false
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined) {
+      if (schema.exclusiveMinimum ? value <= schema.minimum : value < schema.minimum) return false
+    }
+    if (schema.maximum !== undefined) {
+      if (schema.exclusiveMaximum ? value >= schema.maximum : value > schema.maximum) return false
+    }
+    if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) return false
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length
+    if (schema.minLength !== undefined && length < schema.minLength) return false
+    if (schema.maxLength !== undefined && length > schema.maxLength) return false
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) return false
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) return false
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return false
+    if (schema.uniqueItems) {
+      const seen = new Set(value.map(item => JSON.stringify(item)))
+      if (seen.size !== value.length) return false
+    }
+    if (Array.isArray(schema.items)) {
+      const tuple = schema.items
+      if (!tuple.every((sub, i) => i >= value.length || matchesJsonSchema(value[i], sub))) {
+        return false
+      }
+      const extra = value.slice(tuple.length)
+      if (schema.additionalItems === false && extra.length > 0) return false
+      if (typeof schema.additionalItems === 'object') {
+        const additional = schema.additionalItems
+        if (!extra.every(item => matchesJsonSchema(item, additional))) return false
+      }
+    } else if (schema.items) {
+      const items = schema.items
+      if (!value.every(item => matchesJsonSchema(item, items))) return false
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const present = Object.keys(value).filter(key => value[key] !== undefined)
+    if (schema.required && !schema.required.every(key => present.includes(key))) return false
+    if (schema.minProperties !== undefined && present.length < schema.minProperties) return false
+    if (schema.maxProperties !== undefined && present.length > schema.maxProperties) return false
+
+    const properties = schema.properties ?? {}
+    const patterns = Object.entries(schema.patternProperties ?? {}).map(
+      ([pattern, sub]) => [new RegExp(pattern), sub] as const
+    )
+    for (const key of present) {
+      let matched = false
+      if (key in properties) {
+        matched = true
+        if (!matchesJsonSchema(value[key], properties[key])) return false
+      }
+      for (const [pattern, sub] of patterns) {
+        if (pattern.test(key)) {
+          matched = true
+          if (!matchesJsonSchema(value[key], sub)) return false
+        }
+      }
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) return false
+        if (
+          typeof schema.additionalProperties === 'object' &&
+          !matchesJsonSchema(value[key], schema.additionalProperties)
+        ) {
+          return false
+        }
+      }
+    }
+  }
+
+  return true
+}
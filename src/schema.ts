@@ -1,5 +1,78 @@
 // Import ObjectId for Schema.Types
 import { ObjectId } from './objectid'
+import { Decimal128 } from './decimal128'
+import { UUID } from './uuid'
+import type { IDocument } from './document'
+import {
+  casters,
+  elementType,
+  isArrayType,
+  isMapType,
+  isOperatorObject,
+  isPlainObject,
+  Mixed,
+  scalarKind,
+  SchemaMap
+} from './cast'
+import { isEachModifier } from './update-paths'
+
+// Type of an `_id` the schema does not declare: ObjectId hex strings become ObjectIds
+const AUTO_ID = Symbol('autoId')
+
+// Options of the elements of an array field
+function elementOptions(options: FieldOptions): FieldOptions {
+  const element = Array.isArray(options.type) ? options.type[0] : undefined
+  if (isPlainObject(element) && 'type' in element) return element as FieldOptions
+  return { ...options, type: elementType(options.type) }
+}
+
+// Options of the values of a map field (`of: Number` or `of: { type: Number, min: 0 }`)
+function mapValueOptions(options: FieldOptions | undefined): FieldOptions {
+  const of = options?.of
+  return isPlainObject(of) && 'type' in of ? (of as FieldOptions) : { type: of }
+}
+
+// Apply the lowercase, uppercase and trim options to a string
+function transformString(value: string, options: FieldOptions): string {
+  let result = options.trim ? value.trim() : value
+  if (options.lowercase) result = result.toLowerCase()
+  if (options.uppercase) result = result.toUpperCase()
+  return result
+}
+
+// A failure found while validating, with the label its message starts with ('address: ')
+type ValidationIssue = { error: ValidatorError | CastError; label: string }
+
+// Fill the {PATH}, {VALUE}, {MIN}, {MAX}, ... placeholders of a validator message
+function formatMessage(message: string, properties: Record<string, unknown>): string {
+  return message.replace(/\{([A-Z]+)\}/g, (placeholder, name: string) =>
+    name in properties ? String(properties[name]) : placeholder
+  )
+}
+
+// Whether validating only `paths` (all paths when undefined) includes `path` itself
+function selectsPath(paths: string[] | undefined, path: string): boolean {
+  return !paths || paths.some(p => path === p || path.startsWith(`${p}.`))
+}
+
+// Whether `path` or a path inside it is validated
+function reachesPath(paths: string[] | undefined, path: string): boolean {
+  return selectsPath(paths, path) || paths!.some(p => p.startsWith(`${path}.`))
+}
+
+// The ValidationError for the issues found (skipping empty slots), if any
+function toValidationError(
+  issues: Array<ValidationIssue | undefined>
+): ValidationError | undefined {
+  const errors: Record<string, ValidatorError | CastError> = {}
+  const messages: string[] = []
+  for (const issue of issues) {
+    if (!issue) continue
+    errors[issue.error.path] ??= issue.error
+    messages.push(issue.label + issue.error.message)
+  }
+  return messages.length > 0 ? new ValidationError(messages.join('; '), errors) : undefined
+}
 
 // Virtual type for getter/setter virtuals
 export class VirtualType<T = unknown> {
@@ -114,12 +187,38 @@ export type FieldOptions = {
   get?: (value: any) => any // Getter function
   set?: (value: any) => any // Setter function
   unique?: boolean // For unique indexes
+  immutable?: boolean // Can't be changed once the document is created
+  select?: boolean // false: left out of query results unless selected with '+field'
+  lowercase?: boolean // String transforms, applied when values are cast
+  uppercase?: boolean
+  trim?: boolean
+  alias?: string // Alternate name: a virtual that can also be used in queries and updates
+  of?: any // Type (or field options) of the values of a Map
+}
+
+// A failed validator of one path: an entry of ValidationError.errors
+export class ValidatorError extends Error {
+  kind: string // 'required', 'min', 'max', 'minlength', 'maxlength', 'enum', 'regexp' or 'user defined'
+  path: string
+  value: unknown
+
+  constructor(properties: { kind: string; path: string; value: unknown; message: string }) {
+    super(properties.message)
+    this.name = 'ValidatorError'
+    this.kind = properties.kind
+    this.path = properties.path
+    this.value = properties.value
+  }
 }
 
 export class ValidationError extends Error {
-  constructor(message: string) {
+  // Failing paths (dot notation for subdocuments) and why they failed
+  errors: Record<string, ValidatorError | CastError>
+
+  constructor(message: string, errors: Record<string, ValidatorError | CastError> = {}) {
     super(message)
     this.name = 'ValidationError'
+    this.errors = errors
   }
 }
 
@@ -143,6 +242,69 @@ export class DuplicateKeyError extends Error {
   }
 }
 
+export class WriteConflictError extends Error {
+  code: number = 112
+  errorLabels: string[] = ['TransientTransactionError']
+
+  constructor(message: string = 'Write conflict during transaction commit') {
+    super(message)
+    this.name = 'WriteConflictError'
+  }
+
+  hasErrorLabel(label: string): boolean {
+    return this.errorLabels.includes(label)
+  }
+}
+
+// A save() whose document was modified by someone else since it was loaded
+export class VersionError extends Error {
+  version: number | undefined
+  modifiedPaths: string[]
+
+  constructor(id: unknown, version: number | undefined, modifiedPaths: string[]) {
+    super(
+      `No matching document found for id "${String(id)}" version ${version} ` +
+        `modifiedPaths "${modifiedPaths.join(', ')}"`
+    )
+    this.name = 'VersionError'
+    this.version = version
+    this.modifiedPaths = modifiedPaths
+  }
+}
+
+// A value that cannot be converted to the type declared for its path
+export class CastError extends Error {
+  kind: string
+  value: unknown
+  path: string
+  valueType: string
+  reason?: Error
+
+  constructor(kind: string, value: unknown, path: string, reason?: Error) {
+    const valueType =
+      value === null ? 'null' : typeof value === 'object' ? value.constructor.name : typeof value
+    const stringValue = typeof value === 'string' ? `"${value}"` : String(JSON.stringify(value))
+    super(`Cast to ${kind} failed for value ${stringValue} (type ${valueType}) at path "${path}"`)
+    this.name = 'CastError'
+    this.kind = kind
+    this.value = value
+    this.path = path
+    this.valueType = valueType
+    this.reason = reason
+  }
+}
+
+// A path the schema does not declare, written or queried with strict mode 'throw'
+export class StrictModeError extends Error {
+  path: string
+
+  constructor(path: string, message?: string) {
+    super(message ?? `Field \`${path}\` is not in schema and strict mode is set to throw.`)
+    this.name = 'StrictModeError'
+    this.path = path
+  }
+}
+
 export type SearchIndexDescriptor = {
   name?: string
   type?: 'search' | 'vectorSearch'
@@ -154,13 +316,31 @@ export type SchemaOptions = {
   timestamps?: boolean | { createdAt?: string | boolean; updatedAt?: string | boolean }
   discriminatorKey?: string
   autoSearchIndex?: boolean
+  // Document version field (default '__v'), or false to disable versioning
+  versionKey?: string | false
+  // Check the version on every save, not only on saves that modify arrays
+  optimisticConcurrency?: boolean
+  // Paths the schema does not declare: dropped (true), rejected ('throw') or kept (false)
+  strict?: StrictMode
+  // The same for query filters
+  strictQuery?: StrictMode
 }
 
+export type StrictMode = boolean | 'throw'
+
+// Plugin function, run with `schema.plugin(fn, options)` or for every schema with `plugin(fn)`
+export type SchemaPlugin<O = any> = (schema: Schema<any>, options?: O) => void
+
 // Schema definition (simplified - just for type info and indexes)
 export class Schema<T extends object = Record<string, unknown>> {
   // Static Types property for mongoose compatibility (e.g., Schema.Types.ObjectId)
   static Types = {
-    ObjectId: ObjectId
+    ObjectId: ObjectId,
+    Map: Map,
+    Mixed: Mixed,
+    Decimal128: Decimal128,
+    Buffer: Buffer,
+    UUID: UUID
   }
 
   private _definition: Record<string, unknown>
@@ -168,11 +348,14 @@ export class Schema<T extends object = Record<string, unknown>> {
   private _indexes: Array<Array<keyof T>>
   private _uniqueIndexes?: Set<string>
   private _ttlIndexes: Map<string, number> // field -> ttl in seconds
+  private _geoIndexes: Set<string> // fields with a 2dsphere index
   private _virtuals: Map<string, VirtualType>
   private _preHooks: Map<string, HookFunction[]>
   private _postHooks: Map<string, HookFunction[]>
   private _options: SchemaOptions
   private _searchIndexes: SearchIndexDescriptor[] = []
+  private _aliases: Map<string, string> = new Map() // alias -> field
+  private _plugins: Set<SchemaPlugin> = new Set()
   // Methods and statics need `any` for maximum flexibility with different `this` types
   public methods: Record<string, (this: any, ...args: any[]) => any>
   public statics: Record<string, (...args: any[]) => any>
@@ -182,6 +365,7 @@ export class Schema<T extends object = Record<string, unknown>> {
     this._fieldOptions = new Map()
     this._indexes = []
     this._ttlIndexes = new Map()
+    this._geoIndexes = new Set()
     this._virtuals = new Map()
     this._preHooks = new Map()
     this._postHooks = new Map()
@@ -191,6 +375,53 @@ export class Schema<T extends object = Record<string, unknown>> {
 
     // Parse field definitions to extract options
     this._parseFieldDefinitions(definition)
+    this._registerAliases(Object.keys(definition))
+  }
+
+  /**
+   * Add fields to the schema, in the same syntax as the constructor's definition
+   * @param definition Field definitions
+   * @returns this for chaining
+   */
+  add(definition: Record<string, unknown>): this {
+    this._definition = { ...this._definition, ...definition }
+    this._parseFieldDefinitions(definition)
+    this._registerAliases(Object.keys(definition))
+    return this
+  }
+
+  /**
+   * Run a plugin on this schema. Plugins can add fields, indexes, virtuals, methods, statics
+   * and hooks; the schema remembers them, so a global plugin never runs twice on it.
+   * @param fn Plugin function, called with the schema and the options
+   * @param options Plugin options
+   * @returns this for chaining
+   */
+  plugin<O = any>(fn: SchemaPlugin<O>, options?: O): this {
+    this._plugins.add(fn)
+    fn(this as unknown as Schema<any>, options)
+    return this
+  }
+
+  // Run the plugins this schema has not run yet (global plugins, when its model is built)
+  applyPlugins(plugins: ReadonlyArray<{ fn: SchemaPlugin; options?: unknown }>): void {
+    for (const { fn, options } of plugins) {
+      if (!this._plugins.has(fn)) this.plugin(fn, options)
+    }
+  }
+
+  // Virtuals that read and write the aliased fields
+  private _registerAliases(fieldNames: string[]): void {
+    for (const field of fieldNames) {
+      const alias = this._fieldOptions.get(field as keyof T)?.alias
+      if (!alias) continue
+      this._aliases.set(alias, field)
+      this.virtual(alias)
+        .get((doc: Record<string, unknown>) => doc[field])
+        .set((doc: Record<string, unknown>, value: unknown) => {
+          doc[field] = value
+        })
+    }
   }
 
   private _parseFieldDefinitions(definition: Record<string, unknown>): void {
@@ -225,7 +456,7 @@ export class Schema<T extends object = Record<string, unknown>> {
   }
 
   index(
-    fields: keyof T | Array<keyof T> | Record<string, 1 | -1>,
+    fields: keyof T | Array<keyof T> | Record<string, 1 | -1 | '2dsphere'>,
     options?: { unique?: boolean; ttl?: number }
   ): this {
     // Normalize to array - single field becomes array with one element
@@ -235,7 +466,15 @@ export class Schema<T extends object = Record<string, unknown>> {
       normalizedFields = fields
     } else if (typeof fields === 'object' && fields !== null) {
       // Handle Mongoose-style object format: { author: 1, year: -1 }
-      normalizedFields = Object.keys(fields) as Array<keyof T>
+      // 2dsphere fields get a spatial index instead: { location: '2dsphere' }
+      const entries = Object.entries(fields as Record<string, 1 | -1 | '2dsphere'>)
+      for (const [field, type] of entries) {
+        if (type === '2dsphere') this._geoIndexes.add(field)
+      }
+      normalizedFields = entries
+        .filter(([, type]) => type !== '2dsphere')
+        .map(([field]) => field) as Array<keyof T>
+      if (normalizedFields.length === 0) return this
     } else {
       normalizedFields = [fields as keyof T]
     }
@@ -287,11 +526,18 @@ export class Schema<T extends object = Record<string, unknown>> {
     return this._ttlIndexes
   }
 
+  getGeoIndexes(): Set<string> {
+    return this._geoIndexes
+  }
+
   getVirtuals(): Map<string, VirtualType> {
     return this._virtuals
   }
 
-  pre(event: 'save', fn: (context: SaveHookContext<T>) => void | Promise<void>): this
+  pre(
+    event: 'save',
+    fn: (this: T & IDocument, context: SaveHookContext<T>) => void | Promise<void>
+  ): this
   pre(event: 'delete', fn: (context: PreDeleteHookContext<T>) => void | Promise<void>): this
   pre(event: 'update', fn: (context: PreUpdateHookContext<T>) => void | Promise<void>): this
   pre(event: 'find' | 'findOne', fn: (context: PreFindHookContext<T>) => void | Promise<void>): this
@@ -303,7 +549,10 @@ export class Schema<T extends object = Record<string, unknown>> {
     return this
   }
 
-  post(event: 'save', fn: (context: SaveHookContext<T>) => void | Promise<void>): this
+  post(
+    event: 'save',
+    fn: (this: T & IDocument, context: SaveHookContext<T>) => void | Promise<void>
+  ): this
   post(event: 'delete', fn: (context: PostDeleteHookContext<T>) => void | Promise<void>): this
   post(event: 'update', fn: (context: PostUpdateHookContext<T>) => void | Promise<void>): this
   post(
@@ -334,6 +583,24 @@ export class Schema<T extends object = Record<string, unknown>> {
     return this._fieldOptions
   }
 
+  // Fields declared with `immutable: true`
+  getImmutableFields(): string[] {
+    const fields: string[] = []
+    for (const [fieldName, options] of this._fieldOptions.entries()) {
+      if (options.immutable) fields.push(String(fieldName))
+    }
+    return fields
+  }
+
+  // Fields declared with `select: false`
+  getUnselectedFields(): string[] {
+    const fields: string[] = []
+    for (const [fieldName, options] of this._fieldOptions.entries()) {
+      if (options.select === false) fields.push(String(fieldName))
+    }
+    return fields
+  }
+
   applyGetters(doc: any): any {
     const result = { ...doc }
     for (const [fieldName, options] of this._fieldOptions.entries()) {
@@ -392,10 +659,454 @@ export class Schema<T extends object = Record<string, unknown>> {
     }
   }
 
+  // Replace field aliases with the fields they stand for, in a document, query filter or update
+  // (dot-notation paths start with the alias)
+  translateAliases(value: Record<string, unknown>): Record<string, unknown> {
+    if (this._aliases.size === 0) return value
+
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      if (['$and', '$or', '$nor'].includes(key) && Array.isArray(item)) {
+        result[key] = item.map(subQuery => this.translateAliases(subQuery))
+      } else if (key.startsWith('$')) {
+        result[key] = isPlainObject(item) ? this.translateAliases(item) : item
+      } else {
+        const [head, ...rest] = key.split('.')
+        const field = this._aliases.get(head)
+        result[field ? [field, ...rest].join('.') : key] = item
+      }
+    }
+    return result
+  }
+
+  // Turn the plain objects stored for Map paths into maps, in a hydrated document (in place)
+  hydrateMaps(doc: Record<string, unknown>): void {
+    for (const [fieldName, options] of this._fieldOptions.entries()) {
+      const field = String(fieldName)
+      const value = doc[field]
+      if (isMapType(options.type) && isPlainObject(value)) {
+        doc[field] = new SchemaMap(Object.entries(value))
+      } else if (options.type instanceof Schema && Array.isArray(value)) {
+        value.forEach(subDoc => isPlainObject(subDoc) && options.type.hydrateMaps(subDoc))
+      } else if (options.type instanceof Schema && isPlainObject(value)) {
+        options.type.hydrateMaps(value)
+      }
+    }
+  }
+
+  // Remove (or reject) the fields of a document that the schema does not declare, in place
+  // Subdocument schemas use their own strict option, or the parent's when they have none
+  applyStrict(doc: Record<string, unknown>, prefix: string = '', inherited?: StrictMode): void {
+    const mode = this._options.strict ?? inherited ?? false
+    for (const key of Object.keys(doc)) {
+      const options = this._fieldOptions.get(key as keyof T)
+      if (options) {
+        doc[key] = this._strictValue(options.type, doc[key], prefix + key, mode)
+      } else if (mode && !this._isReservedPath(key)) {
+        if (mode === 'throw') throw new StrictModeError(prefix + key)
+        delete doc[key]
+      }
+    }
+  }
+
+  // Remove (or reject) update paths the schema does not declare, and changes to immutable
+  // fields ($setOnInsert may still set them)
+  strictUpdate(update: Record<string, unknown>): Record<string, unknown> {
+    const mode = this._options.strict ?? false
+    if (!mode && !this._hasImmutableFields()) return update
+
+    const result: Record<string, unknown> = {}
+    for (const [key, fields] of Object.entries(update)) {
+      if (!key.startsWith('$')) {
+        if (this._allowsWrite(key, mode) && this._allowsChange(key, mode)) {
+          result[key] = this._strictValue(this._pathType(key), fields, key, mode)
+        }
+        continue
+      }
+      if (!isPlainObject(fields)) {
+        result[key] = fields
+        continue
+      }
+
+      const operands: Record<string, unknown> = {}
+      for (const [path, operand] of Object.entries(fields)) {
+        if (!this._allowsWrite(path, mode)) continue
+        if (key !== '$setOnInsert' && !this._allowsChange(path, mode)) continue
+        if (key === '$rename') {
+          const target = String(operand)
+          if (!this._allowsWrite(target, mode) || !this._allowsChange(target, mode)) continue
+        }
+
+        const type = this._pathType(path)
+        if (key === '$set' || key === '$setOnInsert') {
+          operands[path] = this._strictValue(type, operand, path, mode)
+        } else if ((key === '$push' || key === '$addToSet') && isArrayType(type)) {
+          operands[path] = isEachModifier(operand)
+            ? { ...operand, $each: this._strictValue(type, operand.$each, path, mode) }
+            : this._strictValue(elementType(type), operand, path, mode)
+        } else {
+          operands[path] = operand
+        }
+      }
+      if (Object.keys(operands).length > 0) result[key] = operands
+    }
+    return result
+  }
+
+  // Remove (or reject) query conditions on paths the schema does not declare
+  strictQuery(query: Record<string, unknown>): Record<string, unknown> {
+    const mode = this._options.strictQuery ?? false
+    if (!mode) return query
+
+    const result: Record<string, unknown> = {}
+    for (const [key, condition] of Object.entries(query)) {
+      if (['$and', '$or', '$nor'].includes(key) && Array.isArray(condition)) {
+        result[key] = condition.map(subQuery => this.strictQuery(subQuery))
+      } else if (key.startsWith('$') || this._isAllowedPath(key, mode, 'strictQuery')) {
+        result[key] = condition
+      } else if (mode === 'throw') {
+        throw new StrictModeError(key, `Path "${key}" is not in schema and strictQuery is 'throw'`)
+      }
+    }
+    return result
+  }
+
+  // Fields every document may have: _id, the version key, timestamps and the discriminator key
+  private _isReservedPath(field: string): boolean {
+    const timestamps = this.getTimestampConfig()
+    return [
+      '_id',
+      this.getVersionKey(),
+      timestamps?.createdAt,
+      timestamps?.updatedAt,
+      this._options.discriminatorKey ?? '__t'
+    ].includes(field)
+  }
+
+  // Whether a dot-notation path is declared, or lies in a part of the document that is not strict
+  private _isAllowedPath(
+    path: string,
+    inherited: StrictMode,
+    option: 'strict' | 'strictQuery'
+  ): boolean {
+    const mode = this._options[option] ?? inherited
+    const [head, ...rest] = path.split('.')
+    if (this._isReservedPath(head)) return true
+    const options = this._fieldOptions.get(head as keyof T)
+    if (!options) return !mode
+
+    let type: unknown = options.type
+    for (const [i, segment] of rest.entries()) {
+      if (isArrayType(type)) {
+        type = elementType(type)
+        if (/^\d+$/.test(segment) || segment.startsWith('$')) continue
+      }
+      if (type instanceof Schema) return type._isAllowedPath(rest.slice(i).join('.'), mode, option)
+      // Inside a value without a schema (Mixed)
+      return true
+    }
+    return true
+  }
+
+  private _allowsWrite(path: string, mode: StrictMode): boolean {
+    if (this._isAllowedPath(path, mode, 'strict')) return true
+    if (mode === 'throw') throw new StrictModeError(path)
+    return false
+  }
+
+  private _hasImmutableFields(): boolean {
+    for (const options of this._fieldOptions.values()) {
+      if (options.immutable) return true
+      const schema = isArrayType(options.type) ? elementType(options.type) : options.type
+      if (schema instanceof Schema && schema._hasImmutableFields()) return true
+    }
+    return false
+  }
+
+  // Whether a dot-notation path is an immutable field or lies inside one
+  private _isImmutablePath(path: string): boolean {
+    const segments = path.split('.')
+    return segments.some((_, i) => this._pathOptions(segments.slice(0, i + 1).join('.'))?.immutable)
+  }
+
+  private _allowsChange(path: string, mode: StrictMode): boolean {
+    if (!this._isImmutablePath(path)) return true
+    if (mode === 'throw') {
+      throw new StrictModeError(path, `Field \`${path}\` is immutable and strict = 'throw'`)
+    }
+    return false
+  }
+
+  // Apply strict mode to the subdocuments in a value (copies, the value itself is not changed)
+  private _strictValue(type: unknown, value: unknown, path: string, mode: StrictMode): unknown {
+    const schema = isArrayType(type) ? elementType(type) : type
+    if (!(schema instanceof Schema)) return value
+    if (Array.isArray(value)) {
+      return value.map((item, i) => this._strictValue(schema, item, `${path}.${i}`, mode))
+    }
+    if (!isPlainObject(value)) return value
+    const subDoc = { ...value }
+    schema.applyStrict(subDoc, `${path}.`, mode)
+    return subDoc
+  }
+
+  // Convert field values to their declared types (in place), throwing a CastError on failure
+  // With `errors`, fields that fail to cast are collected there (and left as they are)
+  // instead of throwing
+  castDocument(doc: Record<string, unknown>, prefix: string = '', errors?: CastError[]): void {
+    if (doc._id !== undefined && !this._fieldOptions.has('_id' as keyof T)) {
+      doc._id = this._castValue(AUTO_ID, doc._id, `${prefix}_id`)
+    }
+    for (const [fieldName, options] of this._fieldOptions.entries()) {
+      const field = String(fieldName)
+      if (doc[field] === undefined || doc[field] === null) continue
+      try {
+        doc[field] = this._castValue(options.type, doc[field], prefix + field, options)
+      } catch (error) {
+        if (!errors || !(error instanceof CastError)) throw error
+        errors.push(error)
+      }
+    }
+  }
+
+  // Cast the values of a query filter to the types of the paths they are compared with
+  castQuery(query: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [key, condition] of Object.entries(query)) {
+      if (['$and', '$or', '$nor'].includes(key) && Array.isArray(condition)) {
+        result[key] = condition.map(subQuery => this.castQuery(subQuery))
+      } else if (key.startsWith('$')) {
+        result[key] = condition
+      } else {
+        const options = this._pathOptions(key)
+        result[key] = this._castCondition(options?.type, condition, key, options)
+      }
+    }
+    return result
+  }
+
+  // Cast the operands of update operators to the types of the paths they write
+  castUpdate(update: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [key, fields] of Object.entries(update)) {
+      if (!key.startsWith('$')) {
+        // Fields without an operator are set
+        const options = this._pathOptions(key)
+        result[key] = this._castValue(options?.type, fields, key, options)
+      } else if (isPlainObject(fields)) {
+        const operands: Record<string, unknown> = {}
+        for (const [path, operand] of Object.entries(fields)) {
+          operands[path] = this._castUpdateOperand(key, path, operand)
+        }
+        result[key] = operands
+      } else {
+        result[key] = fields
+      }
+    }
+    return result
+  }
+
+  // Declared type at a dot-notation path (array indexes and positional operators select
+  // elements), or undefined when the path has no declared type
+  private _pathType(path: string): unknown {
+    return this._pathOptions(path)?.type
+  }
+
+  // Field options at a dot-notation path; the elements of an array share its options unless
+  // they are declared with their own (`[{ type: String, trim: true }]`)
+  private _pathOptions(path: string): FieldOptions | undefined {
+    const [head, ...rest] = path.split('.')
+    let options: FieldOptions | undefined =
+      head === '_id' && !this._fieldOptions.has('_id' as keyof T)
+        ? { type: AUTO_ID }
+        : this._fieldOptions.get(head as keyof T)
+    for (const [i, segment] of rest.entries()) {
+      if (options && isArrayType(options.type)) {
+        options = elementOptions(options)
+        if (/^\d+$/.test(segment) || segment.startsWith('$')) continue
+      }
+      // Each key of a map holds a value of its `of` type
+      if (options && isMapType(options.type)) {
+        options = mapValueOptions(options)
+        continue
+      }
+      if (options?.type instanceof Schema) {
+        return options.type._pathOptions(rest.slice(i).join('.'))
+      }
+      return undefined
+    }
+    return options
+  }
+
+  // `options` are the field options of the path, for string transforms
+  private _castValue(type: unknown, value: unknown, path: string, options?: FieldOptions): unknown {
+    if (value === undefined || value === null) return value
+    if (type === AUTO_ID) {
+      return typeof value === 'string' && ObjectId.isValid(value) ? new ObjectId(value) : value
+    }
+    if (isArrayType(type)) {
+      const items = Array.isArray(value) ? value : [value]
+      const element = elementOptions({ ...options, type })
+      return items.map((item, i) => this._castValue(element.type, item, `${path}.${i}`, element))
+    }
+    if (isMapType(type)) {
+      // Maps are stored as plain objects, with their values cast to the `of` type
+      const entries =
+        value instanceof Map
+          ? [...value.entries()]
+          : isPlainObject(value)
+            ? Object.entries(value)
+            : null
+      if (!entries) throw new CastError('Map', value, path)
+      const valueOptions = mapValueOptions(options)
+      const map: Record<string, unknown> = {}
+      for (const [key, item] of entries) {
+        map[key] = this._castValue(valueOptions.type, item, `${path}.${key}`, valueOptions)
+      }
+      return map
+    }
+    if (type instanceof Schema) {
+      // A subdocument type also accepts an array of subdocuments
+      if (Array.isArray(value)) {
+        return value.map((item, i) => this._castValue(type, item, `${path}.${i}`))
+      }
+      if (!isPlainObject(value)) throw new CastError('Embedded', value, path)
+      const subDoc = { ...value }
+      type.castDocument(subDoc, `${path}.`)
+      return subDoc
+    }
+
+    const kind = scalarKind(type)
+    if (!kind) return value
+    let cast: unknown
+    try {
+      cast = casters[kind](value)
+    } catch (error) {
+      throw new CastError(kind, value, path, error as Error)
+    }
+    return typeof cast === 'string' && options ? transformString(cast, options) : cast
+  }
+
+  private _castCondition(
+    type: unknown,
+    condition: unknown,
+    path: string,
+    options?: FieldOptions
+  ): unknown {
+    if (type === undefined || condition instanceof RegExp) return condition
+    if (isOperatorObject(condition)) {
+      const result: Record<string, unknown> = {}
+      for (const [operator, operand] of Object.entries(condition)) {
+        result[operator] = this._castOperand(type, operator, operand, path, options)
+      }
+      return result
+    }
+    return this._castQueryValue(type, condition, path, options)
+  }
+
+  private _castOperand(
+    type: unknown,
+    operator: string,
+    operand: unknown,
+    path: string,
+    options?: FieldOptions
+  ): unknown {
+    switch (operator) {
+      case '$eq':
+      case '$ne':
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        return this._castQueryValue(type, operand, path, options)
+      case '$in':
+      case '$nin':
+      case '$all':
+        return Array.isArray(operand)
+          ? operand.map(value => this._castQueryValue(type, value, path, options))
+          : operand
+      case '$not':
+        return this._castCondition(type, operand, path, options)
+      case '$elemMatch': {
+        if (!isArrayType(type)) return operand
+        const element = elementOptions({ ...options, type })
+        return this._castCondition(element.type, operand, path, element)
+      }
+      default:
+        return operand
+    }
+  }
+
+  // Array paths are compared with whole arrays or with single elements
+  private _castQueryValue(
+    type: unknown,
+    value: unknown,
+    path: string,
+    options?: FieldOptions
+  ): unknown {
+    if (value instanceof RegExp) return value
+    if (type instanceof Schema && isPlainObject(value)) return type.castQuery(value)
+    if (isArrayType(type) && !Array.isArray(value)) {
+      const element = elementOptions({ ...options, type })
+      return this._castQueryValue(element.type, value, path, element)
+    }
+    return this._castValue(type, value, path, options)
+  }
+
+  private _castUpdateOperand(operator: string, path: string, operand: unknown): unknown {
+    const options = this._pathOptions(path)
+    const type = options?.type
+    switch (operator) {
+      case '$set':
+      case '$setOnInsert':
+      case '$min':
+      case '$max':
+        return this._castValue(type, operand, path, options)
+      case '$inc':
+      case '$dec':
+      case '$mul': {
+        // Decimal128 operands stay exact (on Decimal128 paths and paths without a type)
+        const decimal =
+          scalarKind(type) === 'Decimal128' || (type === undefined && operand instanceof Decimal128)
+        return this._castValue(decimal ? Decimal128 : Number, operand, path)
+      }
+      case '$push':
+      case '$addToSet': {
+        if (!isArrayType(type)) return operand
+        const element = elementOptions({ ...options, type })
+        if (isEachModifier(operand)) {
+          return {
+            ...operand,
+            $each: operand.$each.map(value => this._castValue(element.type, value, path, element))
+          }
+        }
+        return this._castValue(element.type, operand, path, element)
+      }
+      case '$pull': {
+        if (!isArrayType(type)) return operand
+        const element = elementOptions({ ...options, type })
+        return this._castCondition(element.type, operand, path, element)
+      }
+      case '$pullAll': {
+        if (!isArrayType(type) || !Array.isArray(operand)) return operand
+        const element = elementOptions({ ...options, type })
+        return operand.map(value => this._castValue(element.type, value, path, element))
+      }
+      default:
+        return operand
+    }
+  }
+
   getOptions(): SchemaOptions {
     return this._options
   }
 
+  // Name of the version field, or null when versioning is disabled
+  getVersionKey(): string | null {
+    if (this._options.versionKey === false) return null
+    return this._options.versionKey ?? '__v'
+  }
+
   getTimestampConfig(): { createdAt: string; updatedAt: string } | null {
     if (!this._options.timestamps) return null
 
@@ -498,21 +1209,78 @@ export class Schema<T extends object = Record<string, unknown>> {
     return this
   }
 
-  async validate(doc: Partial<T>): Promise<void> {
-    const errors: string[] = []
+  /**
+   * Validate a document, collecting every failing path into one ValidationError
+   * @param doc Document to validate
+   * @param paths Only validate these paths (and the paths inside them)
+   * @param castErrors Cast failures to report too; their paths are not validated further
+   */
+  async validate(doc: Partial<T>, paths?: string[], castErrors: CastError[] = []): Promise<void> {
+    const issues: Array<ValidationIssue | undefined> = castErrors.map(error => ({
+      error,
+      label: ''
+    }))
+    const pending: Promise<void>[] = []
+    this._collectErrors(doc, '', '', paths, castErrors, issues, pending)
+    await Promise.all(pending)
+    const error = toValidationError(issues)
+    if (error) throw error
+  }
+
+  // Like validate(), but synchronous: async validators are skipped and the error is returned
+  validateSync(
+    doc: Partial<T>,
+    paths?: string[],
+    castErrors: CastError[] = []
+  ): ValidationError | undefined {
+    const issues: Array<ValidationIssue | undefined> = castErrors.map(error => ({
+      error,
+      label: ''
+    }))
+    this._collectErrors(doc, '', '', paths, castErrors, issues, null)
+    return toValidationError(issues)
+  }
 
+  // Add the failing validators of a (sub)document to `issues`
+  // `label` starts the messages of the subdocument ('address: '), and async validators add
+  // their results to `pending` (or are skipped when it is null)
+  private _collectErrors(
+    doc: Partial<T>,
+    prefix: string,
+    label: string,
+    paths: string[] | undefined,
+    castErrors: CastError[],
+    issues: Array<ValidationIssue | undefined>,
+    pending: Promise<void>[] | null
+  ): void {
     for (const [fieldName, options] of this._fieldOptions.entries()) {
       const value = doc[fieldName]
       const fieldStr = String(fieldName)
+      const path = prefix + fieldStr
+
+      if (castErrors.some(error => error.path === path)) continue
+      if (!reachesPath(paths, path)) continue
+      const selected = selectsPath(paths, path)
+
+      const validatorError = (kind: string, message: string, properties = {}) =>
+        new ValidatorError({
+          kind,
+          path,
+          value,
+          message: formatMessage(message, { PATH: path, VALUE: value, ...properties })
+        })
+      const fail = (kind: string, message: string, properties = {}) => {
+        issues.push({ error: validatorError(kind, message, properties), label })
+      }
 
       // Required validation
-      if (options.required) {
+      if (options.required && selected) {
         const [isRequired, errorMsg] = Array.isArray(options.required)
           ? options.required
           : [options.required, `${fieldStr} is required`]
 
         if (isRequired && (value === undefined || value === null)) {
-          errors.push(errorMsg)
+          fail('required', errorMsg)
           continue
         }
       }
@@ -522,22 +1290,56 @@ export class Schema<T extends object = Record<string, unknown>> {
 
       // Validate nested schema (subdocument)
       if (options.type instanceof Schema) {
-        try {
-          if (Array.isArray(value)) {
-            // Array of subdocuments
-            for (const subDoc of value as Partial<any>[]) {
-              await options.type.validate(subDoc)
-            }
-          } else if (typeof value === 'object') {
-            // Single subdocument
-            await options.type.validate(value)
-          }
-        } catch (err: any) {
-          errors.push(`${fieldStr}: ${err.message}`)
+        const subLabel = `${label}${fieldStr}: `
+        if (Array.isArray(value)) {
+          // Array of subdocuments
+          value.forEach((subDoc, i) => {
+            options.type._collectErrors(
+              subDoc,
+              `${path}.${i}.`,
+              subLabel,
+              paths,
+              castErrors,
+              issues,
+              pending
+            )
+          })
+        } else if (typeof value === 'object') {
+          // Single subdocument
+          options.type._collectErrors(
+            value,
+            `${path}.`,
+            subLabel,
+            paths,
+            castErrors,
+            issues,
+            pending
+          )
+        }
+        continue
+      }
+
+      // Validate the subdocuments of a map
+      const valueSchema = isMapType(options.type) ? mapValueOptions(options).type : undefined
+      if (valueSchema instanceof Schema) {
+        const entries = value instanceof Map ? [...value] : Object.entries(value as object)
+        for (const [key, subDoc] of entries) {
+          if (!isPlainObject(subDoc)) continue
+          valueSchema._collectErrors(
+            subDoc,
+            `${path}.${key}.`,
+            `${label}${fieldStr}.${key}: `,
+            paths,
+            castErrors,
+            issues,
+            pending
+          )
         }
         continue
       }
 
+      if (!selected) continue
+
       // Min validation (numbers and dates)
       if (options.min !== undefined) {
         const [minValue, errorMsg] = Array.isArray(options.min)
@@ -545,11 +1347,13 @@ export class Schema<T extends object = Record<string, unknown>> {
           : [options.min, `${fieldStr} must be at least ${options.min}`]
 
         if (typeof value === 'number' && value < minValue) {
-          errors.push(errorMsg)
+          fail('min', errorMsg, { MIN: minValue })
+        } else if (value instanceof Decimal128 && value.compare(minValue) < 0) {
+          fail('min', errorMsg, { MIN: minValue })
         } else {
           const dateValue = value as unknown
           if (dateValue instanceof Date && dateValue < new Date(minValue)) {
-            errors.push(errorMsg)
+            fail('min', errorMsg, { MIN: minValue })
           }
         }
       }
@@ -561,11 +1365,13 @@ export class Schema<T extends object = Record<string, unknown>> {
           : [options.max, `${fieldStr} must be at most ${options.max}`]
 
         if (typeof value === 'number' && value > maxValue) {
-          errors.push(errorMsg)
+          fail('max', errorMsg, { MAX: maxValue })
+        } else if (value instanceof Decimal128 && value.compare(maxValue) > 0) {
+          fail('max', errorMsg, { MAX: maxValue })
         } else {
           const dateValue = value as unknown
           if (dateValue instanceof Date && dateValue > new Date(maxValue)) {
-            errors.push(errorMsg)
+            fail('max', errorMsg, { MAX: maxValue })
           }
         }
       }
@@ -580,7 +1386,7 @@ export class Schema<T extends object = Record<string, unknown>> {
           (typeof value === 'string' || Array.isArray(value)) &&
           (value as string | unknown[]).length < minLen
         ) {
-          errors.push(errorMsg)
+          fail('minlength', errorMsg, { MINLENGTH: minLen })
         }
       }
 
@@ -594,7 +1400,7 @@ export class Schema<T extends object = Record<string, unknown>> {
           (typeof value === 'string' || Array.isArray(value)) &&
           (value as string | unknown[]).length > maxLen
         ) {
-          errors.push(errorMsg)
+          fail('maxlength', errorMsg, { MAXLENGTH: maxLen })
         }
       }
 
@@ -608,7 +1414,8 @@ export class Schema<T extends object = Record<string, unknown>> {
           : options.enum
 
         if (!enumConfig.values.includes(value)) {
-          errors.push(
+          fail(
+            'enum',
             enumConfig.message || `${fieldStr} must be one of: ${enumConfig.values.join(', ')}`
           )
         }
@@ -621,7 +1428,7 @@ export class Schema<T extends object = Record<string, unknown>> {
           : [options.match, `${fieldStr} does not match the required pattern`]
 
         if (!pattern.test(value)) {
-          errors.push(errorMsg)
+          fail('regexp', errorMsg)
         }
       }
 
@@ -631,17 +1438,25 @@ export class Schema<T extends object = Record<string, unknown>> {
           typeof options.validate === 'function'
             ? { validator: options.validate, message: `${fieldStr} validation failed` }
             : options.validate
-
-        const isValid = await validator.validator(value)
-        if (!isValid) {
-          errors.push(validator.message || `${fieldStr} validation failed`)
+        const message = validator.message || `${fieldStr} validation failed`
+
+        const isValid = validator.validator(value)
+        if (isValid instanceof Promise) {
+          // Async validators fill the slot they reserve, so messages keep the field order
+          if (pending) {
+            const slot = issues.length
+            issues.push(undefined)
+            pending.push(
+              isValid.then(valid => {
+                if (!valid) issues[slot] = { error: validatorError('user defined', message), label }
+              })
+            )
+          }
+        } else if (!isValid) {
+          fail('user defined', message)
         }
       }
     }
-
-    if (errors.length > 0) {
-      throw new ValidationError(errors.join('; '))
-    }
   }
 
   /**
@@ -0,0 +1,207 @@
+import { ObjectId } from './objectid'
+import type { StorageStrategy, StorageTransaction } from './storage'
+import type { Database } from './database'
+
+// Options accepted by ClientSession.withTransaction()
+export type TransactionOptions = {
+  // Maximum number of attempts when a commit hits a transient write conflict (default: 3)
+  maxRetries?: number
+}
+
+/**
+ * Client session (like mongoose's ClientSession)
+ * Groups writes on several models into one multi-document transaction.
+ *
+ * @example
+ * ```typescript
+ * const session = db.startSession()
+ * await session.withTransaction(async () => {
+ *   await Account.updateOne({ _id: from }, { $inc: { balance: -100 } }, { session })
+ *   await Account.updateOne({ _id: to }, { $inc: { balance: 100 } }, { session })
+ * })
+ * await session.endSession()
+ * ```
+ */
+export class ClientSession {
+  readonly id: ObjectId
+  private _database?: Database
+  private _inTransaction = false
+  private _ended = false
+  // Storage -> its open transaction (discriminator models share the base model's storage)
+  private _transactions: Map<StorageStrategy<any>, Promise<StorageTransaction<any>>> = new Map()
+  // Change stream notifications held back until the transaction commits
+  private _pendingChanges: Array<() => void> = []
+
+  constructor(database?: Database) {
+    this.id = new ObjectId()
+    this._database = database
+  }
+
+  get database(): Database | undefined {
+    return this._database
+  }
+
+  get hasEnded(): boolean {
+    return this._ended
+  }
+
+  inTransaction(): boolean {
+    return this._inTransaction
+  }
+
+  startTransaction(): void {
+    if (this._ended) {
+      throw new Error('Cannot start a transaction on an ended session')
+    }
+    if (this._inTransaction) {
+      throw new Error('Transaction already in progress')
+    }
+    this._inTransaction = true
+  }
+
+  async commitTransaction(): Promise<void> {
+    if (!this._inTransaction) {
+      throw new Error('No transaction started')
+    }
+
+    let transactions: StorageTransaction<any>[]
+    try {
+      transactions = await Promise.all(this._transactions.values())
+      // Verify every participant first so a conflict leaves all storages untouched
+      for (const transaction of transactions) {
+        await transaction.prepare()
+      }
+    } catch (error) {
+      await this._abortAfter(error)
+      throw error
+    }
+
+    // Every participant is prepared, so a commit should only fail on an I/O error. Storages that
+    // committed before such a failure stay committed (there is no two-phase commit across
+    // storages); the failed one and the rest are rolled back, and the session leaves the
+    // transaction either way.
+    const changes = this._pendingChanges
+    let committed = 0
+    try {
+      for (const transaction of transactions) {
+        await transaction.commit()
+        committed++
+      }
+    } catch (error) {
+      for (const transaction of transactions.slice(committed)) {
+        try {
+          await transaction.abort()
+        } catch (abortError) {
+          if (error instanceof Error) Object.assign(error, { abortError })
+        }
+      }
+      throw error
+    } finally {
+      this._reset()
+    }
+    for (const publish of changes) {
+      publish()
+    }
+  }
+
+  async abortTransaction(): Promise<void> {
+    if (!this._inTransaction) {
+      throw new Error('No transaction started')
+    }
+
+    // Abort every storage's transaction, then report the first failure
+    let failure: { error: unknown } | null = null
+    for (const pending of this._transactions.values()) {
+      try {
+        const transaction = await pending
+        await transaction.abort()
+      } catch (error) {
+        failure ??= { error }
+      }
+    }
+    this._reset()
+    if (failure) throw failure.error
+  }
+
+  // Abort after `error`; a failure to abort is attached to it as `abortError`
+  private async _abortAfter(error: unknown): Promise<void> {
+    try {
+      await this.abortTransaction()
+    } catch (abortError) {
+      if (error instanceof Error) Object.assign(error, { abortError })
+    }
+  }
+
+  /**
+   * Run fn inside a transaction, committing on success and aborting on error.
+   * Commits that fail with a TransientTransactionError are retried.
+   */
+  async withTransaction<R>(
+    fn: (session: ClientSession) => Promise<R>,
+    options: TransactionOptions = {}
+  ): Promise<R> {
+    const maxRetries = options.maxRetries ?? 3
+
+    for (let attempt = 1; ; attempt++) {
+      this.startTransaction()
+      try {
+        const result = await fn(this)
+        await this.commitTransaction()
+        return result
+      } catch (error) {
+        if (this._inTransaction) {
+          await this._abortAfter(error)
+        }
+        const transient =
+          typeof (error as { hasErrorLabel?: unknown })?.hasErrorLabel === 'function' &&
+          (error as { hasErrorLabel: (label: string) => boolean }).hasErrorLabel(
+            'TransientTransactionError'
+          )
+        if (!transient || attempt >= maxRetries) {
+          throw error
+        }
+      }
+    }
+  }
+
+  async endSession(): Promise<void> {
+    if (this._inTransaction) {
+      await this.abortTransaction()
+    }
+    this._ended = true
+  }
+
+  /**
+   * Get the storage view a model should use inside the current transaction
+   * Starts a storage-level transaction on first use
+   * @internal
+   */
+  async _getTransactionStorage<T extends object>(
+    storage: StorageStrategy<T>
+  ): Promise<StorageStrategy<T>> {
+    let pending = this._transactions.get(storage)
+    if (!pending) {
+      if (typeof storage.beginTransaction !== 'function') {
+        throw new Error('Storage strategy does not support transactions')
+      }
+      pending = storage.beginTransaction()
+      this._transactions.set(storage, pending)
+    }
+    const transaction = await pending
+    return transaction.storage
+  }
+
+  /**
+   * Hold a change notification until the transaction commits
+   * @internal
+   */
+  _queueChange(publish: () => void): void {
+    this._pendingChanges.push(publish)
+  }
+
+  private _reset(): void {
+    this._transactions.clear()
+    this._pendingChanges = []
+    this._inTransaction = false
+  }
+}
@@ -1,5 +1,7 @@
-import { StorageStrategy, QueryMatcher, SchemaRecord } from './storage-strategy'
+import { StorageStrategy, StorageTransaction, QueryMatcher, SchemaRecord } from './storage-strategy'
 import { DuplicateKeyError } from '../schema'
+import { SnapshotTransaction } from './snapshot-transaction'
+import { serializeDocument, deserializeDocument } from './serialization'
 import * as fs from 'fs'
 import * as path from 'path'
 import { promisify } from 'util'
@@ -188,7 +190,7 @@ export class FileStorageStrategy<T extends object> implements StorageStrategy<T>
 
       let offset = 0
       for (const line of lines) {
-        const doc: T = JSON.parse(line)
+        const doc = deserializeDocument<T>(line)
         const id = this._getDocId(doc)
         const length = Buffer.byteLength(line, 'utf-8')
 
@@ -216,7 +218,7 @@ export class FileStorageStrategy<T extends object> implements StorageStrategy<T>
 
       let offset = 0
       for (const line of lines) {
-        const doc: T = JSON.parse(line)
+        const doc = deserializeDocument<T>(line)
         const id = this._getDocId(doc)
         const length = Buffer.byteLength(line, 'utf-8')
 
@@ -265,7 +267,7 @@ export class FileStorageStrategy<T extends object> implements StorageStrategy<T>
       const buffer = Buffer.allocUnsafe(entry.length)
       await read(fd, buffer, 0, entry.length, entry.offset)
       const line = buffer.toString('utf-8')
-      return JSON.parse(line)
+      return deserializeDocument<T>(line)
     } finally {
       await close(fd)
     }
@@ -433,7 +435,7 @@ export class FileStorageStrategy<T extends object> implements StorageStrategy<T>
 
   private async _appendToWal(doc: T): Promise<void> {
     const id = this._getDocId(doc)
-    const line = JSON.stringify(doc) + '\n'
+    const line = serializeDocument(doc) + '\n'
     const length = Buffer.byteLength(line, 'utf-8') - 1 // Exclude newline
     const offset = this._walOffset
 
@@ -523,7 +525,7 @@ export class FileStorageStrategy<T extends object> implements StorageStrategy<T>
 
       for (const doc of this._data) {
         const id = this._getDocId(doc)
-        const line = JSON.stringify(doc) + '\n'
+        const line = serializeDocument(doc) + '\n'
         const length = Buffer.byteLength(line, 'utf-8') - 1
 
         lines.push(line)
@@ -755,6 +757,17 @@ export class FileStorageStrategy<T extends object> implements StorageStrategy<T>
     return this._data.filter(matcher)
   }
 
+  // Start a copy-on-write transaction; committed changes are appended to the WAL
+  async beginTransaction(): Promise<StorageTransaction<T>> {
+    await this._ensureInitialized()
+    await this._waitForCompaction()
+    const indexes = Array.from(this._queryIndexes.values()).map(meta => ({
+      fields: meta.fields,
+      unique: meta.unique
+    }))
+    return SnapshotTransaction.begin(this, indexes)
+  }
+
   // ============================================================================
   // SCHEMA TRACKING METHODS
   // ============================================================================
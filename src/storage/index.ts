@@ -1,5 +1,5 @@
 // Storage exports
-export { StorageStrategy, SchemaRecord } from './storage-strategy'
+export { StorageStrategy, StorageTransaction, SchemaRecord } from './storage-strategy'
 export { MemoryStorageStrategy } from './memory-strategy'
 export { FileStorageStrategy, FileStorageOptions } from './file-strategy'
 export { SqliteStorageStrategy, SqliteStorageOptions } from './sqlite-strategy'
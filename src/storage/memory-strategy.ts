@@ -1,5 +1,7 @@
-import { StorageStrategy, QueryMatcher, SchemaRecord } from './storage-strategy'
+import { StorageStrategy, StorageTransaction, QueryMatcher, SchemaRecord } from './storage-strategy'
 import { DuplicateKeyError } from '../schema'
+import { SnapshotTransaction } from './snapshot-transaction'
+import { encodeGeohash, geohashCover, GEOHASH_MAX_PRECISION, toPoint } from '../geo'
 
 // Index metadata structure
 type IndexMetadata<T> = {
@@ -8,10 +10,21 @@ type IndexMetadata<T> = {
   unique: boolean
 }
 
+// Geohash spatial index for a 2dsphere field
+type GeoIndexMetadata<T> = {
+  field: string
+  // cells[p - 1] maps each geohash prefix of length p to the points inside that cell
+  cells: Array<Map<string, Set<T>>>
+  hashes: Map<T, string>
+  // Documents whose geometry is not a point are always candidates
+  shapes: Set<T>
+}
+
 // In-memory storage strategy with efficient indexing
 export class MemoryStorageStrategy<T extends object> implements StorageStrategy<T> {
   private _data: T[] = []
   private _indexes: Map<string, IndexMetadata<T>> = new Map()
+  private _geoIndexes: Map<string, GeoIndexMetadata<T>> = new Map()
 
   async initialize(): Promise<void> {
     // No initialization needed for memory storage
@@ -57,6 +70,7 @@ export class MemoryStorageStrategy<T extends object> implements StorageStrategy<
   async clear(): Promise<void> {
     this._data = []
     this._indexes.clear()
+    this._geoIndexes.clear()
   }
 
   async drop(): Promise<void> {
@@ -100,6 +114,10 @@ export class MemoryStorageStrategy<T extends object> implements StorageStrategy<
         indexMeta.map.get(compositeKey)!.push(doc)
       }
     }
+
+    for (const geoIndex of this._geoIndexes.values()) {
+      this._buildGeoIndex(geoIndex)
+    }
   }
 
   updateIndexForDocument(oldDoc: T | null, newDoc: T | null): void {
@@ -129,6 +147,13 @@ export class MemoryStorageStrategy<T extends object> implements StorageStrategy<
         indexMeta.map.get(newKey)!.push(newDoc)
       }
     }
+
+    // Geo entries are tracked by document identity; updates mutate the stored document in place
+    const stored = newDoc ?? oldDoc
+    for (const geoIndex of this._geoIndexes.values()) {
+      if (stored) this._removeFromGeoIndex(geoIndex, stored)
+      if (newDoc) this._addToGeoIndex(geoIndex, newDoc)
+    }
   }
 
   private _updateIndexes(doc: T): void {
@@ -137,6 +162,94 @@ export class MemoryStorageStrategy<T extends object> implements StorageStrategy<
       if (!indexMeta.map.has(compositeKey)) indexMeta.map.set(compositeKey, [])
       indexMeta.map.get(compositeKey)!.push(doc)
     }
+    for (const geoIndex of this._geoIndexes.values()) {
+      this._addToGeoIndex(geoIndex, doc)
+    }
+  }
+
+  // Spatial index management (2dsphere)
+  async createGeoIndex(field: string): Promise<void> {
+    const geoIndex: GeoIndexMetadata<T> = {
+      field,
+      cells: [],
+      hashes: new Map(),
+      shapes: new Set()
+    }
+    this._buildGeoIndex(geoIndex)
+    this._geoIndexes.set(field, geoIndex)
+  }
+
+  private _buildGeoIndex(geoIndex: GeoIndexMetadata<T>): void {
+    geoIndex.cells = Array.from({ length: GEOHASH_MAX_PRECISION }, () => new Map())
+    geoIndex.hashes.clear()
+    geoIndex.shapes.clear()
+    for (const doc of this._data) {
+      this._addToGeoIndex(geoIndex, doc)
+    }
+  }
+
+  private _addToGeoIndex(geoIndex: GeoIndexMetadata<T>, doc: T): void {
+    if (geoIndex.hashes.has(doc) || geoIndex.shapes.has(doc)) {
+      this._removeFromGeoIndex(geoIndex, doc)
+    }
+
+    const value = geoIndex.field
+      .split('.')
+      .reduce<unknown>((obj, key) => (obj as Record<string, unknown> | undefined)?.[key], doc)
+    if (value === undefined || value === null) return
+
+    const point = toPoint(value)
+    if (!point) {
+      geoIndex.shapes.add(doc)
+      return
+    }
+
+    const hash = encodeGeohash(point[1], point[0], GEOHASH_MAX_PRECISION)
+    geoIndex.hashes.set(doc, hash)
+    for (let precision = 1; precision <= GEOHASH_MAX_PRECISION; precision++) {
+      const cells = geoIndex.cells[precision - 1]
+      const cell = hash.slice(0, precision)
+      if (!cells.has(cell)) cells.set(cell, new Set())
+      cells.get(cell)!.add(doc)
+    }
+  }
+
+  private _removeFromGeoIndex(geoIndex: GeoIndexMetadata<T>, doc: T): void {
+    geoIndex.shapes.delete(doc)
+    const hash = geoIndex.hashes.get(doc)
+    if (hash === undefined) return
+
+    geoIndex.hashes.delete(doc)
+    for (let precision = 1; precision <= GEOHASH_MAX_PRECISION; precision++) {
+      const cells = geoIndex.cells[precision - 1]
+      const cell = hash.slice(0, precision)
+      const bucket = cells.get(cell)
+      bucket?.delete(doc)
+      if (bucket?.size === 0) cells.delete(cell)
+    }
+  }
+
+  async findDocumentsWithin(
+    matcher: QueryMatcher<T>,
+    field: string,
+    center: [number, number],
+    radiusMeters: number
+  ): Promise<T[] | null> {
+    const geoIndex = this._geoIndexes.get(field)
+    if (!geoIndex) return null
+
+    const cover = geohashCover(center, radiusMeters)
+    if (!cover) {
+      return [...geoIndex.hashes.keys(), ...geoIndex.shapes].filter(matcher)
+    }
+
+    const candidates = new Set<T>(geoIndex.shapes)
+    for (const cell of cover) {
+      for (const doc of geoIndex.cells[cell.length - 1].get(cell) ?? []) {
+        candidates.add(doc)
+      }
+    }
+    return [...candidates].filter(matcher)
   }
 
   // Unique constraint checking
@@ -203,6 +316,15 @@ export class MemoryStorageStrategy<T extends object> implements StorageStrategy<
     return this._data.filter(matcher)
   }
 
+  // Start a transaction over a copy-on-write view of the collection
+  async beginTransaction(): Promise<StorageTransaction<T>> {
+    const indexes = Array.from(this._indexes.values()).map(meta => ({
+      fields: meta.fields,
+      unique: meta.unique
+    }))
+    return SnapshotTransaction.begin(this, indexes)
+  }
+
   // ============================================================================
   // SCHEMA TRACKING METHODS (Stubs - memory storage is not persistent)
   // ============================================================================
@@ -0,0 +1,41 @@
+import { Decimal128 } from '../decimal128'
+import { UUID } from '../uuid'
+
+/**
+ * JSON text of stored documents
+ * Values without a JSON equivalent are written as Extended JSON and read back into their
+ * classes: Decimal128 as { $numberDecimal }, UUID as { $uuid } and binary data as { $binary }.
+ * Everything else (including ObjectIds and dates, stored as strings) is plain JSON, so SQL
+ * storages can still query it with json_extract.
+ */
+export function serializeDocument(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, item: unknown) {
+    // `item` is the result of toJSON(); the holder still has the original value
+    const original = this[key]
+    if (original instanceof UUID) return { $uuid: original.toString() }
+    if (original instanceof Uint8Array) {
+      return { $binary: { base64: Buffer.from(original).toString('base64'), subType: '00' } }
+    }
+    return item
+  })
+}
+
+export function deserializeDocument<D>(text: string): D {
+  return JSON.parse(text, (_key, value: unknown) => reviveValue(value)) as D
+}
+
+function reviveValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return value
+  const record = value as Record<string, unknown>
+  const keys = Object.keys(record)
+  if (keys.length !== 1) return value
+
+  if (typeof record.$numberDecimal === 'string') return new Decimal128(record.$numberDecimal)
+  if (typeof record.$uuid === 'string') return new UUID(record.$uuid)
+  const binary = record.$binary as { base64?: unknown; subType?: unknown } | undefined
+  if (binary && typeof binary.base64 === 'string') {
+    const bytes = Buffer.from(binary.base64, 'base64')
+    return binary.subType === '04' ? new UUID(bytes) : bytes
+  }
+  return value
+}
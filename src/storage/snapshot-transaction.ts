@@ -0,0 +1,324 @@
+import { StorageStrategy, StorageTransaction, QueryMatcher } from './storage-strategy'
+import { DuplicateKeyError, WriteConflictError } from '../schema'
+
+// Index definition copied from the source storage into the snapshot
+export type SnapshotIndexDefinition<T> = {
+  fields: Array<keyof T>
+  unique: boolean
+}
+
+/**
+ * Deep-clone a stored document. Plain objects, arrays and dates are copied;
+ * class instances such as ObjectId are immutable and shared by reference.
+ */
+export function cloneDocument<D>(value: D): D {
+  if (Array.isArray(value)) {
+    return value.map(item => cloneDocument(item)) as D
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as D
+  }
+  if (value instanceof Map) {
+    const MapClass = value.constructor as MapConstructor
+    return new MapClass([...value].map(([key, item]) => [key, cloneDocument(item)])) as D
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.from(value) as D
+  }
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const copy: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneDocument(item)
+    }
+    return copy as D
+  }
+  return value
+}
+
+function getDocId(doc: object): string {
+  const id = (doc as Record<string, unknown>)._id
+  return id !== undefined && id !== null ? String(id) : JSON.stringify(doc)
+}
+
+// Committed document a transaction's copy was made from, serialized as it was read
+type CopySource<T> = {
+  live: T
+  base: string
+}
+
+/**
+ * Storage view of a SnapshotTransaction
+ * Reads see the committed documents with the transaction's writes laid over them. Committed
+ * documents are handed out as copies, so changes to them stay private until the commit.
+ */
+class TransactionStorage<T extends object> implements StorageStrategy<T> {
+  private _target: StorageStrategy<T>
+  private _uniqueIndexes: Array<Array<keyof T>>
+  // Current state of every document the transaction wrote (null once removed)
+  private _writes: Map<string, T | null> = new Map()
+  // Serialized committed state of each written document when it was read (null if inserted)
+  private _bases: Map<string, string | null> = new Map()
+  private _sources: WeakMap<T, CopySource<T>> = new WeakMap()
+  // Documents insertMany() checks the rest of its batch against
+  private _indexed: T[] = []
+
+  constructor(target: StorageStrategy<T>, indexes: Array<SnapshotIndexDefinition<T>>) {
+    this._target = target
+    this._uniqueIndexes = indexes.filter(index => index.unique).map(index => index.fields)
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load - documents are read from the target on demand
+  }
+
+  async getAll(): Promise<T[]> {
+    return this._overlay(await this._target.getAll(), () => true)
+  }
+
+  async add(doc: T): Promise<void> {
+    const id = getDocId(doc)
+    if (!this._bases.has(id)) this._bases.set(id, null)
+    this._writes.set(id, doc)
+  }
+
+  async addMany(docs: T[]): Promise<void> {
+    for (const doc of docs) {
+      await this.add(doc)
+    }
+  }
+
+  async update(oldDoc: T, newDoc: T): Promise<void> {
+    const source = this._sources.get(oldDoc)
+    if (source && newDoc !== oldDoc) this._sources.set(newDoc, source)
+    this._writes.set(this._touch(oldDoc), newDoc)
+  }
+
+  async remove(doc: T): Promise<void> {
+    this._writes.set(this._touch(doc), null)
+  }
+
+  async removeMany(docs: T[]): Promise<void> {
+    for (const doc of docs) {
+      await this.remove(doc)
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.removeMany(await this.getAll())
+  }
+
+  async createIndex(
+    fields: keyof T | Array<keyof T>,
+    options?: { unique?: boolean }
+  ): Promise<void> {
+    if (options?.unique) {
+      this._uniqueIndexes.push(Array.isArray(fields) ? fields : [fields])
+    }
+  }
+
+  async rebuildIndexes(): Promise<void> {
+    this._indexed = []
+  }
+
+  updateIndexForDocument(oldDoc: T | null, newDoc: T | null): void {
+    if (!oldDoc && newDoc) this._indexed.push(newDoc)
+  }
+
+  checkUniqueConstraints(doc: Partial<T>, excludeDoc?: T): void {
+    const excludeId = excludeDoc ? getDocId(excludeDoc) : undefined
+    for (const fields of this._uniqueIndexes) {
+      const keyOf = (d: Partial<T>) => fields.map(f => String(d[f])).join(':')
+      const key = keyOf(doc)
+      for (const other of [...this._writes.values(), ...this._indexed]) {
+        if (!other || other === excludeDoc || getDocId(other) === excludeId) continue
+        if (keyOf(other) === key) {
+          throw new DuplicateKeyError(fields as string[])
+        }
+      }
+    }
+    // Committed documents the transaction changed still count until it commits
+    const source = excludeDoc && this._sources.get(excludeDoc)
+    this._target.checkUniqueConstraints(doc, source ? source.live : excludeDoc)
+  }
+
+  async findDocuments(
+    matcher: QueryMatcher<T>,
+    indexHint?: {
+      fields: Array<keyof T>
+      values: Record<string, unknown>
+    }
+  ): Promise<T[]> {
+    return this._overlay(await this._target.findDocuments(matcher, indexHint), matcher)
+  }
+
+  /**
+   * Every document the transaction wrote, with its committed state when it was read
+   * @internal
+   */
+  _changes(): Array<{ id: string; base: string | null; doc: T | null }> {
+    return [...this._writes].map(([id, doc]) => ({ id, base: this._bases.get(id)!, doc }))
+  }
+
+  /**
+   * Drop the transaction's writes
+   * @internal
+   */
+  _discard(): void {
+    this._writes.clear()
+    this._bases.clear()
+    this._indexed = []
+  }
+
+  // Lay the transaction's writes over committed documents, copying the ones it has not written
+  private _overlay(live: T[], matcher: QueryMatcher<T>): T[] {
+    const results: T[] = []
+    const seen = new Set<string>()
+    for (const doc of live) {
+      const id = getDocId(doc)
+      if (this._writes.has(id)) {
+        seen.add(id)
+        const written = this._writes.get(id)
+        if (written && matcher(written)) results.push(written)
+      } else if (matcher(doc)) {
+        // Index lookups return their candidates unfiltered
+        const copy = cloneDocument(doc)
+        this._sources.set(copy, { live: doc, base: JSON.stringify(doc) })
+        results.push(copy)
+      }
+    }
+    for (const [id, doc] of this._writes) {
+      if (doc && !seen.has(id) && matcher(doc)) results.push(doc)
+    }
+    return results
+  }
+
+  // Record the committed state of a document the first time the transaction writes it
+  private _touch(doc: T): string {
+    const id = getDocId(doc)
+    if (!this._bases.has(id)) {
+      this._bases.set(id, this._sources.get(doc)?.base ?? null)
+    }
+    return id
+  }
+}
+
+/**
+ * Transaction for storages that keep their documents in memory.
+ * Reads and writes go through a copy-on-write view of the collection that only copies the
+ * documents the transaction reads; on commit its writes are applied to the source storage
+ * through its regular methods.
+ * A commit fails with WriteConflictError if another writer changed one of the
+ * documents this transaction modified (first committer wins). Only those documents
+ * are compared, so the cost of a transaction follows the number of documents it writes.
+ */
+export class SnapshotTransaction<T extends object> implements StorageTransaction<T> {
+  storage: StorageStrategy<T>
+  private _view: TransactionStorage<T>
+  private _target: StorageStrategy<T>
+  private _plan: {
+    inserted: T[]
+    updated: Array<{ live: T; next: T }>
+    removed: T[]
+  } | null = null
+
+  private constructor(target: StorageStrategy<T>, indexes: Array<SnapshotIndexDefinition<T>>) {
+    this._target = target
+    this._view = new TransactionStorage<T>(target, indexes)
+    this.storage = this._view
+  }
+
+  static begin<T extends object>(
+    target: StorageStrategy<T>,
+    indexes: Array<SnapshotIndexDefinition<T>>
+  ): SnapshotTransaction<T> {
+    return new SnapshotTransaction<T>(target, indexes)
+  }
+
+  async prepare(): Promise<void> {
+    const changes = this._view._changes()
+    const ids = new Set(changes.map(change => change.id))
+    const live = await this._target.findDocuments(doc => ids.has(getDocId(doc)))
+    const liveById = new Map(live.map(doc => [getDocId(doc), doc]))
+
+    const plan: NonNullable<SnapshotTransaction<T>['_plan']> = {
+      inserted: [],
+      updated: [],
+      removed: []
+    }
+
+    for (const { id, base, doc } of changes) {
+      const liveDoc = liveById.get(id)
+
+      if (base === null) {
+        // Inserted inside the transaction (and possibly removed again)
+        if (!doc) continue
+        if (liveDoc) {
+          throw new WriteConflictError(`Write conflict: document ${id} was inserted concurrently`)
+        }
+        this._target.checkUniqueConstraints(doc)
+        plan.inserted.push(doc)
+        continue
+      }
+
+      if (!doc) {
+        // Removed inside the transaction
+        if (!liveDoc) continue
+        if (JSON.stringify(liveDoc) !== base) {
+          throw new WriteConflictError(`Write conflict: document ${id} was modified concurrently`)
+        }
+        plan.removed.push(liveDoc)
+        continue
+      }
+
+      if (JSON.stringify(doc) === base) continue
+
+      // Updated inside the transaction
+      if (!liveDoc || JSON.stringify(liveDoc) !== base) {
+        throw new WriteConflictError(`Write conflict: document ${id} was modified concurrently`)
+      }
+      this._target.checkUniqueConstraints(doc, liveDoc)
+      plan.updated.push({ live: liveDoc, next: doc })
+    }
+
+    this._plan = plan
+  }
+
+  async commit(): Promise<void> {
+    if (!this._plan) {
+      await this.prepare()
+    }
+    const { inserted, updated, removed } = this._plan!
+    this._plan = null
+
+    if (removed.length > 0) {
+      await this._target.removeMany(removed)
+    }
+
+    for (const { live, next } of updated) {
+      // Mutate the live document in place so existing references stay valid
+      const liveRecord = live as Record<string, unknown>
+      for (const key of Object.keys(liveRecord)) {
+        if (!(key in next)) {
+          delete liveRecord[key]
+        }
+      }
+      Object.assign(live, cloneDocument(next))
+      await this._target.update(live, live)
+    }
+
+    if (inserted.length > 0) {
+      await this._target.addMany(inserted.map(doc => cloneDocument(doc)))
+    }
+
+    await this._target.rebuildIndexes()
+  }
+
+  async abort(): Promise<void> {
+    this._plan = null
+    this._view._discard()
+  }
+}
@@ -1,5 +1,23 @@
 import type { Query, QueryOptions, Update } from '../model'
 import { ObjectId } from '../objectid'
+import { Decimal128 } from '../decimal128'
+import { UUID } from '../uuid'
+import { serializeDocument } from './serialization'
+import { isOperatorObject } from '../cast'
+import { resolveBsonType, parseMod, bitMask } from '../query-operators'
+import { isEachModifier, type PushModifiers } from '../update-paths'
+
+// SQLite json_type() values for the BSON types that can be told apart in stored JSON
+const SQL_JSON_TYPES: Record<string, string[]> = {
+  double: ['real'],
+  int: ['integer'],
+  number: ['integer', 'real'],
+  string: ['text'],
+  object: ['object'],
+  array: ['array'],
+  bool: ['true', 'false'],
+  null: ['null']
+}
 
 /**
  * Builds SQL queries from MongoDB-style query objects for SQLite
@@ -105,7 +123,8 @@ export class SqlQueryBuilder<T extends object> {
       const clauses = orConditions.map(cond => {
         const { clause, params: condParams } = this.buildWhereClause(cond)
         params.push(...condParams)
-        return `(${clause})`
+        // An empty condition matches every document
+        return `(${clause || '1'})`
       })
       return { clause: clauses.join(' OR '), params }
     }
@@ -115,7 +134,7 @@ export class SqlQueryBuilder<T extends object> {
       const clauses = andConditions.map(cond => {
         const { clause, params: condParams } = this.buildWhereClause(cond)
         params.push(...condParams)
-        return `(${clause})`
+        return `(${clause || '1'})`
       })
       return { clause: clauses.join(' AND '), params }
     }
@@ -125,7 +144,7 @@ export class SqlQueryBuilder<T extends object> {
       const clauses = norConditions.map(cond => {
         const { clause, params: condParams } = this.buildWhereClause(cond)
         params.push(...condParams)
-        return `(${clause})`
+        return `(${clause || '1'})`
       })
       return { clause: `NOT (${clauses.join(' OR ')})`, params }
     }
@@ -134,6 +153,25 @@ export class SqlQueryBuilder<T extends object> {
     const conditions: string[] = []
 
     for (const [field, value] of Object.entries(query)) {
+      if (field === '$jsonSchema') {
+        // bsonType checks need the schema types, which SQLite stores as text
+        throw new Error('$jsonSchema cannot be translated to SQL')
+      }
+
+      if (field === '$where') {
+        throw new Error('$where predicates cannot be translated to SQL')
+      }
+
+      if (field === '$expr') {
+        const expr = this.translateExpression(value)
+        if (!expr) {
+          throw new Error('Unsupported $expr expression for SQL translation')
+        }
+        conditions.push(expr.sql)
+        params.push(...expr.params)
+        continue
+      }
+
       // Skip logical operators (already handled above)
       if (field.startsWith('$')) continue
 
@@ -145,35 +183,137 @@ export class SqlQueryBuilder<T extends object> {
     return { clause: conditions.join(' AND '), params }
   }
 
+  /**
+   * Check whether a query can be translated to SQL
+   * Queries that cannot (e.g. $expr with computed operands) are matched in JavaScript instead.
+   */
+  canTranslate(query: Query<T>): boolean {
+    try {
+      this.buildWhereClause(query)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Translate a $expr condition to SQL, or return null if it needs JavaScript evaluation
+   * Supports comparisons between field paths and string/number/null literals,
+   * combined with $and, $or and $not.
+   */
+  private translateExpression(expr: unknown): { sql: string; params: unknown[] } | null {
+    if (typeof expr !== 'object' || expr === null || Array.isArray(expr)) return null
+    const entries = Object.entries(expr)
+    if (entries.length !== 1) return null
+    const [operator, args] = entries[0]
+
+    if (operator === '$and' || operator === '$or') {
+      if (!Array.isArray(args) || args.length === 0) return null
+      const parts = args.map(arg => this.translateExpression(arg))
+      if (parts.some(part => part === null)) return null
+      const translated = parts as Array<{ sql: string; params: unknown[] }>
+      return {
+        sql: `(${translated.map(part => part.sql).join(operator === '$and' ? ' AND ' : ' OR ')})`,
+        params: translated.flatMap(part => part.params)
+      }
+    }
+
+    if (operator === '$not') {
+      const inner = this.translateExpression(Array.isArray(args) ? args[0] : args)
+      return inner && { sql: `NOT ${inner.sql}`, params: inner.params }
+    }
+
+    if (!Array.isArray(args) || args.length !== 2) return null
+    const a = this.translateExpressionOperand(args[0])
+    const b = this.translateExpressionOperand(args[1])
+    if (!a || !b) return null
+
+    // null and missing values sort before everything else, as in MongoDB
+    switch (operator) {
+      case '$eq':
+        return { sql: `(${a.sql} IS ${b.sql})`, params: [...a.params, ...b.params] }
+      case '$ne':
+        return { sql: `(${a.sql} IS NOT ${b.sql})`, params: [...a.params, ...b.params] }
+      case '$gt':
+        return {
+          sql: `((${b.sql} IS NULL AND ${a.sql} IS NOT NULL) OR COALESCE(${a.sql} > ${b.sql}, 0))`,
+          params: [...b.params, ...a.params, ...a.params, ...b.params]
+        }
+      case '$gte':
+        return {
+          sql: `(${b.sql} IS NULL OR COALESCE(${a.sql} >= ${b.sql}, 0))`,
+          params: [...b.params, ...a.params, ...b.params]
+        }
+      case '$lt':
+        return {
+          sql: `((${a.sql} IS NULL AND ${b.sql} IS NOT NULL) OR COALESCE(${a.sql} < ${b.sql}, 0))`,
+          params: [...a.params, ...b.params, ...a.params, ...b.params]
+        }
+      case '$lte':
+        return {
+          sql: `(${a.sql} IS NULL OR COALESCE(${a.sql} <= ${b.sql}, 0))`,
+          params: [...a.params, ...a.params, ...b.params]
+        }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Translate a $expr operand: a "$field" path or a string/number/null literal
+   */
+  private translateExpressionOperand(operand: unknown): { sql: string; params: unknown[] } | null {
+    if (typeof operand === 'string' && operand.startsWith('$')) {
+      // $$variables only exist inside aggregation expressions
+      if (operand.startsWith('$$')) return null
+      return { sql: `json_extract(data, '$.${operand.slice(1)}')`, params: [] }
+    }
+    if (typeof operand === 'string' || typeof operand === 'number') {
+      return { sql: '?', params: [operand] }
+    }
+    if (operand === null) {
+      return { sql: 'NULL', params: [] }
+    }
+    return null
+  }
+
   /**
    * Build condition for a single field
    */
   private buildFieldCondition(field: string, value: unknown): { sql: string; params: unknown[] } {
+    if (field.includes('.')) return this.buildDottedCondition(field, value)
+    return this.buildValueCondition(`'$.${field}'`, value)
+  }
+
+  /**
+   * Build condition for the JSON path `path` (an SQL expression)
+   */
+  private buildValueCondition(path: string, value: unknown): { sql: string; params: unknown[] } {
     const params: unknown[] = []
 
     // Simple equality (non-object, non-array)
     if (value === null || value === undefined) {
-      return { sql: `json_extract(data, '$.${field}') IS NULL`, params: [] }
+      return { sql: `json_extract(data, ${path}) IS NULL`, params: [] }
     }
 
     if (typeof value !== 'object' || value instanceof ObjectId || value instanceof Date) {
       const serialized = this.serializeValue(value)
       params.push(serialized)
-      return { sql: `json_extract(data, '$.${field}') = ?`, params }
+      return { sql: `json_extract(data, ${path}) = ?`, params }
     }
 
     // Array direct equality
     if (Array.isArray(value)) {
-      const serialized = JSON.stringify(value)
+      const serialized = serializeDocument(value)
       params.push(serialized)
-      return { sql: `json_extract(data, '$.${field}') = json(?)`, params }
+      return { sql: `json_extract(data, ${path}) = json(?)`, params }
     }
 
     // Query operators
     const conditions: string[] = []
 
     for (const [operator, opValue] of Object.entries(value)) {
-      const { sql, params: opParams } = this.translateOperator(field, operator, opValue)
+      const { sql, params: opParams } = this.translateOperator(path, operator, opValue)
       conditions.push(sql)
       params.push(...opParams)
     }
@@ -181,15 +321,83 @@ export class SqlQueryBuilder<T extends object> {
     return { sql: conditions.join(' AND '), params }
   }
 
+  /**
+   * Build condition for a dotted field, which is also matched against each element of the
+   * arrays along it (as in MongoDB, { 'items.sku': 'B' } matches items: [{ sku: 'A' }, { sku: 'B' }])
+   * Negated operators ($ne, $nin, $not, $exists: false) hold when no element matches the
+   * operator they negate.
+   */
+  private buildDottedCondition(field: string, value: unknown): { sql: string; params: unknown[] } {
+    const [first, ...rest] = field.split('.')
+    const anyValue = (condition: unknown) =>
+      this.buildPathCondition(`'$.${first}'`, rest, path =>
+        this.buildValueCondition(path, condition)
+      )
+    const noValue = (condition: unknown) => {
+      const { sql, params } = anyValue(condition)
+      return { sql: `NOT COALESCE(${sql}, 0)`, params }
+    }
+
+    if (!isOperatorObject(value)) return anyValue(value)
+
+    const conditions: string[] = []
+    const params: unknown[] = []
+    for (const [operator, opValue] of Object.entries(value)) {
+      let condition: { sql: string; params: unknown[] }
+      if (operator === '$ne') condition = noValue({ $eq: opValue })
+      else if (operator === '$nin') condition = noValue({ $in: opValue })
+      else if (operator === '$not') {
+        condition = noValue(opValue instanceof RegExp ? { $regex: opValue } : opValue)
+      } else if (operator === '$exists' && !opValue) condition = noValue({ $exists: true })
+      else condition = anyValue({ [operator]: opValue })
+      conditions.push(condition.sql)
+      params.push(...condition.params)
+    }
+    return { sql: conditions.join(' AND '), params }
+  }
+
+  /**
+   * Build `leaf` for the path `path` followed by `rest`, in each element where the path reaches
+   * an array (the element's own path comes from json_each's fullkey)
+   */
+  private buildPathCondition(
+    path: string,
+    rest: string[],
+    leaf: (path: string) => { sql: string; params: unknown[] },
+    depth = 0
+  ): { sql: string; params: unknown[] } {
+    if (rest.length === 0) return leaf(path)
+
+    // `path` always ends with a quoted literal, so segments are appended inside it
+    const [segment, ...remaining] = rest
+    const append = (base: string, suffix: string) => `${base.slice(0, -1)}${suffix}'`
+    if (/^\d+$/.test(segment)) {
+      return this.buildPathCondition(append(path, `[${segment}]`), remaining, leaf, depth)
+    }
+
+    const element = `e${depth}`
+    const inElements = this.buildPathCondition(
+      `${element}.fullkey || '.${segment}'`,
+      remaining,
+      leaf,
+      depth + 1
+    )
+    const inObject = this.buildPathCondition(append(path, `.${segment}`), remaining, leaf, depth)
+    return {
+      sql: `CASE WHEN json_type(data, ${path}) = 'array' THEN EXISTS (SELECT 1 FROM json_each(data, ${path}) ${element} WHERE ${inElements.sql}) ELSE ${inObject.sql} END`,
+      params: [...inElements.params, ...inObject.params]
+    }
+  }
+
   /**
    * Translate MongoDB query operator to SQL
    */
   private translateOperator(
-    field: string,
+    path: string,
     operator: string,
     value: unknown
   ): { sql: string; params: unknown[] } {
-    const fieldExpr = `json_extract(data, '$.${field}')`
+    const fieldExpr = `json_extract(data, ${path})`
     const params: unknown[] = []
 
     switch (operator) {
@@ -314,13 +522,60 @@ export class SqlQueryBuilder<T extends object> {
         }
         // Each element must be in the array
         const conditions = value.map(val => {
-          const serialized = JSON.stringify(val)
+          const serialized = serializeDocument(val)
           params.push(serialized)
           return `json_array_contains(${fieldExpr}, ?)`
         })
         return { sql: conditions.join(' AND '), params }
       }
 
+      case '$type': {
+        // Arrays match 'array' or the type of any element
+        const typeList = Array.isArray(value) ? value : [value]
+        const jsonTypes = typeList.flatMap(type => {
+          const sqlTypes = SQL_JSON_TYPES[resolveBsonType(type as string | number)]
+          if (!sqlTypes) {
+            throw new Error(`Unsupported $type for SQL translation: ${type}`)
+          }
+          return sqlTypes
+        })
+        const placeholders = jsonTypes.map(() => '?').join(', ')
+        const typeExpr = `json_type(data, ${path})`
+        params.push(...jsonTypes, ...jsonTypes)
+        return {
+          sql: `(${typeExpr} IN (${placeholders}) OR (${typeExpr} = 'array' AND EXISTS (SELECT 1 FROM json_each(data, ${path}) WHERE json_each.type IN (${placeholders}))))`,
+          params
+        }
+      }
+
+      case '$mod': {
+        const [divisor, remainder] = parseMod(value)
+        params.push(divisor, remainder)
+        return {
+          sql: `(json_type(data, ${path}) IN ('integer', 'real') AND CAST(${fieldExpr} AS INTEGER) % ? = ?)`,
+          params
+        }
+      }
+
+      case '$bitsAllSet':
+      case '$bitsAnySet':
+      case '$bitsAllClear':
+      case '$bitsAnyClear': {
+        const mask = bitMask(value)
+        const comparison = {
+          $bitsAllSet: '= ?',
+          $bitsAnySet: '!= 0',
+          $bitsAllClear: '= 0',
+          $bitsAnyClear: '!= ?'
+        }[operator]
+        params.push(mask)
+        if (comparison.includes('?')) params.push(mask)
+        return {
+          sql: `(json_type(data, ${path}) = 'integer' AND (${fieldExpr} & ?) ${comparison})`,
+          params
+        }
+      }
+
       case '$elemMatch': {
         // EXISTS (SELECT 1 FROM json_each(field) WHERE conditions)
         const elemConditions: string[] = []
@@ -328,7 +583,7 @@ export class SqlQueryBuilder<T extends object> {
           if (typeof subValue === 'object' && subValue !== null && !Array.isArray(subValue)) {
             // Has operators
             for (const [op, opVal] of Object.entries(subValue)) {
-              const { sql } = this.translateOperator(`value.${subField}`, op, opVal)
+              const { sql } = this.translateOperator(`'$.value.${subField}'`, op, opVal)
               elemConditions.push(
                 sql.replace(
                   `json_extract(data, '$.value.${subField}')`,
@@ -353,7 +608,7 @@ export class SqlQueryBuilder<T extends object> {
         if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
           const innerConditions: string[] = []
           for (const [innerOp, innerValue] of Object.entries(value)) {
-            const { sql, params: innerParams } = this.translateOperator(field, innerOp, innerValue)
+            const { sql, params: innerParams } = this.translateOperator(path, innerOp, innerValue)
             innerConditions.push(sql)
             params.push(...innerParams)
           }
@@ -379,7 +634,7 @@ export class SqlQueryBuilder<T extends object> {
     // Process $set operator
     if (update.$set) {
       for (const [field, value] of Object.entries(update.$set as Record<string, unknown>)) {
-        params.push(JSON.stringify(value))
+        params.push(serializeDocument(value))
         expression = `json_set(${expression}, '$.${field}', json(?))`
       }
     }
@@ -391,27 +646,151 @@ export class SqlQueryBuilder<T extends object> {
       }
     }
 
-    // Process $inc operator
+    // Process $inc operator (a missing field counts as 0)
     if (update.$inc) {
       for (const [field, value] of Object.entries(update.$inc as Record<string, number>)) {
-        params.push(value)
-        expression = `json_set(${expression}, '$.${field}', CAST(json_extract(${expression}, '$.${field}') AS REAL) + ?)`
+        expression = this.buildReadingUpdate(expression, [value], params, (doc, [v]) => {
+          return `json_set(${doc}, '$.${field}', CAST(COALESCE(json_extract(${doc}, '$.${field}'), 0) AS REAL) + ${v})`
+        })
       }
     }
 
     // Process $dec operator (same as $inc but subtract)
     if (update.$dec) {
       for (const [field, value] of Object.entries(update.$dec as Record<string, number>)) {
-        params.push(value)
-        expression = `json_set(${expression}, '$.${field}', CAST(json_extract(${expression}, '$.${field}') AS REAL) - ?)`
+        expression = this.buildReadingUpdate(expression, [value], params, (doc, [v]) => {
+          return `json_set(${doc}, '$.${field}', CAST(COALESCE(json_extract(${doc}, '$.${field}'), 0) AS REAL) - ${v})`
+        })
+      }
+    }
+
+    // Process $mul operator (a missing field becomes 0)
+    if (update.$mul) {
+      for (const [field, value] of Object.entries(update.$mul as Record<string, number>)) {
+        expression = this.buildReadingUpdate(expression, [value], params, (doc, [v]) => {
+          return `json_set(${doc}, '$.${field}', COALESCE(json_extract(${doc}, '$.${field}'), 0) * ${v})`
+        })
+      }
+    }
+
+    // Process $min / $max operators (set when the field is missing or the value is lower / higher)
+    for (const [operator, comparison] of [
+      ['$min', '<'],
+      ['$max', '>']
+    ]) {
+      if (!update[operator]) continue
+      for (const [field, value] of Object.entries(update[operator] as Record<string, unknown>)) {
+        const values = [this.serializeValue(value), serializeDocument(value)]
+        expression = this.buildReadingUpdate(expression, values, params, (doc, [v, json]) => {
+          const current = `json_extract(${doc}, '$.${field}')`
+          return `CASE WHEN json_type(${doc}, '$.${field}') IS NULL OR ${v} ${comparison} ${current} THEN json_set(${doc}, '$.${field}', json(${json})) ELSE ${doc} END`
+        })
+      }
+    }
+
+    // Process $bit operator (and / or / xor, in the order given)
+    if (update.$bit) {
+      for (const [field, operations] of Object.entries(
+        update.$bit as Record<string, Record<string, number>>
+      )) {
+        const entries = Object.entries(operations)
+        const operands = entries.map(([, operand]) => operand)
+        expression = this.buildReadingUpdate(expression, operands, params, (doc, masks) => {
+          let result = `COALESCE(json_extract(${doc}, '$.${field}'), 0)`
+          entries.forEach(([operation], i) => {
+            if (operation === 'and') result = `(${result} & ${masks[i]})`
+            else if (operation === 'or') result = `(${result} | ${masks[i]})`
+            else if (operation === 'xor') {
+              result = `((${result} | ${masks[i]}) - (${result} & ${masks[i]}))`
+            } else throw new Error(`Unknown $bit operation: ${operation}`)
+          })
+          return `json_set(${doc}, '$.${field}', ${result})`
+        })
+      }
+    }
+
+    // Process $currentDate operator
+    if (update.$currentDate) {
+      for (const [field, spec] of Object.entries(update.$currentDate as Record<string, unknown>)) {
+        const isTimestamp = (spec as { $type?: string }).$type === 'timestamp'
+        params.push(JSON.stringify(isTimestamp ? Date.now() : new Date()))
+        expression = `json_set(${expression}, '$.${field}', json(?))`
       }
     }
 
-    // Process $push operator
+    // $setOnInsert only applies when an upsert inserts, which happens in JavaScript
+
+    // Process $push operator ($each with $position, $sort and $slice rebuilds the array)
     if (update.$push) {
       for (const [field, value] of Object.entries(update.$push as Record<string, unknown>)) {
-        params.push(JSON.stringify(value))
-        expression = `json_insert(${expression}, '$.${field}[#]', json(?))`
+        if (!isEachModifier(value)) {
+          params.push(serializeDocument(value))
+          expression = `json_insert(${expression}, '$.${field}[#]', json(?))`
+          continue
+        }
+        const { $each, $position, $sort, $slice } = value as PushModifiers
+        const values = [serializeDocument($each), $position ?? null, $slice ?? null]
+        expression = this.buildReadingUpdate(
+          expression,
+          values,
+          params,
+          (doc, [each, position, slice]) => {
+            const length = `COALESCE(json_array_length(${doc}, '$.${field}'), 0)`
+            const at = `(CASE WHEN ${position} IS NULL THEN ${length} WHEN ${position} < 0 THEN MAX(${length} + ${position}, 0) ELSE MIN(${position}, ${length}) END)`
+            const rows = `SELECT ${doc} -> ('$.${field}[' || e.key || ']') AS j, e.value AS v, CASE WHEN e.key < ${at} THEN e.key ELSE e.key + json_array_length(${each}) END AS ord FROM json_each(${doc}, '$.${field}') e UNION ALL SELECT ${each} -> ('$[' || x.key || ']'), x.value, ${at} + x.key FROM json_each(${each}) x`
+            const order =
+              $sort === undefined
+                ? 'ord'
+                : typeof $sort === 'number'
+                  ? `v ${$sort === -1 ? 'DESC' : 'ASC'}, ord`
+                  : [
+                      ...Object.entries($sort).map(
+                        ([key, direction]) =>
+                          `json_extract(j, '$.${key}') ${direction === -1 ? 'DESC' : 'ASC'}`
+                      ),
+                      'ord'
+                    ].join(', ')
+            const ranked = `SELECT j, ROW_NUMBER() OVER (ORDER BY ${order}) AS rn, COUNT(*) OVER () AS total FROM (${rows})`
+            const kept = `(${slice} IS NULL OR (${slice} >= 0 AND rn <= ${slice}) OR (${slice} < 0 AND rn > total + ${slice}))`
+            return this.buildArrayRebuild(
+              doc,
+              field,
+              `SELECT j, rn AS ord FROM (${ranked}) WHERE ${kept}`
+            )
+          }
+        )
+      }
+    }
+
+    // Process $addToSet operator (appends the values, or $each values, not already present)
+    if (update.$addToSet) {
+      for (const [field, value] of Object.entries(update.$addToSet as Record<string, unknown>)) {
+        const values = isEachModifier(value) ? value.$each : [value]
+        expression = this.buildReadingUpdate(
+          expression,
+          [serializeDocument(values)],
+          params,
+          (doc, [added]) => {
+            const length = `COALESCE(json_array_length(${doc}, '$.${field}'), 0)`
+            const rows = `SELECT ${doc} -> ('$.${field}[' || e.key || ']') AS j, e.key AS ord FROM json_each(${doc}, '$.${field}') e UNION ALL SELECT ${added} -> ('$[' || x.key || ']'), ${length} + x.key FROM json_each(${added}) x WHERE NOT EXISTS (SELECT 1 FROM json_each(${doc}, '$.${field}') e WHERE e.type = x.type AND e.value IS x.value) AND NOT EXISTS (SELECT 1 FROM json_each(${added}) y WHERE y.key < x.key AND y.type = x.type AND y.value IS x.value)`
+            return this.buildArrayRebuild(doc, field, rows)
+          }
+        )
+      }
+    }
+
+    // Process $pullAll operator (removes every element equal to one of the values)
+    if (update.$pullAll) {
+      for (const [field, values] of Object.entries(update.$pullAll as Record<string, unknown[]>)) {
+        expression = this.buildReadingUpdate(
+          expression,
+          [serializeDocument(values)],
+          params,
+          (doc, [pulled]) => {
+            const kept = `(SELECT json_group_array(json(${doc} -> ('$.${field}[' || e.key || ']'))) FROM json_each(${doc}, '$.${field}') e WHERE NOT EXISTS (SELECT 1 FROM json_each(${pulled}) x WHERE x.type = e.type AND x.value IS e.value))`
+            return `CASE WHEN json_type(${doc}, '$.${field}') = 'array' THEN json_set(${doc}, '$.${field}', json(${kept})) ELSE ${doc} END`
+          }
+        )
       }
     }
 
@@ -431,15 +810,45 @@ export class SqlQueryBuilder<T extends object> {
     // Process $rename operator
     if (update.$rename) {
       for (const [oldField, newField] of Object.entries(update.$rename as Record<string, string>)) {
-        expression = `json_set(json_remove(${expression}, '$.${oldField}'), '$.${newField}', json_extract(${expression}, '$.${oldField}'))`
+        expression = this.buildReadingUpdate(expression, [], params, doc => {
+          return `json_set(json_remove(${doc}, '$.${oldField}'), '$.${newField}', json_extract(${doc}, '$.${oldField}'))`
+        })
       }
     }
 
-    // TODO: $pull, $addToSet require more complex logic with CTEs
+    // TODO: $pull requires more complex logic with CTEs
 
     return expression
   }
 
+  /**
+   * Build an update step that reads the current document
+   * The step sees the document as `s.d` and its values as `p.v0`, `p.v1`, ..., so the previous
+   * expression (and its bound parameters) appears once however many times the step reads it.
+   */
+  private buildReadingUpdate(
+    expression: string,
+    values: unknown[],
+    params: unknown[],
+    build: (doc: string, values: string[]) => string
+  ): string {
+    params.push(...values)
+    const refs = values.map((_, i) => `p.v${i}`)
+    const bound = values.length
+      ? `, (SELECT ${values.map((_, i) => `? AS v${i}`).join(', ')}) p`
+      : ''
+    return `(SELECT ${build('s.d', refs)} FROM (SELECT ${expression} AS d) s${bound})`
+  }
+
+  /**
+   * Replace the array at field with the JSON values `j` of rows, in `ord` order
+   * A missing field becomes the new array; a field holding something else is left alone.
+   */
+  private buildArrayRebuild(doc: string, field: string, rows: string): string {
+    const array = `(SELECT json_group_array(json(j)) FROM (SELECT j FROM (${rows}) ORDER BY ord))`
+    return `CASE WHEN json_type(${doc}, '$.${field}') IS NULL OR json_type(${doc}, '$.${field}') = 'array' THEN json_set(${doc}, '$.${field}', json(${array})) ELSE ${doc} END`
+  }
+
   /**
    * Build direct update (no operators) - merge fields into document
    */
@@ -447,7 +856,7 @@ export class SqlQueryBuilder<T extends object> {
     let expression = 'data'
 
     for (const [field, value] of Object.entries(update)) {
-      params.push(JSON.stringify(value))
+      params.push(serializeDocument(value))
       expression = `json_set(${expression}, '$.${field}', json(?))`
     }
 
@@ -463,6 +872,11 @@ export class SqlQueryBuilder<T extends object> {
       return null
     }
 
+    // Stored as Extended JSON objects, which SQL can't compare: matched in JavaScript instead
+    if (value instanceof Decimal128 || value instanceof UUID || value instanceof Uint8Array) {
+      throw new Error(`Cannot compare ${value.constructor.name} values in SQL`)
+    }
+
     if (value instanceof ObjectId) {
       return value.toString()
     }
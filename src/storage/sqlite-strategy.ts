@@ -1,9 +1,10 @@
-import { StorageStrategy, QueryMatcher } from './storage-strategy'
-import { DuplicateKeyError } from '../schema'
+import { StorageStrategy, StorageTransaction, QueryMatcher } from './storage-strategy'
+import { DuplicateKeyError, WriteConflictError } from '../schema'
 import type { Query, QueryOptions, Update } from '../model'
 import type { AggregationPipeline } from '../aggregation'
 import { SqlQueryBuilder } from './sql-query-builder'
 import { SqlAggregationBuilder } from './sql-aggregation-builder'
+import { serializeDocument, deserializeDocument } from './serialization'
 import * as path from 'path'
 import * as fs from 'fs'
 
@@ -20,6 +21,8 @@ try {
 export interface SqliteStorageOptions {
   dataPath: string
   modelName: string
+  // Milliseconds to wait for a lock or an open transaction before failing (default: 5000)
+  busyTimeout?: number
 }
 
 // Unique index metadata for constraint checking
@@ -42,8 +45,13 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
   private _modelName: string
   private _dbFilePath: string
   private _tableName: string
+  private _busyTimeout: number
   private _getDocId: (doc: T) => string
   private _initialized: boolean = false
+  // Open transaction (on its own connection); resolves when it commits or rolls back.
+  // Writes and new transactions wait for it (see _waitForTransaction) right before they run,
+  // so no transaction can start in between.
+  private _transaction: Promise<void> | null = null
   private _pendingIndexes: Array<{
     fields: keyof T | Array<keyof T>
     options?: { unique?: boolean }
@@ -75,6 +83,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     this._modelName = options.modelName
     this._dbFilePath = path.join(this._dataPath, `${this._modelName}.db`)
     this._tableName = `${this._modelName}_docs`
+    this._busyTimeout = options.busyTimeout ?? 5000
 
     // Function to extract document ID (assumes _id field)
     this._getDocId = (doc: T) => {
@@ -92,12 +101,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     }
 
     // Open database
-    this._db = new Database(this._dbFilePath)
-
-    // Enable WAL mode for better concurrency
-    this._db.pragma('journal_mode = WAL')
-    // Set reasonable busy timeout (5 seconds)
-    this._db.pragma('busy_timeout = 5000')
+    this._db = this._openConnection()
 
     // Create table if not exists
     this._db.exec(`
@@ -120,9 +124,22 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
       )
     `)
 
-    // Register custom SQLite functions
-    this._registerCustomFunctions()
+    this._prepareConnection()
+
+    // Mark as initialized
+    this._initialized = true
 
+    // Create any pending indexes
+    for (const { fields, options } of this._pendingIndexes) {
+      await this.createIndex(fields, options)
+    }
+    this._pendingIndexes = []
+  }
+
+  /**
+   * Set up the query builders and prepared statements for the open connection
+   */
+  private _prepareConnection(): void {
     // Initialize query builders
     this._queryBuilder = new SqlQueryBuilder<T>(this._tableName)
     this._aggregationBuilder = new SqlAggregationBuilder<T>(this._tableName, this._db)
@@ -133,25 +150,31 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     )
     this._deleteStmt = this._db.prepare(`DELETE FROM ${this._tableName} WHERE id = ?`)
     this._selectAllStmt = this._db.prepare(`SELECT data FROM ${this._tableName}`)
+  }
 
-    // Mark as initialized
-    this._initialized = true
+  /**
+   * Open a connection to this model's database file
+   */
+  private _openConnection(): DatabaseInstance {
+    const db = new Database(this._dbFilePath)
 
-    // Create any pending indexes
-    for (const { fields, options } of this._pendingIndexes) {
-      await this.createIndex(fields, options)
-    }
-    this._pendingIndexes = []
+    // Enable WAL mode for better concurrency
+    db.pragma('journal_mode = WAL')
+    // Wait for locks held by other connections (5 seconds by default)
+    db.pragma(`busy_timeout = ${this._busyTimeout}`)
+
+    // Register custom SQLite functions
+    this._registerCustomFunctions(db)
+
+    return db
   }
 
   /**
    * Register custom SQLite functions for query operators
    */
-  private _registerCustomFunctions(): void {
-    if (!this._db) return
-
+  private _registerCustomFunctions(db: DatabaseInstance): void {
     // REGEXP function for $regex operator
-    this._db.function('regexp', (pattern: string, text: string | null) => {
+    db.function('regexp', (pattern: string, text: string | null) => {
       if (text === null) return 0
       try {
         return new RegExp(pattern).test(text) ? 1 : 0
@@ -161,7 +184,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     })
 
     // JSON array contains helper for $all operator
-    this._db.function('json_array_contains', (arrayJson: string | null, valueJson: string) => {
+    db.function('json_array_contains', (arrayJson: string | null, valueJson: string) => {
       if (arrayJson === null) return 0
       try {
         const arr = JSON.parse(arrayJson)
@@ -188,13 +211,68 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     const { sql, params } = this._queryBuilder.buildSelectQuery(query, options)
     const stmt = this._db.prepare(sql)
     const rows = stmt.all(...params) as Array<{ data: string }>
-    return rows.map(r => JSON.parse(r.data) as T)
+    return rows.map(r => deserializeDocument<T>(r.data))
+  }
+
+  /**
+   * Step through query results natively, batchSize rows at a time
+   * The rows come from a single statement on a separate read connection, so the
+   * cursor sees one snapshot and this connection stays free for writes between
+   * batches. Inside a transaction the rows are read up front instead, since the
+   * transaction's writes are only visible on its own connection.
+   */
+  async *iterateNative(
+    query: Query<T>,
+    options: QueryOptions<T> = {},
+    batchSize = 1000
+  ): AsyncGenerator<T[]> {
+    if (!this._db) {
+      throw new Error('Database not initialized')
+    }
+
+    const { sql, params } = this._queryBuilder.buildSelectQuery(query, {
+      sort: options.sort,
+      // LIMIT -1 leaves the rows unlimited (OFFSET needs a LIMIT before it)
+      limit: options.limit || -1,
+      skip: options.skip
+    })
+
+    if (this._db.inTransaction) {
+      const rows = this._db.prepare(sql).all(...params) as Array<{ data: string }>
+      for (let i = 0; i < rows.length; i += batchSize) {
+        yield rows.slice(i, i + batchSize).map(r => deserializeDocument<T>(r.data))
+      }
+      return
+    }
+
+    const reader = this._openConnection()
+    try {
+      let batch: T[] = []
+      for (const row of reader.prepare(sql).iterate(...params) as Iterable<{ data: string }>) {
+        batch.push(deserializeDocument<T>(row.data))
+        if (batch.length === batchSize) {
+          yield batch
+          batch = []
+        }
+      }
+      if (batch.length > 0) yield batch
+    } finally {
+      reader.close()
+    }
+  }
+
+  /**
+   * Check whether a query can run natively in SQL
+   */
+  canQueryNative(query: Query<T>): boolean {
+    return this._queryBuilder.canTranslate(query)
   }
 
   /**
    * Execute update natively in SQLite - returns modified count
    */
   async updateNative(query: Query<T>, update: Update<T>): Promise<{ modifiedCount: number }> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db) {
       throw new Error('Database not initialized')
     }
@@ -208,6 +286,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
    * Execute delete natively in SQLite - returns deleted count
    */
   async deleteNative(query: Query<T>): Promise<{ deletedCount: number }> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db) {
       throw new Error('Database not initialized')
     }
@@ -246,6 +325,87 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     return rows as R[]
   }
 
+  /**
+   * Start a native SQLite transaction on this model's database
+   * The transaction runs on its own connection, returned as a storage of its own: reads
+   * outside it see only committed data, and writes or transactions outside it wait until
+   * it finishes (for at most the busy timeout).
+   */
+  async beginTransaction(): Promise<StorageTransaction<T>> {
+    if (!this._db) {
+      throw new Error('Database not initialized')
+    }
+
+    while (this._transaction) {
+      if (!(await this._waitForTransaction())) {
+        throw new WriteConflictError(
+          `Write conflict: ${this._modelName} is still locked by another transaction`
+        )
+      }
+    }
+
+    const storage = new SqliteStorageStrategy<T>({
+      dataPath: this._dataPath,
+      modelName: this._modelName,
+      busyTimeout: this._busyTimeout
+    })
+    storage._db = this._openConnection()
+    storage._uniqueIndexes = this._uniqueIndexes
+    storage._prepareConnection()
+    storage._initialized = true
+    storage._db.exec('BEGIN IMMEDIATE')
+
+    let finish!: () => void
+    this._transaction = new Promise<void>(resolve => {
+      finish = () => {
+        storage.close()
+        this._transaction = null
+        resolve()
+      }
+    })
+    const end = (statement: string) => {
+      try {
+        if (storage._db?.inTransaction) storage._db.exec(statement)
+      } finally {
+        if (storage._db) finish()
+      }
+    }
+
+    return {
+      storage,
+      prepare: async () => {
+        // SQLite holds the write lock for the whole transaction - nothing to verify
+      },
+      commit: async () => end('COMMIT'),
+      abort: async () => end('ROLLBACK')
+    }
+  }
+
+  /**
+   * Wait for the open transaction to finish, for at most the busy timeout
+   * Resolves false if it is still open when the time is up. Callers check `this._transaction`
+   * again after waiting, so nothing can start a transaction between that check and their write.
+   */
+  private async _waitForTransaction(): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), this._busyTimeout)
+    })
+    const outcome = await Promise.race([this._transaction, timeout])
+    clearTimeout(timer)
+    return outcome !== 'timeout'
+  }
+
+  // Writes outside a transaction wait for it, failing instead of waiting forever
+  private async _waitForWrite(): Promise<void> {
+    if (!(await this._waitForTransaction())) {
+      throw new Error(
+        `Timed out after ${this._busyTimeout}ms waiting for the open transaction on ` +
+          `${this._modelName}; pass its session to write inside the transaction`
+      )
+    }
+  }
+
   // ============================================================================
   // LEGACY STORAGE METHODS (for compatibility with other operations)
   // ============================================================================
@@ -256,38 +416,40 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
     }
 
     const rows = this._selectAllStmt.all() as Array<{ data: string }>
-    return rows.map(r => JSON.parse(r.data) as T)
+    return rows.map(r => deserializeDocument<T>(r.data))
   }
 
   async add(doc: T): Promise<void> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db || !this._insertStmt) {
       throw new Error('Database not initialized')
     }
 
     // Check unique constraints before inserting
-    await this._checkUniqueConstraintsSQL(doc)
+    this._checkUniqueConstraintsSQL(doc)
 
     const id = this._getDocId(doc)
-    const data = JSON.stringify(doc)
+    const data = serializeDocument(doc)
 
     this._insertStmt.run(id, data)
   }
 
   async addMany(docs: T[]): Promise<void> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db || !this._insertStmt) {
       throw new Error('Database not initialized')
     }
 
     // Check unique constraints for all documents before inserting
     for (const doc of docs) {
-      await this._checkUniqueConstraintsSQL(doc)
+      this._checkUniqueConstraintsSQL(doc)
     }
 
     // Use transaction for batch insert
     const insert = this._db.transaction((documents: T[]) => {
       for (const doc of documents) {
         const id = this._getDocId(doc)
-        const data = JSON.stringify(doc)
+        const data = serializeDocument(doc)
         this._insertStmt!.run(id, data)
       }
     })
@@ -296,20 +458,22 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
   }
 
   async update(oldDoc: T, newDoc: T): Promise<void> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db || !this._insertStmt) {
       throw new Error('Database not initialized')
     }
 
     // Check unique constraints before updating (excluding the old doc)
     const id = this._getDocId(oldDoc)
-    await this._checkUniqueConstraintsSQL(newDoc, id)
+    this._checkUniqueConstraintsSQL(newDoc, id)
 
     // Update by replacing the document
-    const data = JSON.stringify(newDoc)
+    const data = serializeDocument(newDoc)
     this._insertStmt.run(id, data)
   }
 
   async remove(doc: T): Promise<void> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db || !this._deleteStmt) {
       throw new Error('Database not initialized')
     }
@@ -319,6 +483,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
   }
 
   async removeMany(docs: T[]): Promise<void> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db || !this._deleteStmt) {
       throw new Error('Database not initialized')
     }
@@ -337,6 +502,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
   }
 
   async clear(): Promise<void> {
+    while (this._transaction) await this._waitForWrite()
     if (!this._db) {
       throw new Error('Database not initialized')
     }
@@ -384,7 +550,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
   /**
    * SQL-based unique constraint checking
    */
-  private async _checkUniqueConstraintsSQL(doc: Partial<T>, excludeId?: string): Promise<void> {
+  private _checkUniqueConstraintsSQL(doc: Partial<T>, excludeId?: string): void {
     if (!this._db) return
 
     // For each unique index, build a query to check if value exists
@@ -487,7 +653,7 @@ export class SqliteStorageStrategy<T extends object> implements StorageStrategy<
 
   checkUniqueConstraints(_doc: Partial<T>, _excludeDoc?: T): void {
     // Sync method for interface compatibility
-    // Actual checking is done async in _checkUniqueConstraintsSQL
+    // Actual checking is done in _checkUniqueConstraintsSQL
     // This will be called from async contexts, so the real check happens there
   }
 
@@ -16,6 +16,21 @@ export type SchemaRecord = {
   updatedAt: Date
 }
 
+// Handle for a storage-level transaction started by a ClientSession
+export interface StorageTransaction<T extends object = Record<string, unknown>> {
+  // Storage view that all reads and writes inside the transaction go through
+  storage: StorageStrategy<T>
+
+  // Verify the transaction can commit (throws WriteConflictError on conflicting writes)
+  prepare(): Promise<void>
+
+  // Make the transaction's writes visible to everyone
+  commit(): Promise<void>
+
+  // Discard the transaction's writes
+  abort(): Promise<void>
+}
+
 // Storage Strategy Interface - enables pluggable storage backends
 export interface StorageStrategy<T extends object = Record<string, unknown>> {
   // Initialize the storage (load from disk, connect to DB, etc.)
@@ -62,13 +77,29 @@ export interface StorageStrategy<T extends object = Record<string, unknown>> {
     }
   ): Promise<T[]>
 
+  // Optional spatial index support (2dsphere). findDocumentsWithin returns only candidates
+  // within radiusMeters of center that pass the matcher, or null if the field has no geo index
+  createGeoIndex?(field: string): Promise<void>
+  findDocumentsWithin?(
+    matcher: QueryMatcher<T>,
+    field: string,
+    center: [number, number],
+    radiusMeters: number
+  ): Promise<T[] | null>
+
   // Optional SQL-native methods (for SQL-capable storage strategies like SQLite)
   // These methods allow direct SQL execution, bypassing JavaScript query matching
   queryNative?(query: Query<T>, options?: QueryOptions<T>): Promise<T[]>
+  iterateNative?(query: Query<T>, options?: QueryOptions<T>, batchSize?: number): AsyncIterable<T[]>
   updateNative?(query: Query<T>, update: Update<T>): Promise<{ modifiedCount: number }>
   deleteNative?(query: Query<T>): Promise<{ deletedCount: number }>
   countNative?(query: Query<T>): Promise<number>
   aggregateNative?<R = Record<string, unknown>>(pipeline: AggregationPipeline<T>): Promise<R[]>
+  // Whether the native methods can translate this query (otherwise Model matches it in JavaScript)
+  canQueryNative?(query: Query<T>): boolean
+
+  // Optional transaction support (used by ClientSession for multi-document transactions)
+  beginTransaction?(): Promise<StorageTransaction<T>>
 
   // Optional schema tracking methods (for persistent storage strategies)
   recordSchema?(schemaData: Omit<SchemaRecord, 'createdAt' | 'updatedAt'>): Promise<void>
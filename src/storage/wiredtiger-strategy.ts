@@ -1,5 +1,7 @@
-import { StorageStrategy, QueryMatcher } from './storage-strategy'
+import { StorageStrategy, StorageTransaction, QueryMatcher } from './storage-strategy'
 import { DuplicateKeyError } from '../schema'
+import { SnapshotTransaction } from './snapshot-transaction'
+import { serializeDocument, deserializeDocument } from './serialization'
 import * as path from 'path'
 import * as fs from 'fs'
 
@@ -228,7 +230,7 @@ export class WiredTigerStorageStrategy<T extends object> implements StorageStrat
 
       while (result !== null) {
         try {
-          const doc = JSON.parse(result.value) as T
+          const doc = deserializeDocument<T>(result.value)
           this._data.push(doc)
         } catch (error) {
           // Skip corrupted documents silently - they may be from incompatible format
@@ -256,7 +258,7 @@ export class WiredTigerStorageStrategy<T extends object> implements StorageStrat
     this.checkUniqueConstraints(doc)
 
     const id = this._getDocId(doc)
-    const data = JSON.stringify(doc)
+    const data = serializeDocument(doc)
 
     try {
       // Use reusable cursor for better performance
@@ -286,7 +288,7 @@ export class WiredTigerStorageStrategy<T extends object> implements StorageStrat
 
       for (const doc of docs) {
         const id = this._getDocId(doc)
-        const data = JSON.stringify(doc)
+        const data = serializeDocument(doc)
         this._cursor.set(id, data)
         this._cursor.insert()
       }
@@ -324,7 +326,7 @@ export class WiredTigerStorageStrategy<T extends object> implements StorageStrat
     Object.assign(oldDoc, newDoc)
 
     const id = this._getDocId(oldDoc)
-    const data = JSON.stringify(oldDoc)
+    const data = serializeDocument(oldDoc)
 
     try {
       // Use reusable cursor for better performance
@@ -624,6 +626,18 @@ export class WiredTigerStorageStrategy<T extends object> implements StorageStrat
     return this._data.filter(matcher)
   }
 
+  // Start a copy-on-write transaction; the commit is written back through add/update/remove
+  async beginTransaction(): Promise<StorageTransaction<T>> {
+    if (!this._session || !this._cursor) {
+      throw new Error('Storage not initialized')
+    }
+    const indexes = Array.from(this._queryIndexes.values()).map(meta => ({
+      fields: meta.fields,
+      unique: meta.unique
+    }))
+    return SnapshotTransaction.begin(this, indexes)
+  }
+
   // Flush triggers a checkpoint to ensure data is visible to new sessions
   async flush(): Promise<void> {
     if (this._connection) {
@@ -0,0 +1,189 @@
+// Dot-notation paths for update operators, including the positional operators
+// `$` (first element matched by the query), `$[]` (every element) and `$[<id>]`
+// (elements matched by the arrayFilters entry for <id>).
+
+// Resolves the positional operators of one document
+export type PositionalResolver = {
+  // Index of the first element of the array at arrayPath that the query matched
+  firstMatch: (arrayPath: string) => number | undefined
+  // Whether an array element satisfies the array filter named identifier
+  matchesFilter: (identifier: string, element: unknown) => boolean
+}
+
+const FILTERED_POSITIONAL = /^\$\[([a-z][a-zA-Z0-9]*)\]$/
+
+// Whether any update path uses a positional operator
+export function hasPositionalPath(update: Record<string, unknown>): boolean {
+  return Object.entries(update).some(
+    ([operator, fields]) =>
+      operator.startsWith('$') &&
+      fields !== null &&
+      typeof fields === 'object' &&
+      Object.keys(fields).some(path => path.split('.').some(part => part.startsWith('$')))
+  )
+}
+
+/**
+ * Group arrayFilters by identifier: `{ 'i.sku': 'A' }` becomes `i -> { sku: 'A' }`
+ * and `{ i: { $gt: 5 } }` becomes `i -> { '': { $gt: 5 } }` (a condition on the element itself)
+ */
+export function parseArrayFilters(
+  arrayFilters: Array<Record<string, unknown>> = []
+): Map<string, Record<string, unknown>> {
+  const filters = new Map<string, Record<string, unknown>>()
+  for (const filter of arrayFilters) {
+    const conditions: Record<string, Record<string, unknown>> = {}
+    for (const [key, condition] of Object.entries(filter)) {
+      const [identifier, ...rest] = key.split('.')
+      conditions[identifier] ??= {}
+      conditions[identifier][rest.join('.')] = condition
+    }
+    for (const [identifier, condition] of Object.entries(conditions)) {
+      if (filters.has(identifier)) {
+        throw new Error(
+          `Found multiple array filters with the same top-level field name ${identifier}`
+        )
+      }
+      filters.set(identifier, condition)
+    }
+  }
+  return filters
+}
+
+/**
+ * Expand an update path into the concrete paths it addresses in a document
+ * `items.$[].qty` on a document with two items yields [['items', '0', 'qty'], ['items', '1', 'qty']].
+ */
+export function expandUpdatePath(
+  doc: object,
+  path: string,
+  resolver: PositionalResolver
+): string[][] {
+  let paths: Array<{ segments: string[]; value: unknown }> = [{ segments: [], value: doc }]
+
+  for (const part of path.split('.')) {
+    if (!part.startsWith('$')) {
+      paths = paths.map(({ segments, value }) => ({
+        segments: [...segments, part],
+        value:
+          value !== null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[part]
+            : undefined
+      }))
+      continue
+    }
+
+    const next: typeof paths = []
+    for (const { segments, value } of paths) {
+      const arrayPath = segments.join('.')
+      if (!Array.isArray(value)) {
+        throw new Error(
+          `The path '${arrayPath}' must exist in the document in order to apply array updates.`
+        )
+      }
+
+      if (part === '$') {
+        const index = resolver.firstMatch(arrayPath)
+        if (index === undefined) {
+          throw new Error('The positional operator did not find the match needed from the query.')
+        }
+        next.push({ segments: [...segments, String(index)], value: value[index] })
+      } else if (part === '$[]') {
+        value.forEach((element, index) => {
+          next.push({ segments: [...segments, String(index)], value: element })
+        })
+      } else {
+        const identifier = FILTERED_POSITIONAL.exec(part)?.[1]
+        if (!identifier) throw new Error(`Invalid positional operator: ${part}`)
+        value.forEach((element, index) => {
+          if (resolver.matchesFilter(identifier, element)) {
+            next.push({ segments: [...segments, String(index)], value: element })
+          }
+        })
+      }
+    }
+    paths = next
+  }
+
+  return paths.map(({ segments }) => segments)
+}
+
+export function getPath(doc: object, segments: string[]): unknown {
+  let value: unknown = doc
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+// Values a query path reaches through the arrays along it, one per element (as MongoDB matches
+// 'items.sku' against the sku of each item), or undefined when the path runs through no array
+export function queryPathValues(doc: object, segments: string[]): unknown[] | undefined {
+  const values: unknown[] = []
+  return collectPathValues(doc, segments, values) ? values : undefined
+}
+
+function collectPathValues(value: unknown, segments: string[], values: unknown[]): boolean {
+  for (let i = 0; i < segments.length; i++) {
+    if (Array.isArray(value) && !/^\d+$/.test(segments[i])) {
+      for (const element of value) collectPathValues(element, segments.slice(i), values)
+      return true
+    }
+    if (value === null || typeof value !== 'object') {
+      values.push(undefined)
+      return false
+    }
+    value = (value as Record<string, unknown>)[segments[i]]
+  }
+  values.push(value)
+  return false
+}
+
+export function hasPath(doc: object, segments: string[]): boolean {
+  const parent = getPath(doc, segments.slice(0, -1))
+  return parent !== null && typeof parent === 'object' && segments[segments.length - 1] in parent
+}
+
+// Set a value, creating missing intermediate objects
+export function setPath(doc: object, segments: string[], value: unknown): void {
+  let target = doc as Record<string, unknown>
+  for (const segment of segments.slice(0, -1)) {
+    if (target[segment] === null || typeof target[segment] !== 'object') {
+      target[segment] = {}
+    }
+    target = target[segment] as Record<string, unknown>
+  }
+  target[segments[segments.length - 1]] = value
+}
+
+// Remove a field; array elements are set to null so positions do not shift (as in MongoDB)
+export function unsetPath(doc: object, segments: string[]): void {
+  const parent = getPath(doc, segments.slice(0, -1))
+  if (parent === null || typeof parent !== 'object') return
+  const last = segments[segments.length - 1]
+  if (Array.isArray(parent)) {
+    if (Number(last) < parent.length) parent[Number(last)] = null
+  } else {
+    delete (parent as Record<string, unknown>)[last]
+  }
+}
+
+// $push modifiers: insert $each at $position (default: the end), then $sort, then keep $slice
+// elements (from the end when negative)
+export type PushModifiers = {
+  $each: unknown[]
+  $position?: number
+  $sort?: 1 | -1 | Record<string, 1 | -1>
+  $slice?: number
+}
+
+// `{ $each: [...] }` operand of $push / $addToSet
+export function isEachModifier(value: unknown): value is { $each: unknown[] } {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Array.isArray((value as { $each?: unknown }).$each)
+  )
+}
@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i
+
+export class UUID {
+  private id: string
+  public readonly _bsontype = 'UUID' as const // For mongoose/bson type detection
+
+  constructor(id?: string | Uint8Array | UUID) {
+    if (id === undefined || id === null) {
+      this.id = randomUUID()
+    } else if (id instanceof UUID) {
+      this.id = id.toString()
+    } else if (id instanceof Uint8Array) {
+      if (id.length !== 16) throw new Error('Invalid UUID: expected 16 bytes')
+      this.id = UUID.format(Buffer.from(id).toString('hex'))
+    } else {
+      if (!UUID_PATTERN.test(id)) throw new Error('Invalid UUID')
+      this.id = UUID.format(id.replace(/-/g, '').toLowerCase())
+    }
+  }
+
+  static generate(): string {
+    return randomUUID()
+  }
+
+  static isValid(id: unknown): boolean {
+    if (id instanceof UUID) return true
+    if (id instanceof Uint8Array) return id.length === 16
+    return typeof id === 'string' && UUID_PATTERN.test(id)
+  }
+
+  toString(): string {
+    return this.id
+  }
+
+  /**
+   * Returns the UUID as 32 hex characters, without dashes
+   */
+  toHexString(): string {
+    return this.id.replace(/-/g, '')
+  }
+
+  // The 16 bytes of the UUID
+  toBinary(): Buffer {
+    return Buffer.from(this.toHexString(), 'hex')
+  }
+
+  toJSON(): string {
+    return this.toString()
+  }
+
+  equals(other: unknown): boolean {
+    if (!other || !UUID.isValid(other)) return false
+    return new UUID(other as string | Uint8Array | UUID).toString() === this.id
+  }
+
+  /**
+   * Custom inspect for Node.js util.inspect()
+   */
+  [Symbol.for('nodejs.util.inspect.custom')](): string {
+    return `UUID("${this.id}")`
+  }
+
+  private static format(hex: string): string {
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import { Schema, model } from '../index'
+
+describe('Aggregation $densify and $fill', () => {
+  interface MetricInterface {
+    sensor: string
+    time: Date
+    step: number
+    value: number | null
+  }
+
+  const metricSchema = new Schema<MetricInterface>({
+    sensor: String,
+    time: Date,
+    step: Number,
+    value: Number
+  })
+
+  const Metric = model<MetricInterface>('GapMetric', metricSchema)
+
+  const hour = (h: number) => new Date(Date.UTC(2024, 0, 1, h))
+
+  beforeEach(async () => {
+    await Metric.deleteMany({})
+    await Metric.insertMany([
+      { sensor: 'a', time: hour(0), step: 0, value: 10 },
+      { sensor: 'a', time: hour(3), step: 6, value: 40 },
+      { sensor: 'b', time: hour(1), step: 2, value: 5 },
+      { sensor: 'b', time: hour(2), step: 4, value: null }
+    ])
+  })
+
+  describe('$densify stage', () => {
+    it('should add missing hours within each partition', async () => {
+      const results = await Metric.aggregate([
+        {
+          $densify: {
+            field: 'time',
+            partitionByFields: ['sensor'],
+            range: { step: 1, unit: 'hour', bounds: 'partition' }
+          }
+        },
+        { $project: { _id: 0, sensor: 1, time: 1, value: 1 } }
+      ])
+
+      assert.deepStrictEqual(
+        results.map(r => [r.sensor, (r.time as Date).getUTCHours(), r.value]),
+        [
+          ['a', 0, 10],
+          ['a', 1, undefined],
+          ['a', 2, undefined],
+          ['a', 3, 40],
+          ['b', 1, 5],
+          ['b', 2, null]
+        ]
+      )
+    })
+
+    it('should fill every partition over the full range', async () => {
+      const results = await Metric.aggregate([
+        {
+          $densify: {
+            field: 'step',
+            partitionByFields: ['sensor'],
+            range: { step: 2, bounds: 'full' }
+          }
+        }
+      ])
+
+      const steps = (sensor: string) => results.filter(r => r.sensor === sensor).map(r => r.step)
+      assert.deepStrictEqual(steps('a'), [0, 2, 4, 6])
+      assert.deepStrictEqual(steps('b'), [0, 2, 4, 6])
+    })
+
+    it('should use explicit bounds with an exclusive upper bound', async () => {
+      const results = await Metric.aggregate([
+        { $match: { sensor: 'a' } },
+        { $densify: { field: 'step', range: { step: 3, bounds: [-3, 6] } } }
+      ])
+      assert.deepStrictEqual(
+        results.map(r => r.step),
+        [-3, 0, 3, 6]
+      )
+
+      const months = await Metric.aggregate([
+        {
+          $documents: [{ month: new Date(Date.UTC(2024, 0, 31)) }]
+        },
+        {
+          $densify: {
+            field: 'month',
+            range: {
+              step: 1,
+              unit: 'month',
+              bounds: [new Date(Date.UTC(2024, 0, 31)), new Date(Date.UTC(2024, 3, 1))]
+            }
+          }
+        }
+      ])
+      assert.deepStrictEqual(
+        months.map(r => (r.month as Date).toISOString().slice(0, 10)),
+        ['2024-01-31', '2024-03-02', '2024-03-31']
+      )
+    })
+
+    it('should reject values of the wrong type', async () => {
+      await assert.rejects(
+        Metric.aggregate([{ $densify: { field: 'time', range: { step: 1, bounds: 'full' } } }]),
+        /without a unit requires numbers in time/
+      )
+      await assert.rejects(
+        Metric.aggregate([{ $densify: { field: 'step', range: { step: 0, bounds: 'full' } } }]),
+        /step must be a positive number/
+      )
+    })
+  })
+
+  describe('$fill stage', () => {
+    it('should fill gaps created by $densify', async () => {
+      const results = await Metric.aggregate([
+        { $match: { sensor: 'a' } },
+        { $densify: { field: 'time', range: { step: 1, unit: 'hour', bounds: 'full' } } },
+        {
+          $fill: {
+            sortBy: { time: 1 },
+            output: {
+              sensor: { method: 'locf' },
+              value: { method: 'linear' }
+            }
+          }
+        }
+      ])
+
+      assert.deepStrictEqual(
+        results.map(r => [r.sensor, r.value]),
+        [
+          ['a', 10],
+          ['a', 20],
+          ['a', 30],
+          ['a', 40]
+        ]
+      )
+    })
+
+    it('should fill with values and carry the last value per partition', async () => {
+      await Metric.create({ sensor: 'b', time: hour(3), step: 6, value: null })
+      const results = await Metric.aggregate([
+        {
+          $fill: {
+            partitionByFields: ['sensor'],
+            sortBy: { time: 1 },
+            output: { value: { method: 'locf' } }
+          }
+        },
+        { $project: { _id: 0, sensor: 1, value: 1 } }
+      ])
+      assert.deepStrictEqual(results, [
+        { sensor: 'a', value: 10 },
+        { sensor: 'a', value: 40 },
+        { sensor: 'b', value: 5 },
+        { sensor: 'b', value: 5 },
+        { sensor: 'b', value: 5 }
+      ])
+
+      const defaults = await Metric.aggregate([
+        { $fill: { output: { value: { value: { $multiply: ['$step', 100] } } } } },
+        { $project: { _id: 0, value: 1 } }
+      ])
+      assert.deepStrictEqual(
+        defaults.map(r => r.value),
+        [10, 40, 5, 400, 600]
+      )
+    })
+
+    it('should leave values without neighbours on both sides for linear fills', async () => {
+      await Metric.create({ sensor: 'b', time: hour(0), step: 0, value: null })
+      const results = await Metric.aggregate([
+        { $match: { sensor: 'b' } },
+        { $fill: { sortBy: { time: 1 }, output: { value: { method: 'linear' } } } }
+      ])
+      assert.deepStrictEqual(
+        results.map(r => r.value),
+        [null, 5, null]
+      )
+    })
+
+    it('should require sortBy for methods', async () => {
+      await assert.rejects(
+        Metric.aggregate([{ $fill: { output: { value: { method: 'locf' } } } }]),
+        /\$fill with a method requires sortBy/
+      )
+    })
+  })
+})
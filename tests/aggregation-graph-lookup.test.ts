@@ -0,0 +1,196 @@
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, createDatabase } from '../index'
+
+describe('Aggregation $graphLookup', () => {
+  interface EmployeeInterface {
+    name: string
+    reportsTo?: string
+    active: boolean
+  }
+
+  interface CategoryInterface {
+    name: string
+    parents: string[]
+  }
+
+  const db = createDatabase()
+  const employeeSchema = new Schema<EmployeeInterface>({
+    name: String,
+    reportsTo: String,
+    active: Boolean
+  })
+  employeeSchema.index('name')
+  const Employee = db.model('GraphEmployee', employeeSchema)
+  const Category = db.model(
+    'GraphCategory',
+    new Schema<CategoryInterface>({ name: String, parents: [String] })
+  )
+
+  const names = (docs: Array<{ name: string }>) => docs.map(doc => doc.name).sort()
+
+  beforeEach(async () => {
+    await Employee.deleteMany({})
+    await Category.deleteMany({})
+    await Employee.insertMany([
+      { name: 'Dev', active: true },
+      { name: 'Eliot', reportsTo: 'Dev', active: true },
+      { name: 'Ron', reportsTo: 'Eliot', active: false },
+      { name: 'Andrew', reportsTo: 'Eliot', active: true },
+      { name: 'Asya', reportsTo: 'Ron', active: true },
+      { name: 'Dan', reportsTo: 'Andrew', active: true }
+    ])
+  })
+
+  it('should follow links recursively with depths', async () => {
+    const results = await Employee.aggregate([
+      { $match: { name: 'Asya' } },
+      {
+        $graphLookup: {
+          from: 'GraphEmployee',
+          startWith: '$reportsTo',
+          connectFromField: 'reportsTo',
+          connectToField: 'name',
+          as: 'chain',
+          depthField: 'level'
+        }
+      }
+    ])
+
+    const chain = results[0].chain as Array<{ name: string; level: number }>
+    assert.deepStrictEqual(chain.map(doc => [doc.name, doc.level]).sort(), [
+      ['Dev', 2],
+      ['Eliot', 1],
+      ['Ron', 0]
+    ])
+  })
+
+  it('should limit the depth and restrict the search', async () => {
+    const [limited] = await Employee.aggregate([
+      { $match: { name: 'Dan' } },
+      {
+        $graphLookup: {
+          from: 'GraphEmployee',
+          startWith: '$reportsTo',
+          connectFromField: 'reportsTo',
+          connectToField: 'name',
+          as: 'managers',
+          maxDepth: 1
+        }
+      }
+    ])
+    assert.deepStrictEqual(names(limited.managers as any), ['Andrew', 'Eliot'])
+
+    const [restricted] = await Employee.aggregate([
+      { $match: { name: 'Asya' } },
+      {
+        $graphLookup: {
+          from: 'GraphEmployee',
+          startWith: '$reportsTo',
+          connectFromField: 'reportsTo',
+          connectToField: 'name',
+          as: 'managers',
+          restrictSearchWithMatch: { active: true }
+        }
+      }
+    ])
+    // Ron is inactive, so the search stops there
+    assert.deepStrictEqual(restricted.managers, [])
+  })
+
+  it('should find the reports of a manager', async () => {
+    const [dev] = await Employee.aggregate([
+      { $match: { name: 'Dev' } },
+      {
+        $graphLookup: {
+          from: 'GraphEmployee',
+          startWith: '$name',
+          connectFromField: 'name',
+          connectToField: 'reportsTo',
+          as: 'reports'
+        }
+      }
+    ])
+    assert.deepStrictEqual(names(dev.reports as any), ['Andrew', 'Asya', 'Dan', 'Eliot', 'Ron'])
+  })
+
+  it('should handle cycles and array links', async () => {
+    await Category.insertMany([
+      { name: 'Books', parents: ['Media'] },
+      { name: 'Media', parents: ['Products', 'Books'] },
+      { name: 'Products', parents: [] },
+      { name: 'Novels', parents: ['Books', 'Fiction'] },
+      { name: 'Fiction', parents: ['Books'] }
+    ])
+
+    const [novels] = await Category.aggregate([
+      { $match: { name: 'Novels' } },
+      {
+        $graphLookup: {
+          from: 'GraphCategory',
+          startWith: '$parents',
+          connectFromField: 'parents',
+          connectToField: 'name',
+          as: 'ancestors',
+          depthField: 'depth'
+        }
+      }
+    ])
+    const ancestors = novels.ancestors as Array<{ name: string; depth: number }>
+    assert.deepStrictEqual(ancestors.map(doc => [doc.name, doc.depth]).sort(), [
+      ['Books', 0],
+      ['Fiction', 0],
+      ['Media', 1],
+      ['Products', 2]
+    ])
+  })
+
+  it('should use the index on connectToField with SQLite storage', async () => {
+    const dataPath = './data/test-graph-lookup-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const sqliteDb = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const schema = new Schema<EmployeeInterface>({ name: String, reportsTo: String })
+    schema.index('name')
+    const Staff = sqliteDb.model('Staff', schema)
+    await Staff.insertMany([
+      { name: 'Dev' },
+      { name: 'Eliot', reportsTo: 'Dev' },
+      { name: 'Ron', reportsTo: 'Eliot' }
+    ])
+
+    const [ron] = await Staff.aggregate([
+      { $match: { name: 'Ron' } },
+      {
+        $graphLookup: {
+          from: 'Staff',
+          startWith: '$reportsTo',
+          connectFromField: 'reportsTo',
+          connectToField: 'name',
+          as: 'managers'
+        }
+      }
+    ])
+    assert.deepStrictEqual(names(ron.managers as any), ['Dev', 'Eliot'])
+
+    await sqliteDb.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  it('should throw for an unknown model', async () => {
+    await assert.rejects(
+      Employee.aggregate([
+        {
+          $graphLookup: {
+            from: 'Missing',
+            startWith: '$reportsTo',
+            connectFromField: 'reportsTo',
+            connectToField: 'name',
+            as: 'chain'
+          }
+        }
+      ]),
+      /Model Missing not found for \$graphLookup/
+    )
+  })
+})
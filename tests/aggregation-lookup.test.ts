@@ -0,0 +1,234 @@
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, createDatabase } from '../index'
+
+describe('Aggregation $lookup', () => {
+  interface CustomerInterface {
+    name: string
+    minTotal: number
+  }
+
+  interface OrderInterface {
+    customer: string
+    total: number
+    items: string[]
+  }
+
+  interface ProductInterface {
+    sku: string
+    price: number
+  }
+
+  const db = createDatabase()
+  const Customer = db.model(
+    'LookupCustomer',
+    new Schema<CustomerInterface>({ name: String, minTotal: Number })
+  )
+  const orderSchema = new Schema<OrderInterface>({
+    customer: String,
+    total: Number,
+    items: [String]
+  })
+  orderSchema.index('customer')
+  const Order = db.model('LookupOrder', orderSchema)
+  const Product = db.model(
+    'LookupProduct',
+    new Schema<ProductInterface>({ sku: String, price: Number })
+  )
+
+  beforeEach(async () => {
+    await Customer.deleteMany({})
+    await Order.deleteMany({})
+    await Product.deleteMany({})
+    await Customer.insertMany([
+      { name: 'Alice', minTotal: 20 },
+      { name: 'Bob', minTotal: 0 }
+    ])
+    await Order.insertMany([
+      { customer: 'Alice', total: 10, items: ['a'] },
+      { customer: 'Alice', total: 30, items: ['a', 'b'] },
+      { customer: 'Alice', total: 50, items: ['c'] },
+      { customer: 'Bob', total: 5, items: ['b'] }
+    ])
+    await Product.insertMany([
+      { sku: 'a', price: 1 },
+      { sku: 'b', price: 2 },
+      { sku: 'c', price: 3 }
+    ])
+  })
+
+  it('should run a pipeline with let variables', async () => {
+    const results = await Customer.aggregate([
+      { $sort: { name: 1 } },
+      {
+        $lookup: {
+          from: 'LookupOrder',
+          let: { name: '$name', min: '$minTotal' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [{ $eq: ['$customer', '$$name'] }, { $gte: ['$total', '$$min'] }]
+                }
+              }
+            },
+            { $sort: { total: -1 } },
+            { $project: { _id: 0, total: 1 } }
+          ],
+          as: 'bigOrders'
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(results[0].bigOrders, [{ total: 50 }, { total: 30 }])
+    assert.deepStrictEqual(results[1].bigOrders, [{ total: 5 }])
+  })
+
+  it('should combine localField/foreignField with a pipeline', async () => {
+    const results = await Customer.aggregate([
+      { $match: { name: 'Alice' } },
+      {
+        $lookup: {
+          from: 'LookupOrder',
+          localField: 'name',
+          foreignField: 'customer',
+          let: { min: '$minTotal' },
+          pipeline: [
+            { $match: { $expr: { $lt: ['$total', '$$min'] } } },
+            { $group: { _id: '$customer', count: { $sum: 1 }, total: { $sum: '$total' } } }
+          ],
+          as: 'smallOrders'
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(results[0].smallOrders, [{ _id: 'Alice', count: 1, total: 10 }])
+  })
+
+  it('should make variables of an enclosing $lookup available to nested ones', async () => {
+    const [alice] = await Customer.aggregate([
+      { $match: { name: 'Alice' } },
+      {
+        $lookup: {
+          from: 'LookupOrder',
+          let: { name: '$name' },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$customer', '$$name'] } } },
+            { $sort: { total: 1 } },
+            {
+              $lookup: {
+                from: 'LookupProduct',
+                let: { items: '$items' },
+                pipeline: [
+                  { $match: { $expr: { $in: ['$sku', '$$items'] } } },
+                  { $project: { _id: 0, sku: 1, buyer: '$$name' } }
+                ],
+                as: 'products'
+              }
+            },
+            { $project: { _id: 0, total: 1, products: 1 } }
+          ],
+          as: 'orders'
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(alice.orders, [
+      { total: 10, products: [{ sku: 'a', buyer: 'Alice' }] },
+      {
+        total: 30,
+        products: [
+          { sku: 'a', buyer: 'Alice' },
+          { sku: 'b', buyer: 'Alice' }
+        ]
+      },
+      { total: 50, products: [{ sku: 'c', buyer: 'Alice' }] }
+    ])
+  })
+
+  it('should run uncorrelated pipelines', async () => {
+    const results = await Customer.aggregate([
+      {
+        $lookup: {
+          from: 'LookupProduct',
+          pipeline: [{ $match: { price: { $gte: 2 } } }, { $project: { _id: 0, sku: 1 } }],
+          as: 'premium'
+        }
+      }
+    ])
+
+    for (const customer of results) {
+      assert.deepStrictEqual(customer.premium, [{ sku: 'b' }, { sku: 'c' }])
+    }
+  })
+
+  it('should match array values and only query the joined values', async () => {
+    const queries: unknown[] = []
+    const find = Product.find.bind(Product)
+    Product.find = ((query: unknown) => {
+      queries.push(query)
+      return find(query as any)
+    }) as typeof Product.find
+
+    try {
+      const results = await Order.aggregate([
+        { $match: { total: 30 } },
+        {
+          $lookup: {
+            from: 'LookupProduct',
+            localField: 'items',
+            foreignField: 'sku',
+            as: 'products'
+          }
+        }
+      ])
+      assert.deepStrictEqual(
+        (results[0].products as ProductInterface[]).map(product => product.sku),
+        ['a', 'b']
+      )
+      assert.deepStrictEqual(queries, [{ sku: { $in: ['a', 'b'] } }])
+    } finally {
+      Product.find = find
+    }
+  })
+
+  it('should join through SQLite storage', async () => {
+    const dataPath = './data/test-lookup-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const sqliteDb = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Buyer = sqliteDb.model('Buyer', new Schema<CustomerInterface>({ name: String }))
+    const Purchase = sqliteDb.model('Purchase', orderSchema)
+    await Buyer.insertMany([{ name: 'Alice' }, { name: 'Bob' }, { name: 'Carol' }])
+    await Purchase.insertMany([
+      { customer: 'Alice', total: 10 },
+      { customer: 'Bob', total: 20 },
+      { customer: 'Alice', total: 30 }
+    ])
+
+    const results = await Buyer.aggregate([
+      { $sort: { name: 1 } },
+      { $lookup: { from: 'Purchase', localField: 'name', foreignField: 'customer', as: 'orders' } },
+      { $project: { _id: 0, name: 1, orders: { $size: '$orders' } } }
+    ])
+    assert.deepStrictEqual(results, [
+      { name: 'Alice', orders: 2 },
+      { name: 'Bob', orders: 1 },
+      { name: 'Carol', orders: 0 }
+    ])
+
+    await sqliteDb.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  it('should require a pipeline or both join fields', async () => {
+    await assert.rejects(
+      Customer.aggregate([{ $lookup: { from: 'LookupOrder', localField: 'name', as: 'orders' } }]),
+      /requires both localField and foreignField/
+    )
+    await assert.rejects(
+      Customer.aggregate([{ $lookup: { from: 'LookupOrder', as: 'orders' } }]),
+      /requires localField and foreignField, or a pipeline/
+    )
+  })
+})
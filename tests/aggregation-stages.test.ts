@@ -0,0 +1,176 @@
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import { Schema, createDatabase } from '../index'
+
+describe('Aggregation $unionWith, $documents, $sortByCount, aliases and $redact', () => {
+  interface SaleInterface {
+    store: string
+    item: string
+    qty: number
+  }
+
+  const db = createDatabase()
+  const saleSchema = new Schema<SaleInterface>({ store: String, item: String, qty: Number })
+  const Sale2023 = db.model('StageSale2023', saleSchema)
+  const Sale2024 = db.model('StageSale2024', saleSchema)
+  const Report = db.model(
+    'StageReport',
+    new Schema({ title: String, level: String, sections: Array, summary: Object })
+  )
+
+  beforeEach(async () => {
+    await Sale2023.deleteMany({})
+    await Sale2024.deleteMany({})
+    await Report.deleteMany({})
+    await Sale2023.insertMany([
+      { store: 'north', item: 'apple', qty: 5 },
+      { store: 'south', item: 'pear', qty: 2 }
+    ])
+    await Sale2024.insertMany([
+      { store: 'north', item: 'apple', qty: 7 },
+      { store: 'north', item: 'plum', qty: 1 },
+      { store: 'east', item: 'apple', qty: 3 }
+    ])
+  })
+
+  describe('$unionWith stage', () => {
+    it('should append the results of a pipeline on another model', async () => {
+      const results = await Sale2023.aggregate([
+        { $set: { year: 2023 } },
+        {
+          $unionWith: {
+            coll: 'StageSale2024',
+            pipeline: [{ $match: { store: 'north' } }, { $set: { year: 2024 } }]
+          }
+        },
+        { $group: { _id: '$year', qty: { $sum: '$qty' } } },
+        { $sort: { _id: 1 } }
+      ])
+
+      assert.deepStrictEqual(results, [
+        { _id: 2023, qty: 7 },
+        { _id: 2024, qty: 8 }
+      ])
+    })
+
+    it('should accept a model name and pipelines of literal documents', async () => {
+      const results = await Sale2023.aggregate([
+        { $unionWith: 'StageSale2024' },
+        { $unionWith: { pipeline: [{ $documents: [{ store: 'web', item: 'kiwi', qty: 9 }] }] } },
+        { $project: { _id: 0, store: 1 } }
+      ])
+
+      assert.deepStrictEqual(
+        results.map(r => r.store),
+        ['north', 'south', 'north', 'north', 'east', 'web']
+      )
+      await assert.rejects(
+        Sale2023.aggregate([{ $unionWith: 'Missing' }]),
+        /Model Missing not found for \$unionWith/
+      )
+    })
+  })
+
+  describe('$documents stage', () => {
+    it('should use literal documents as input', async () => {
+      const results = await Sale2023.aggregate([
+        { $documents: [{ x: 1 }, { x: 2 }, { x: 3 }] },
+        { $match: { x: { $gte: 2 } } },
+        { $set: { doubled: { $multiply: ['$x', 2] } } }
+      ])
+
+      assert.deepStrictEqual(results, [
+        { x: 2, doubled: 4 },
+        { x: 3, doubled: 6 }
+      ])
+    })
+  })
+
+  describe('$sortByCount stage', () => {
+    it('should count the values of an expression, most frequent first', async () => {
+      const results = await Sale2024.aggregate([{ $sortByCount: '$item' }])
+
+      assert.deepStrictEqual(results, [
+        { _id: 'apple', count: 2 },
+        { _id: 'plum', count: 1 }
+      ])
+    })
+  })
+
+  describe('$set, $unset and $replaceWith stages', () => {
+    it('should behave like $addFields, an exclusion $project and $replaceRoot', async () => {
+      const results = await Sale2023.aggregate([
+        { $match: { item: 'apple' } },
+        { $set: { doubled: { $multiply: ['$qty', 2] } } },
+        { $unset: ['_id', 'store'] }
+      ])
+      assert.strictEqual(results.length, 1)
+      assert.strictEqual(results[0].doubled, 10)
+      assert.strictEqual(results[0].item, 'apple')
+      assert.ok(!('_id' in results[0]) && !('store' in results[0]))
+
+      const [sale] = await Sale2023.aggregate([
+        { $match: { item: 'pear' } },
+        { $replaceWith: { where: '$store', amount: '$qty' } }
+      ])
+      assert.deepStrictEqual(sale, { where: 'south', amount: 2 })
+    })
+  })
+
+  describe('$redact stage', () => {
+    beforeEach(async () => {
+      await Report.insertMany([
+        {
+          title: 'Quarterly',
+          level: 'public',
+          summary: { level: 'secret', text: 'hidden' },
+          sections: [
+            { level: 'public', text: 'intro', notes: [{ level: 'secret', text: 'x' }] },
+            { level: 'secret', text: 'numbers' },
+            'appendix'
+          ]
+        },
+        { title: 'Internal', level: 'secret', sections: [] }
+      ])
+    })
+
+    it('should prune, keep and descend into embedded documents', async () => {
+      const results = await Report.aggregate([
+        {
+          $redact: {
+            $cond: {
+              if: { $eq: ['$level', 'secret'] },
+              then: '$$PRUNE',
+              else: '$$DESCEND'
+            }
+          }
+        }
+      ])
+
+      assert.deepStrictEqual(
+        results.map(r => r.title),
+        ['Quarterly']
+      )
+      assert.ok(!('summary' in results[0]))
+      assert.deepStrictEqual(results[0].sections, [
+        { level: 'public', text: 'intro', notes: [] },
+        'appendix'
+      ])
+
+      const kept = await Report.aggregate([
+        { $redact: { $cond: [{ $eq: ['$title', 'Internal'] }, '$$KEEP', '$$PRUNE'] } }
+      ])
+      assert.deepStrictEqual(
+        kept.map(r => r.title),
+        ['Internal']
+      )
+    })
+
+    it('should reject other results', async () => {
+      await assert.rejects(
+        Report.aggregate([{ $redact: 'keep' }]),
+        /\$redact must resolve to \$\$DESCEND, \$\$PRUNE or \$\$KEEP/
+      )
+    })
+  })
+})
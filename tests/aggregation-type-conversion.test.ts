@@ -1,6 +1,6 @@
 import { describe, it, beforeEach } from 'node:test'
 import assert from 'node:assert'
-import { Schema, model, ObjectId } from '../index'
+import { Schema, model, ObjectId, Decimal128 } from '../index'
 
 describe('Aggregation Type Conversion Operators', () => {
   interface DataDocInterface {
@@ -177,7 +177,8 @@ describe('Aggregation Type Conversion Operators', () => {
       ])
 
       assert.strictEqual(results[0].doubleValue, 123.456)
-      assert.strictEqual(results[0].decimalValue, 123.456)
+      assert.ok(results[0].decimalValue instanceof Decimal128)
+      assert.strictEqual(results[0].decimalValue.toString(), '123.456')
     })
   })
 
@@ -435,7 +436,8 @@ describe('Aggregation Type Conversion Operators', () => {
       ])
 
       assert.strictEqual(results[0].toDouble, 123.456)
-      assert.strictEqual(results[0].toDecimal, 78)
+      assert.ok(results[0].toDecimal instanceof Decimal128)
+      assert.strictEqual(results[0].toDecimal.toString(), '78')
     })
 
     it('should convert to bool', async () => {
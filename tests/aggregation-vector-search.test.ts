@@ -369,13 +369,27 @@ describe('$vectorSearch aggregation', () => {
   })
 
   it('skips documents with non-numeric or missing embeddings', async () => {
-    await VectorModel.insertMany([
+    // A Mixed embedding is stored as given, so it can hold non-numeric values
+    const mixedSchema = new Schema<Doc>({
+      name: String,
+      embedding: Schema.Types.Mixed
+    })
+    mixedSchema.searchIndex({
+      name: 'vec_idx',
+      type: 'vectorSearch',
+      definition: {
+        fields: [{ type: 'vector', path: 'embedding', numDimensions: 3, similarity: 'cosine' }]
+      }
+    })
+    const MixedModel = model('VectorSearchMixedEmbedding', mixedSchema)
+
+    await MixedModel.insertMany([
       { name: 'ok', embedding: [1, 0, 0] },
       { name: 'bad', embedding: ['x', 0, 0] as unknown as number[] },
       { name: 'none', embedding: undefined as unknown as number[] }
     ])
 
-    const results = await VectorModel.aggregate([
+    const results = await MixedModel.aggregate([
       {
         $vectorSearch: {
           index: 'vec_idx',
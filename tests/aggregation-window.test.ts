@@ -0,0 +1,196 @@
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import { Schema, model } from '../index'
+
+describe('Aggregation $setWindowFields', () => {
+  interface ReadingInterface {
+    sensor: string
+    day: number
+    time: Date
+    value: number
+  }
+
+  const readingSchema = new Schema<ReadingInterface>({
+    sensor: String,
+    day: Number,
+    time: Date,
+    value: Number
+  })
+
+  const Reading = model<ReadingInterface>('WindowReading', readingSchema)
+
+  const hour = (h: number) => new Date(Date.UTC(2024, 0, 1, h))
+
+  beforeEach(async () => {
+    await Reading.deleteMany({})
+    await Reading.insertMany([
+      { sensor: 'b', day: 1, time: hour(0), value: 5 },
+      { sensor: 'a', day: 3, time: hour(2), value: 30 },
+      { sensor: 'a', day: 1, time: hour(0), value: 10 },
+      { sensor: 'a', day: 2, time: hour(1), value: 20 },
+      { sensor: 'a', day: 4, time: hour(3), value: 20 },
+      { sensor: 'b', day: 2, time: hour(1), value: 7 }
+    ])
+  })
+
+  it('should compute running totals and moving averages over document windows', async () => {
+    const results = await Reading.aggregate([
+      {
+        $setWindowFields: {
+          partitionBy: '$sensor',
+          sortBy: { day: 1 },
+          output: {
+            runningTotal: { $sum: '$value', window: { documents: ['unbounded', 'current'] } },
+            movingAvg: { $avg: '$value', window: { documents: [-1, 0] } },
+            partitionMax: { $max: '$value' },
+            nextValues: { $push: '$value', window: { documents: [1, 2] } }
+          }
+        }
+      }
+    ])
+
+    // Partitions in order of first appearance, sorted by day
+    assert.deepStrictEqual(
+      results.map(r => [r.sensor, r.day]),
+      [
+        ['b', 1],
+        ['b', 2],
+        ['a', 1],
+        ['a', 2],
+        ['a', 3],
+        ['a', 4]
+      ]
+    )
+    assert.deepStrictEqual(
+      results.map(r => r.runningTotal),
+      [5, 12, 10, 30, 60, 80]
+    )
+    assert.deepStrictEqual(
+      results.map(r => r.movingAvg),
+      [5, 6, 10, 15, 25, 25]
+    )
+    assert.deepStrictEqual(
+      results.map(r => r.partitionMax),
+      [7, 7, 30, 30, 30, 30]
+    )
+    assert.deepStrictEqual(results[2].nextValues, [20, 30])
+    assert.deepStrictEqual(results[5].nextValues, [])
+  })
+
+  it('should rank documents', async () => {
+    const results = await Reading.aggregate([
+      { $match: { sensor: 'a' } },
+      {
+        $setWindowFields: {
+          sortBy: { value: -1 },
+          output: {
+            rank: { $rank: {} },
+            denseRank: { $denseRank: {} },
+            position: { $documentNumber: {} }
+          }
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(
+      results.map(r => [r.value, r.rank, r.denseRank, r.position]),
+      [
+        [30, 1, 1, 1],
+        [20, 2, 2, 2],
+        [20, 2, 2, 3],
+        [10, 4, 3, 4]
+      ]
+    )
+  })
+
+  it('should shift values and compute exponential moving averages', async () => {
+    const results = await Reading.aggregate([
+      { $match: { sensor: 'a' } },
+      {
+        $setWindowFields: {
+          sortBy: { day: 1 },
+          output: {
+            previous: { $shift: { output: '$value', by: -1, default: 0 } },
+            ema: { $expMovingAvg: { input: '$value', alpha: 0.5 } }
+          }
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(
+      results.map(r => r.previous),
+      [0, 10, 20, 30]
+    )
+    assert.deepStrictEqual(
+      results.map(r => r.ema),
+      [10, 15, 22.5, 21.25]
+    )
+  })
+
+  it('should use range windows with time units', async () => {
+    const results = await Reading.aggregate([
+      { $match: { sensor: 'a' } },
+      {
+        $setWindowFields: {
+          sortBy: { time: 1 },
+          output: {
+            lastTwoHours: {
+              $sum: '$value',
+              window: { range: [-1, 'current'], unit: 'hour' }
+            },
+            perHour: {
+              $derivative: { input: '$value', unit: 'hour' },
+              window: { documents: [-1, 0] }
+            },
+            area: {
+              $integral: { input: '$value', unit: 'hour' },
+              window: { documents: ['unbounded', 'current'] }
+            }
+          }
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(
+      results.map(r => r.lastTwoHours),
+      [10, 30, 50, 50]
+    )
+    assert.deepStrictEqual(
+      results.map(r => r.perHour),
+      [null, 10, 10, -10]
+    )
+    assert.deepStrictEqual(
+      results.map(r => r.area),
+      [0, 15, 40, 65]
+    )
+  })
+
+  it('should use numeric range windows and covariance', async () => {
+    const results = await Reading.aggregate([
+      { $match: { sensor: 'a' } },
+      {
+        $setWindowFields: {
+          sortBy: { day: 1 },
+          output: {
+            nearby: { $push: '$value', window: { range: [-1, 1] } },
+            covPop: { $covariancePop: ['$day', '$value'] },
+            covSamp: { $covarianceSamp: ['$day', '$value'], window: { documents: [0, 0] } }
+          }
+        }
+      }
+    ])
+
+    assert.deepStrictEqual(results[1].nearby, [10, 20, 30])
+    assert.deepStrictEqual(results[3].nearby, [30, 20])
+    // days 1..4 (mean 2.5), values 10, 20, 30, 20 (mean 20)
+    assert.strictEqual(results[0].covPop, 5)
+    assert.strictEqual(results[0].covSamp, null)
+  })
+
+  it('should require sortBy for rank functions', async () => {
+    await assert.rejects(
+      Reading.aggregate([{ $setWindowFields: { output: { rank: { $rank: {} } } } }]),
+      /\$rank requires sortBy/
+    )
+  })
+})
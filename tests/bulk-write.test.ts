@@ -0,0 +1,185 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, model, createDatabase, clearRegistry } from '../index'
+
+interface Product {
+  sku: string
+  name?: string
+  qty?: number
+}
+
+const productSchema = () =>
+  new Schema<Product>({
+    sku: { type: String, required: true, unique: true },
+    name: String,
+    qty: { type: Number, min: 0 }
+  })
+
+test('Model.bulkWrite', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should run every operation type and report counts', async () => {
+    const Product = model('BulkProduct1', productSchema())
+    await Product.insertMany([
+      { sku: 'a', qty: 1 },
+      { sku: 'b', qty: 2 },
+      { sku: 'c', qty: 3 },
+      { sku: 'd', qty: 4 }
+    ])
+
+    const result = await Product.bulkWrite([
+      { insertOne: { document: { sku: 'e', qty: 5 } } },
+      { updateOne: { filter: { sku: 'a' }, update: { $inc: { qty: 10 } } } },
+      { updateMany: { filter: { qty: { $gte: 3 } }, update: { $set: { name: 'big' } } } },
+      { replaceOne: { filter: { sku: 'b' }, replacement: { sku: 'b', name: 'replaced' } } },
+      { deleteOne: { filter: { sku: 'c' } } },
+      { deleteMany: { filter: { name: 'big' } } }
+    ])
+
+    assert.strictEqual(result.insertedCount, 1)
+    assert.strictEqual(result.matchedCount, 6)
+    assert.strictEqual(result.modifiedCount, 6)
+    assert.strictEqual(result.deletedCount, 4)
+    assert.strictEqual(result.upsertedCount, 0)
+    assert.ok(result.insertedIds[0])
+    assert.deepStrictEqual(result.writeErrors, [])
+    assert.strictEqual(result.hasWriteErrors(), false)
+
+    const remaining = await Product.find({}, { sort: { sku: 1 } })
+    assert.deepStrictEqual(
+      remaining.map(p => [p.sku, p.name, p.qty]),
+      [['b', 'replaced', undefined]]
+    )
+  })
+
+  await t.test('should upsert per operation and report upsertedIds', async () => {
+    const Product = model('BulkProduct2', productSchema())
+
+    const result = await Product.bulkWrite([
+      { updateOne: { filter: { sku: 'x' }, update: { $set: { qty: 1 } }, upsert: true } },
+      { updateMany: { filter: { sku: 'y' }, update: { $set: { qty: 2 } }, upsert: true } },
+      { replaceOne: { filter: { sku: 'z' }, replacement: { sku: 'z', qty: 3 }, upsert: true } },
+      { updateOne: { filter: { sku: 'missing' }, update: { $set: { qty: 4 } } } }
+    ])
+
+    assert.strictEqual(result.upsertedCount, 3)
+    assert.strictEqual(result.matchedCount, 0)
+    assert.strictEqual(result.modifiedCount, 0)
+    assert.deepStrictEqual(Object.keys(result.upsertedIds), ['0', '1', '2'])
+
+    const x = await Product.findOne({ sku: 'x' })
+    assert.strictEqual(String(x?._id), String(result.upsertedIds[0]))
+    assert.strictEqual(await Product.countDocuments(), 3)
+  })
+
+  await t.test('should stop at the first error when ordered', async () => {
+    const Product = model('BulkProduct3', productSchema())
+    await Product.create({ sku: 'a' })
+
+    const result = await Product.bulkWrite([
+      { insertOne: { document: { sku: 'b' } } },
+      { insertOne: { document: { sku: 'a' } } },
+      { insertOne: { document: { sku: 'c' } } }
+    ])
+
+    assert.strictEqual(result.insertedCount, 1)
+    assert.strictEqual(result.writeErrors.length, 1)
+    assert.strictEqual(result.writeErrors[0].index, 1)
+    assert.strictEqual(result.writeErrors[0].code, 11000)
+    assert.ok('insertOne' in result.writeErrors[0].op)
+    assert.strictEqual(await Product.countDocuments(), 2)
+  })
+
+  await t.test('should continue past errors when unordered', async () => {
+    const Product = model('BulkProduct4', productSchema())
+    await Product.create({ sku: 'a', qty: 1 })
+
+    const result = await Product.bulkWrite(
+      [
+        { insertOne: { document: { sku: 'a' } } },
+        { updateOne: { filter: { sku: 'a' }, update: { $set: { qty: -5 } } } },
+        { insertOne: { document: { sku: 'b' } } }
+      ],
+      { ordered: false }
+    )
+
+    assert.strictEqual(result.insertedCount, 1)
+    assert.deepStrictEqual(
+      result.getWriteErrors().map(e => e.index),
+      [0, 1]
+    )
+    assert.match(result.writeErrors[1].errmsg, /qty/)
+    assert.strictEqual((await Product.findOne({ sku: 'a' }))?.qty, 1)
+    assert.strictEqual(await Product.countDocuments(), 2)
+  })
+
+  await t.test('should keep _id and createdAt when replacing', async () => {
+    const Note = model(
+      'BulkNote',
+      new Schema({ title: String, body: String }, { timestamps: true })
+    )
+    const note = await Note.create({ title: 'a', body: 'old' })
+
+    await Note.bulkWrite([{ replaceOne: { filter: { title: 'a' }, replacement: { title: 'b' } } }])
+
+    const replaced = await Note.findById(note._id)
+    assert.ok(replaced)
+    assert.strictEqual(replaced.title, 'b')
+    assert.strictEqual(replaced.body, undefined)
+    assert.strictEqual((replaced.createdAt as Date).getTime(), (note.createdAt as Date).getTime())
+
+    const result = await Note.bulkWrite([
+      { replaceOne: { filter: { title: 'b' }, replacement: { $set: { title: 'c' } } } }
+    ])
+    assert.match(result.writeErrors[0].errmsg, /update operators/)
+  })
+
+  await t.test('should record invalid operations as write errors', async () => {
+    const Product = model('BulkProduct5', productSchema())
+    const result = await Product.bulkWrite([{ upsertOne: {} } as never])
+    assert.match(result.writeErrors[0].errmsg, /Invalid bulkWrite operation: upsertOne/)
+  })
+
+  await t.test('should run inside a session transaction', async () => {
+    const db = createDatabase()
+    const Product = db.model('Product', productSchema())
+    const session = db.startSession()
+
+    session.startTransaction()
+    await Product.bulkWrite([{ insertOne: { document: { sku: 'a' } } }], { session })
+    assert.strictEqual(await Product.countDocuments(), 0)
+    await session.commitTransaction()
+    assert.strictEqual(await Product.countDocuments(), 1)
+  })
+
+  await t.test('should run with sqlite storage', async () => {
+    const dataPath = './data/test-bulk-write-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Product = db.model('Product', productSchema())
+    await Product.create({ sku: 'a', qty: 1 })
+
+    const result = await Product.bulkWrite([
+      { insertOne: { document: { sku: 'b', qty: 2 } } },
+      { updateMany: { filter: {}, update: { $inc: { qty: 1 } } } },
+      { insertOne: { document: { sku: 'a' } } },
+      { deleteOne: { filter: { sku: 'b' } } }
+    ])
+
+    assert.strictEqual(result.insertedCount, 1)
+    assert.strictEqual(result.modifiedCount, 2)
+    assert.strictEqual(result.writeErrors[0]?.index, 2)
+    const docs = await Product.find({}, { sort: { sku: 1 } })
+    assert.deepStrictEqual(
+      docs.map(d => [d.sku, d.qty]),
+      [
+        ['a', 2],
+        ['b', 3]
+      ]
+    )
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
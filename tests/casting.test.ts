@@ -0,0 +1,163 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, model, clearRegistry, createDatabase, ObjectId, CastError } from '../index'
+
+function userSchema() {
+  return new Schema({
+    name: String,
+    age: Number,
+    active: Boolean,
+    birthday: Date,
+    manager: { type: Schema.Types.ObjectId },
+    scores: [Number],
+    address: new Schema({ city: String, zip: Number })
+  })
+}
+
+test('Casting', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should cast document fields to their schema types on create', async () => {
+    const User = model('CastUser1', userSchema())
+    const managerId = new ObjectId()
+    const user = (await User.create({
+      name: 42,
+      age: '42',
+      active: 'false',
+      birthday: '2020-01-02T00:00:00.000Z',
+      manager: managerId.toString(),
+      scores: ['1', 2],
+      address: { city: 'Paris', zip: '75001' }
+    } as any)) as any
+
+    assert.strictEqual(user.name, '42')
+    assert.strictEqual(user.age, 42)
+    assert.strictEqual(user.active, false)
+    assert.ok(user.birthday instanceof Date)
+    assert.strictEqual(user.birthday.getTime(), Date.UTC(2020, 0, 2))
+    assert.ok(user.manager instanceof ObjectId)
+    assert.ok(user.manager.equals(managerId))
+    assert.deepStrictEqual(user.scores, [1, 2])
+    assert.deepStrictEqual(user.address, { city: 'Paris', zip: 75001 })
+  })
+
+  await t.test('should throw a CastError for values that cannot be cast', async () => {
+    const User = model('CastUser2', userSchema())
+
+    await assert.rejects(User.create({ age: 'abc' } as any), (error: Error) => {
+      assert.ok(error instanceof CastError)
+      assert.strictEqual(error.path, 'age')
+      assert.strictEqual(error.value, 'abc')
+      assert.strictEqual(error.kind, 'Number')
+      assert.strictEqual(
+        error.message,
+        'Cast to Number failed for value "abc" (type string) at path "age"'
+      )
+      return true
+    })
+    await assert.rejects(User.insertMany([{ scores: [1, 'x'] }] as any), {
+      name: 'CastError',
+      path: 'scores.1'
+    })
+    await assert.rejects(User.create({ address: { zip: 'none' } } as any), {
+      name: 'CastError',
+      path: 'address.zip'
+    })
+    await assert.rejects(User.create({ manager: 'not-an-id' } as any), {
+      name: 'CastError',
+      kind: 'ObjectId'
+    })
+    assert.strictEqual(await User.countDocuments({}), 0)
+  })
+
+  await t.test('should cast query filters', async () => {
+    const User = model('CastUser3', userSchema())
+    const alice = await User.create({
+      name: 'Alice',
+      age: 30,
+      birthday: new Date('1990-05-01'),
+      scores: [5, 9]
+    } as any)
+    await User.create({ name: 'Bob', age: 40, birthday: new Date('1985-01-01') } as any)
+
+    assert.strictEqual((await User.findOne({ _id: String(alice._id) } as any))?.name, 'Alice')
+    assert.strictEqual((await User.findOne({ age: '30' } as any))?.name, 'Alice')
+    assert.strictEqual(await User.countDocuments({ age: { $in: ['30', '40'] } } as any), 2)
+    assert.strictEqual(await User.countDocuments({ scores: { $in: ['9'] } } as any), 1)
+    assert.strictEqual(await User.countDocuments({ birthday: { $gte: '1989-01-01' } } as any), 1)
+    assert.strictEqual(
+      await User.countDocuments({ $or: [{ age: '40' }, { name: 'Alice' }] } as any),
+      2
+    )
+    await assert.rejects(User.find({ age: 'old' } as any).exec(), CastError)
+  })
+
+  await t.test('should cast update operators', async () => {
+    const User = model('CastUser4', userSchema())
+    const user = await User.create({ name: 'Alice', age: 30, scores: [1] } as any)
+
+    await User.updateOne({ _id: user._id }, {
+      $set: { age: '31', 'address.zip': '1000' },
+      $push: { scores: { $each: ['2', '3'] } }
+    } as any)
+    await User.updateOne({ _id: user._id }, { $inc: { age: '2' } } as any)
+
+    const stored = (await User.findById(user._id).lean()) as any
+    assert.strictEqual(stored.age, 33)
+    assert.deepStrictEqual(stored.address, { zip: 1000 })
+    assert.deepStrictEqual(stored.scores, [1, 2, 3])
+
+    await assert.rejects(
+      User.updateOne({ _id: user._id }, { $set: { active: 'maybe' } } as any).exec(),
+      { name: 'CastError', path: 'active', kind: 'Boolean' }
+    )
+  })
+
+  await t.test('should cast the results of update pipelines', async () => {
+    const User = model('CastUser6', userSchema())
+    const user = await User.create({ name: 'Alice', age: 30, scores: [1] } as any)
+
+    await User.updateOne({ _id: user._id }, [
+      { $set: { age: { $concat: ['3', '1'] }, birthday: '2021-01-02T00:00:00.000Z' } }
+    ] as any)
+
+    const stored = (await User.findById(user._id).lean()) as any
+    assert.strictEqual(stored.age, 31)
+    assert.ok(stored.birthday instanceof Date)
+
+    await assert.rejects(
+      User.updateOne({ _id: user._id }, [{ $set: { scores: { $literal: ['x'] } } }] as any).exec(),
+      { name: 'CastError', path: 'scores.0' }
+    )
+    assert.deepStrictEqual(((await User.findById(user._id).lean()) as any).scores, [1])
+  })
+
+  await t.test('should cast changed fields on save', async () => {
+    const User = model('CastUser5', userSchema())
+    const created = await User.create({ name: 'Alice', age: 30 } as any)
+
+    const user = (await User.findById(created._id)) as any
+    user.age = '35'
+    const saved = (await user.save()) as any
+    assert.strictEqual(saved.age, 35)
+
+    user.age = 'unknown'
+    await assert.rejects(user.save(), CastError)
+  })
+
+  await t.test('should cast queries and updates with sqlite storage', async () => {
+    const dataPath = './data/test-casting-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const User = db.model('User', userSchema())
+    const user = await User.create({ name: 'Alice', age: '30' } as any)
+
+    await User.updateMany({ age: '30' } as any, { $inc: { age: '1' } } as any)
+    const found = (await User.findOne({ _id: String(user._id), age: { $gt: '30' } } as any)) as any
+    assert.strictEqual(found?.age, 31)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,247 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { Schema, model, createDatabase, clearRegistry, TTLManager, ObjectId } from '../index'
+
+test('Change Streams', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should emit insert events from create and insertMany', async () => {
+    const User = model('WatchUser1', new Schema({}))
+    const stream = User.watch()
+
+    const alice = await User.create({ name: 'Alice' })
+    await User.insertMany([{ name: 'Bob' }, { name: 'Carol' }])
+
+    const first = await stream.next()
+    assert.ok(first)
+    assert.strictEqual(first.operationType, 'insert')
+    assert.strictEqual(first.ns.coll, 'WatchUser1')
+    assert.strictEqual(String(first.documentKey?._id), String(alice._id))
+    assert.strictEqual(first.fullDocument?.name, 'Alice')
+    assert.ok(first._id._data)
+
+    const names: unknown[] = []
+    for await (const event of stream) {
+      names.push(event.fullDocument?.name)
+      if (names.length === 2) break
+    }
+    assert.deepStrictEqual(names, ['Bob', 'Carol'])
+    await stream.close()
+  })
+
+  await t.test('should describe updated and removed fields', async () => {
+    const User = model('WatchUser2', new Schema({}))
+    await User.create({ name: 'Alice', age: 30, tags: ['a'], city: 'Paris' })
+    const stream = User.watch()
+
+    await User.updateOne(
+      { name: 'Alice' },
+      { $set: { age: 31 }, $push: { tags: 'b' }, $unset: { city: 1 } }
+    )
+
+    const event = await stream.next()
+    assert.ok(event)
+    assert.strictEqual(event.operationType, 'update')
+    assert.deepStrictEqual(event.updateDescription, {
+      updatedFields: { age: 31, tags: ['a', 'b'], __v: 1 },
+      removedFields: ['city'],
+      truncatedArrays: []
+    })
+    assert.strictEqual(event.fullDocument, undefined)
+    await stream.close()
+  })
+
+  await t.test('should include the updated document with updateLookup', async () => {
+    const User = model('WatchUser3', new Schema({}))
+    await User.create({ name: 'Alice', age: 30 })
+    const stream = User.watch([], { fullDocument: 'updateLookup' })
+
+    await User.findOneAndUpdate({ name: 'Alice' }, { $inc: { age: 1 } })
+    const user = await User.findOne({ name: 'Alice' })
+    assert.ok(user)
+    user.age = 40
+    await user.save()
+
+    const fromFindOneAndUpdate = await stream.next()
+    const fromSave = await stream.next()
+    assert.strictEqual(fromFindOneAndUpdate?.fullDocument?.age, 31)
+    assert.deepStrictEqual(fromSave?.updateDescription?.updatedFields, { age: 40 })
+    assert.strictEqual(fromSave?.fullDocument?.age, 40)
+    await stream.close()
+  })
+
+  await t.test('should emit delete events', async () => {
+    const User = model('WatchUser4', new Schema({}))
+    const [a, b, c] = await User.insertMany([{ n: 1 }, { n: 2 }, { n: 3 }])
+    const stream = User.watch()
+
+    await User.deleteOne({ n: 1 })
+    await User.deleteMany({ n: { $gte: 2 } })
+
+    const ids: string[] = []
+    for (let i = 0; i < 3; i++) {
+      const event = await stream.next()
+      assert.strictEqual(event?.operationType, 'delete')
+      assert.strictEqual(event?.fullDocument, undefined)
+      ids.push(String(event?.documentKey?._id))
+    }
+    assert.deepStrictEqual(ids, [String(a._id), String(b._id), String(c._id)])
+    await stream.close()
+  })
+
+  await t.test('should filter and reshape events with a pipeline', async () => {
+    const Order = model('WatchOrder', new Schema({}))
+    const stream = Order.watch([
+      { $match: { operationType: 'insert', 'fullDocument.status': 'paid' } },
+      { $project: { operationType: 1, fullDocument: 1 } }
+    ])
+
+    await Order.create({ status: 'pending', total: 5 })
+    await Order.create({ status: 'paid', total: 10 })
+    await Order.updateOne({ status: 'paid' }, { $set: { total: 12 } })
+
+    const event = await stream.next()
+    assert.strictEqual(event?.fullDocument?.total, 10)
+    assert.deepStrictEqual(Object.keys(event ?? {}).sort(), [
+      '_id',
+      'fullDocument',
+      'operationType'
+    ])
+    assert.strictEqual(stream.tryNext(), null)
+    await stream.close()
+  })
+
+  await t.test('should reject stages that are not allowed in change streams', () => {
+    const Order = model('WatchOrder2', new Schema({}))
+    assert.throws(() => Order.watch([{ $group: { _id: null } }]), /\$group is not allowed/)
+  })
+
+  await t.test('should emit findOneAndUpdate events only once the write is stored', async () => {
+    const User = model('WatchUser9', new Schema({}))
+    await User.create({ name: 'Alice', age: 30 })
+    const stream = User.watch()
+    const types: string[] = []
+    stream.on('change', event => types.push(event.operationType))
+
+    const storage = (User as any)._storage
+    const update = storage.update.bind(storage)
+    storage.update = async () => {
+      throw new Error('disk full')
+    }
+    for (const returnDocument of ['before', 'after'] as const) {
+      await assert.rejects(
+        User.findOneAndUpdate({ name: 'Alice' }, { $inc: { age: 1 } }, { returnDocument }).exec(),
+        /disk full/
+      )
+    }
+    storage.update = update
+    await User.findOneAndUpdate({ name: 'Alice' }, { $inc: { age: 1 } })
+    await stream.close()
+
+    assert.deepStrictEqual(types, ['update'])
+  })
+
+  await t.test('should emit change events to listeners', async () => {
+    const User = model('WatchUser5', new Schema({}))
+    const stream = User.watch()
+    const types: string[] = []
+    stream.on('change', event => types.push(event.operationType))
+
+    await User.create({ name: 'Alice' })
+    await User.updateMany({}, { $set: { active: true } })
+    await User.deleteMany({})
+    await stream.close()
+
+    assert.deepStrictEqual(types, ['insert', 'update', 'delete'])
+    assert.strictEqual(stream.closed, true)
+    assert.strictEqual(await stream.next(), null)
+  })
+
+  await t.test('should watch every model with Database.watch', async () => {
+    const db = createDatabase()
+    const User = db.model('User', new Schema({}))
+    const Post = db.model('Post', new Schema({}))
+    const stream = db.watch([{ $match: { operationType: 'insert' } }])
+
+    await User.create({ name: 'Alice' })
+    await Post.create({ title: 'Hello' })
+
+    assert.strictEqual((await stream.next())?.ns.coll, 'User')
+    assert.strictEqual((await stream.next())?.ns.coll, 'Post')
+
+    const dropped: string[] = []
+    const all = db.watch()
+    all.on('change', event => dropped.push(`${event.operationType}:${event.ns.coll}`))
+    await db.dropDatabase()
+    await all.close()
+    await stream.close()
+    assert.deepStrictEqual(dropped, ['drop:User', 'drop:Post'])
+  })
+
+  await t.test('should only emit transaction writes after commit', async () => {
+    const db = createDatabase()
+    const User = db.model('User', new Schema({}))
+    const stream = User.watch()
+    const types: string[] = []
+    stream.on('change', event => types.push(event.operationType))
+
+    const session = db.startSession()
+    session.startTransaction()
+    await User.create({ name: 'Alice' }, { session })
+    await session.abortTransaction()
+
+    session.startTransaction()
+    await User.create({ name: 'Bob' }, { session })
+    await User.updateOne({ name: 'Bob' }, { $set: { age: 20 } }, { session })
+    await new Promise(resolve => setImmediate(resolve))
+    assert.deepStrictEqual(types, [])
+
+    await session.commitTransaction()
+    await stream.close()
+    assert.deepStrictEqual(types, ['insert', 'update'])
+  })
+
+  await t.test('should pass pipeline errors to next() without an error listener', async () => {
+    const User = model('WatchUserErrors', new Schema({}))
+    const stream = User.watch([
+      {
+        $match: {
+          $where: () => {
+            throw new Error('bad filter')
+          }
+        }
+      }
+    ])
+
+    await User.create({ name: 'Alice' })
+    await assert.rejects(stream.next(), /bad filter/)
+
+    const errors: unknown[] = []
+    stream.on('error', error => errors.push(error))
+    await User.create({ name: 'Bob' })
+    await new Promise(resolve => setImmediate(resolve))
+    assert.strictEqual(errors.length, 1)
+    await stream.close()
+  })
+
+  await t.test('should emit delete events for TTL expirations', async () => {
+    const Cache = model('WatchCache', new Schema({}))
+    await Cache.create({ _id: new ObjectId(), expiresAt: new Date(Date.now() - 10_000) })
+    const stream = Cache.watch()
+
+    const ttl = new TTLManager()
+    ttl.registerTTLIndex(Cache, 'expiresAt', 1, 20)
+    // The TTL interval is unref'd, so keep the event loop alive until the event arrives
+    const keepAlive = setInterval(() => {}, 1000)
+    let event
+    try {
+      event = await stream.next()
+    } finally {
+      clearInterval(keepAlive)
+      ttl.cleanup()
+    }
+
+    assert.strictEqual(event?.operationType, 'delete')
+    await stream.close()
+  })
+})
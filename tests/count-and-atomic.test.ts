@@ -1,6 +1,7 @@
 import { test } from 'node:test'
 import assert from 'node:assert'
-import { model, Schema, ObjectId, clearRegistry } from '../index'
+import * as fs from 'fs'
+import { model, Schema, ObjectId, clearRegistry, createDatabase } from '../index'
 import { testUsers } from './fixtures'
 
 test('Count and Atomic Operations', async t => {
@@ -304,4 +305,84 @@ test('Count and Atomic Operations', async t => {
     const found = await User.findOne({ name: 'Diana' })
     assert.strictEqual(found, null)
   })
+
+  await t.test('replaceOne should replace the document and keep its _id', async () => {
+    const schema = new Schema(
+      { name: { type: String, required: true }, role: { type: String, default: 'member' } },
+      { timestamps: true }
+    )
+    const hookUpdates: unknown[] = []
+    schema.pre('update', ({ update }) => {
+      hookUpdates.push(update)
+    })
+    const User = model('User', schema)
+    const alice = await User.create({ name: 'Alice', age: 25, city: 'NYC' } as any)
+    await new Promise(resolve => setTimeout(resolve, 5))
+
+    const result = await User.replaceOne({ name: 'Alice' }, { name: 'Alicia', age: 26 } as any)
+    assert.deepStrictEqual(result, { matchedCount: 1, modifiedCount: 1 })
+
+    const replaced = (await User.findById(alice._id).lean()) as any
+    assert.strictEqual(replaced.name, 'Alicia')
+    assert.strictEqual(replaced.city, undefined)
+    assert.strictEqual(replaced.role, 'member')
+    assert.strictEqual(replaced.createdAt.getTime(), (alice as any).createdAt.getTime())
+    assert.ok(replaced.updatedAt.getTime() > (alice as any).updatedAt.getTime())
+    assert.strictEqual(hookUpdates.length, 1)
+
+    await assert.rejects(User.replaceOne({ name: 'Alicia' }, { age: 1 } as any).exec(), /required/)
+    await assert.rejects(
+      User.replaceOne({ name: 'Alicia' }, { $set: { age: 1 } } as any).exec(),
+      /must not contain update operators/
+    )
+
+    const upserted = await User.replaceOne({ name: 'Bob' }, { name: 'Bob', age: 30 } as any, {
+      upsert: true
+    })
+    assert.strictEqual(upserted.upsertedCount, 1)
+    assert.strictEqual(await User.countDocuments(), 2)
+  })
+
+  await t.test('findOneAndReplace should return the new or original document', async () => {
+    const User = model('User', new Schema({}))
+    const alice = await User.create({ name: 'Alice', age: 25, city: 'NYC' })
+
+    const after = await User.findOneAndReplace({ name: 'Alice' }, { name: 'Alice', age: 26 })
+    assert.strictEqual(String(after?._id), String(alice._id))
+    assert.strictEqual(after?.age, 26)
+    assert.strictEqual(after?.city, undefined)
+
+    const before = await User.findByIdAndReplace(
+      alice._id,
+      { name: 'Alice', age: 27 },
+      { returnDocument: 'before' }
+    ).lean()
+    assert.strictEqual(before?.age, 26)
+    assert.strictEqual((await User.findById(alice._id))?.age, 27)
+
+    assert.strictEqual(await User.findOneAndReplace({ name: 'Nobody' }, { name: 'x' }), null)
+    const created = await User.findOneAndReplace(
+      { name: 'Bob' },
+      { name: 'Bob', age: 30 },
+      { upsert: true }
+    )
+    assert.strictEqual(created?.age, 30)
+  })
+
+  await t.test('replaceOne should replace the row with sqlite storage', async () => {
+    const dataPath = './data/test-replace-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const User = db.model('User', new Schema({}))
+    const alice = await User.create({ name: 'Alice', age: 25, city: 'NYC' })
+
+    await User.replaceOne({ name: 'Alice' }, { name: 'Alice', age: 26 })
+    const replaced = await User.findOne({ _id: alice._id }).lean()
+    assert.strictEqual(replaced?.age, 26)
+    assert.strictEqual(replaced?.city, undefined)
+    assert.strictEqual(await User.countDocuments(), 1)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
 })
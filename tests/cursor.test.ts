@@ -0,0 +1,182 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, model, createDatabase, clearRegistry, QueryCursor } from '../index'
+
+interface Item {
+  n: number
+  group?: string
+}
+
+const itemSchema = () => {
+  const schema = new Schema<Item>({ n: Number, group: String })
+  schema.virtual('double').get(function (this: Item) {
+    return this.n * 2
+  })
+  return schema
+}
+
+const seed = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ n: i, group: i % 2 ? 'odd' : 'even' }))
+
+test('Query Cursors', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should step through results with next() and close()', async () => {
+    const Item = model('CursorItem1', itemSchema())
+    await Item.insertMany(seed(5))
+
+    const cursor = Item.find({}).sort({ n: -1 }).cursor({ batchSize: 2 })
+    assert.ok(cursor instanceof QueryCursor)
+
+    const first = await cursor.next()
+    const second = await cursor.next()
+    assert.strictEqual(first?.n, 4)
+    assert.strictEqual(second?.n, 3)
+    assert.strictEqual((second as any).double, 6)
+
+    await cursor.close()
+    assert.strictEqual(cursor.closed, true)
+    assert.strictEqual(await cursor.next(), null)
+  })
+
+  await t.test('should support for await over Model.find()', async () => {
+    const Item = model('CursorItem2', itemSchema())
+    await Item.insertMany(seed(10))
+
+    const seen: number[] = []
+    for await (const item of Item.find({ group: 'even' }).sort({ n: 1 }).skip(1).limit(3)) {
+      seen.push(item.n)
+    }
+    assert.deepStrictEqual(seen, [2, 4, 6])
+
+    const lean: unknown[] = []
+    for await (const item of Item.find({ n: { $lt: 2 } })
+      .lean()
+      .select({ n: 1 })) {
+      lean.push(item)
+      break
+    }
+    assert.strictEqual((lean[0] as any).double, undefined)
+    assert.strictEqual((lean[0] as any).group, undefined)
+  })
+
+  await t.test('should run eachAsync with limited parallelism', async () => {
+    const Item = model('CursorItem3', itemSchema())
+    await Item.insertMany(seed(6))
+
+    let active = 0
+    let maxActive = 0
+    const seen: number[] = []
+    await Item.find({}).eachAsync(
+      async (item, index) => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        seen[index] = item.n
+        active--
+      },
+      { parallel: 3, batchSize: 2 }
+    )
+
+    assert.strictEqual(maxActive, 3)
+    assert.deepStrictEqual(seen, [0, 1, 2, 3, 4, 5])
+  })
+
+  await t.test('should reject eachAsync with the callback error and close', async () => {
+    const Item = model('CursorItem4', itemSchema())
+    await Item.insertMany(seed(4))
+
+    const cursor = Item.find({}).cursor()
+    await assert.rejects(
+      cursor.eachAsync(item => {
+        if (item.n === 2) throw new Error('bad item')
+      }),
+      /bad item/
+    )
+    assert.strictEqual(cursor.closed, true)
+  })
+
+  await t.test('should populate each batch', async () => {
+    const Author = model('CursorAuthor', new Schema({ name: String }))
+    const Book = model(
+      'CursorBook',
+      new Schema({ title: String, author: { type: String, ref: 'CursorAuthor' } })
+    )
+    const author = await Author.create({ name: 'Ann' })
+    await Book.insertMany([
+      { title: 'A', author: author._id },
+      { title: 'B', author: author._id }
+    ])
+
+    const names: string[] = []
+    for await (const book of Book.find({}).populate('author').cursor({ batchSize: 1 })) {
+      names.push((book.author as any).name)
+    }
+    assert.deepStrictEqual(names, ['Ann', 'Ann'])
+  })
+
+  await t.test('should run post find hooks for each batch', async () => {
+    const schema = itemSchema()
+    const batches: number[][] = []
+    schema.post('find', ({ results }) => {
+      batches.push(results.map(item => item.n))
+    })
+    const Item = model('CursorItem5', schema)
+    await Item.insertMany(seed(5))
+
+    const seen: number[] = []
+    for await (const item of Item.find({}).sort({ n: 1 }).cursor({ batchSize: 2 })) {
+      seen.push(item.n)
+    }
+    assert.deepStrictEqual(seen, [0, 1, 2, 3, 4])
+    assert.deepStrictEqual(batches, [[0, 1], [2, 3], [4]])
+  })
+
+  await t.test('should stream sqlite results and allow writes between batches', async () => {
+    const dataPath = './data/test-cursor-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Item = db.model('Item', itemSchema())
+    await Item.insertMany(seed(7))
+
+    const seen: number[] = []
+    for await (const item of Item.find({ n: { $gte: 1 } })
+      .sort({ n: 1 })
+      .limit(5)
+      .cursor({ batchSize: 2 })) {
+      seen.push(item.n)
+      item.group = 'seen'
+      await item.save()
+    }
+
+    assert.deepStrictEqual(seen, [1, 2, 3, 4, 5])
+    assert.strictEqual(await Item.countDocuments({ group: 'seen' }), 5)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  await t.test('should read sqlite results from one snapshot', async () => {
+    const dataPath = './data/test-cursor-sqlite-snapshot'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Item = db.model('Item', itemSchema())
+    await Item.insertMany(seed(5))
+
+    // Moving rows past the end of the sort order must not skip or repeat any
+    const seen: number[] = []
+    for await (const item of Item.find({}).sort({ n: 1 }).skip(1).cursor({ batchSize: 2 })) {
+      seen.push(item.n)
+      item.n += 10
+      await item.save()
+      await Item.create({ n: -1 })
+    }
+
+    assert.deepStrictEqual(seen, [1, 2, 3, 4])
+    assert.strictEqual(await Item.countDocuments({ n: { $gte: 10 } }), 4)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
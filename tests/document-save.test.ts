@@ -1,6 +1,7 @@
 import { test } from 'node:test'
 import assert from 'node:assert'
-import { model, Schema, clearRegistry } from '../index'
+import * as fs from 'fs'
+import { model, Schema, clearRegistry, createDatabase, VersionError } from '../index'
 
 test('Document Save Method', async t => {
   t.beforeEach(async () => await clearRegistry())
@@ -535,4 +536,180 @@ test('Document Save Method', async t => {
 
     assert.strictEqual(saved.age, 41)
   })
+
+  await t.test('should track modified paths', async () => {
+    const User = model('SaveUser20', new Schema({}))
+    await User.create({ name: 'Alice', age: 25, address: { city: 'NYC', zip: '10001' }, tags: [] })
+
+    const user = (await User.findOne({ name: 'Alice' })) as any
+    assert.strictEqual(user.isModified(), false)
+    assert.strictEqual(user.isNew, false)
+
+    user.address.city = 'LA'
+    user.tags.push('new')
+    assert.deepStrictEqual(user.directModifiedPaths(), ['address.city', 'tags'])
+    assert.deepStrictEqual(user.modifiedPaths(), ['address', 'address.city', 'tags'])
+    assert.strictEqual(user.isModified('address'), true)
+    assert.strictEqual(user.isModified('address.zip'), false)
+    assert.strictEqual(user.isModified(['age', 'tags']), true)
+
+    user.markModified('age')
+    assert.strictEqual(user.isModified('age'), true)
+
+    await user.save()
+    assert.strictEqual(user.isModified(), false)
+    assert.deepStrictEqual(user.modifiedPaths(), [])
+  })
+
+  await t.test('should let save hooks check isModified and isNew', async () => {
+    const schema = new Schema({ email: String, password: String })
+    const seen: Array<{ isNew: boolean; password: boolean }> = []
+    schema.pre('save', function () {
+      seen.push({ isNew: this.$isNew, password: this.isModified('password') })
+      if (this.isModified('password')) {
+        this.password = `hashed:${this.password}`
+      }
+    })
+    const User = model('SaveUser21', schema)
+
+    const created = await User.create({ email: 'a@test.com', password: 'secret' })
+    assert.strictEqual(created.password, 'hashed:secret')
+
+    const user = (await User.findOne({ email: 'a@test.com' }))!
+    user.email = 'b@test.com'
+    await user.save()
+    assert.strictEqual((await User.findById(user._id))?.password, 'hashed:secret')
+
+    user.password = 'changed'
+    await user.save()
+    assert.strictEqual((await User.findById(user._id))?.password, 'hashed:changed')
+
+    assert.deepStrictEqual(seen, [
+      { isNew: true, password: true },
+      { isNew: false, password: false },
+      { isNew: false, password: true }
+    ])
+  })
+
+  await t.test('should only write the changed paths', async () => {
+    const dataPath = './data/test-save-diff-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const User = db.model('User', new Schema({}, { timestamps: true }))
+    await User.create({ name: 'Alice', age: 25, address: { city: 'NYC', zip: '10001' } })
+
+    const user = (await User.findOne({ name: 'Alice' })) as any
+    // A concurrent write to another field is kept
+    await User.updateOne({ name: 'Alice' }, { $set: { age: 30 } })
+
+    user.address.city = 'LA'
+    delete user.address.zip
+    const saved = await user.save()
+    assert.strictEqual(saved.age, 30)
+
+    const stored = (await User.findOne({ name: 'Alice' }).lean()) as any
+    assert.strictEqual(stored.age, 30)
+    assert.deepStrictEqual(stored.address, { city: 'LA' })
+    assert.ok(stored.updatedAt > stored.createdAt)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  await t.test('should version array changes and reject stale array saves', async () => {
+    const Post = model('SaveVersioned', new Schema({ title: String, tags: [String] }))
+    const created = await Post.create({ title: 'Hello', tags: ['a'] })
+    assert.strictEqual(created.__v, 0)
+
+    const first = (await Post.findById(created._id))!
+    const second = (await Post.findById(created._id))!
+
+    ;(first.tags as string[]).push('b')
+    await first.save()
+    assert.strictEqual(first.__v, 1)
+
+    // Other fields can still be saved from a stale copy
+    second.title = 'Renamed'
+    await second.save()
+
+    second.tags = ['c']
+    await assert.rejects(second.save(), VersionError)
+
+    const stored = (await Post.findById(created._id).lean()) as any
+    assert.deepStrictEqual(stored.tags, ['a', 'b'])
+    assert.strictEqual(stored.title, 'Renamed')
+    assert.strictEqual(stored.__v, 1)
+
+    // Array update operators bump the version too
+    await Post.updateOne({ _id: created._id }, { $push: { tags: 'd' } })
+    await Post.updateOne({ _id: created._id }, { $set: { title: 'Again' } })
+    assert.strictEqual(((await Post.findById(created._id).lean()) as any).__v, 2)
+  })
+
+  for (const storage of ['file', 'sqlite'] as const) {
+    await t.test(`should store the version bump of findOneAndUpdate on ${storage}`, async () => {
+      const dataPath = `./data/test-save-version-find-${storage}`
+      fs.rmSync(dataPath, { recursive: true, force: true })
+      const config = { storage, [storage]: { dataPath, persistMode: 'immediate' as const } }
+      const postSchema = () => new Schema({ tags: [String] })
+      const db = createDatabase(config)
+      const Post = db.model('Post', postSchema())
+      const { _id } = await Post.create({ tags: ['a'] })
+
+      const updated = await Post.findOneAndUpdate({ _id }, { $push: { tags: 'b' } }, { new: true })
+      assert.strictEqual(updated?.__v, 1)
+      await db.disconnect()
+
+      const reader = createDatabase(config)
+      const stored = (await reader.model('Post', postSchema()).findById(_id).lean()) as any
+      assert.deepStrictEqual(stored.tags, ['a', 'b'])
+      assert.strictEqual(stored.__v, 1)
+      await reader.disconnect()
+      fs.rmSync(dataPath, { recursive: true, force: true })
+    })
+  }
+
+  await t.test('should check the version on every save with optimisticConcurrency', async () => {
+    const dataPath = './data/test-save-version-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const schema = new Schema({ name: String }, { optimisticConcurrency: true })
+    const User = db.model('User', schema)
+    const { _id } = await User.create({ name: 'Alice' })
+
+    const first = (await User.findById(_id))!
+    const second = (await User.findById(_id))!
+    first.name = 'Alicia'
+    await first.save()
+    assert.strictEqual(first.__v, 1)
+
+    second.name = 'Ally'
+    await assert.rejects(second.save(), (error: Error) => {
+      assert.ok(error instanceof VersionError)
+      assert.deepStrictEqual(error.modifiedPaths, ['name'])
+      return true
+    })
+    assert.strictEqual((await User.findById(_id))?.name, 'Alicia')
+
+    first.name = 'Alice'
+    await first.save()
+    assert.strictEqual(((await User.findById(_id).lean()) as any).__v, 2)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  await t.test('should support custom and disabled version keys', async () => {
+    const Custom = model('SaveCustomVersion', new Schema({}, { versionKey: '_version' }))
+    const custom = await Custom.create({ items: [1] })
+    ;(custom.items as number[]).push(2)
+    await custom.save()
+    assert.strictEqual(((await Custom.findById(custom._id).lean()) as any)._version, 1)
+
+    const Unversioned = model('SaveNoVersion', new Schema({}, { versionKey: false }))
+    const doc = await Unversioned.create({ items: [1] })
+    await Unversioned.updateOne({ _id: doc._id }, { $push: { items: 2 } })
+    const stored = (await Unversioned.findById(doc._id).lean()) as any
+    assert.deepStrictEqual(Object.keys(stored).sort(), ['_id', 'items'])
+  })
 })
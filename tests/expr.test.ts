@@ -0,0 +1,124 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { model, Schema, clearRegistry, createDatabase } from '../index'
+
+interface Budget {
+  name: string
+  spent?: number
+  budget?: number
+  approved?: boolean
+}
+
+const budgets: Budget[] = [
+  { name: 'travel', spent: 400, budget: 300 },
+  { name: 'food', spent: 100, budget: 200 },
+  { name: 'office', spent: 250, budget: 250, approved: true },
+  { name: 'misc', budget: 50 }
+]
+
+test('$expr queries', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should compare fields against each other', async () => {
+    const Budget = model('ExprBudget1', new Schema<Budget>({}))
+    await Budget.insertMany(budgets)
+
+    const over = await Budget.find({ $expr: { $gt: ['$spent', '$budget'] } })
+    assert.deepStrictEqual(
+      over.map(b => b.name),
+      ['travel']
+    )
+
+    const atOrUnder = await Budget.find({ $expr: { $lte: ['$spent', '$budget'] } }).sort({
+      name: 1
+    })
+    assert.deepStrictEqual(
+      atOrUnder.map(b => b.name),
+      ['food', 'misc', 'office']
+    )
+
+    const equal = await Budget.findOne({ $expr: { $eq: ['$spent', '$budget'] } })
+    assert.strictEqual(equal?.name, 'office')
+  })
+
+  await t.test('should combine expressions with field filters', async () => {
+    const Budget = model('ExprBudget2', new Schema<Budget>({}))
+    await Budget.insertMany(budgets)
+
+    const count = await Budget.countDocuments({
+      $expr: { $gt: ['$spent', { $multiply: ['$budget', 0.9] }] }
+    })
+    assert.strictEqual(count, 2)
+
+    const combined = await Budget.find({
+      approved: { $ne: true },
+      $expr: { $or: [{ $gt: ['$spent', '$budget'] }, { $lt: ['$spent', 150] }] }
+    }).sort({ name: 1 })
+    assert.deepStrictEqual(
+      combined.map(b => b.name),
+      ['food', 'misc', 'travel']
+    )
+
+    const notOver = await Budget.find({
+      $and: [{ $expr: { $not: [{ $gt: ['$spent', '$budget'] }] } }, { spent: { $exists: true } }]
+    }).sort({ name: 1 })
+    assert.deepStrictEqual(
+      notOver.map(b => b.name),
+      ['food', 'office']
+    )
+  })
+
+  await t.test('should support $expr in updateMany and deleteMany', async () => {
+    const Budget = model('ExprBudget3', new Schema<Budget>({}))
+    await Budget.insertMany(budgets)
+
+    const updated = await Budget.updateMany(
+      { $expr: { $gte: ['$spent', '$budget'] } },
+      { $set: { approved: false } }
+    )
+    assert.strictEqual(updated.modifiedCount, 2)
+
+    const deleted = await Budget.deleteMany({ $expr: { $eq: ['$approved', false] } })
+    assert.strictEqual(deleted.deletedCount, 2)
+    assert.strictEqual(await Budget.countDocuments(), 2)
+  })
+
+  await t.test('should run with sqlite storage', async () => {
+    const dataPath = './data/test-expr-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Budget = db.model('Budget', new Schema<Budget>({}))
+    await Budget.insertMany(budgets)
+
+    // Translated to json_extract comparisons
+    const over = await Budget.find({ $expr: { $gt: ['$spent', '$budget'] } })
+    assert.deepStrictEqual(
+      over.map(b => b.name),
+      ['travel']
+    )
+    assert.strictEqual(await Budget.countDocuments({ $expr: { $lt: ['$spent', '$budget'] } }), 2)
+
+    // Computed operands fall back to JavaScript matching
+    const near = await Budget.find({
+      $expr: { $gt: ['$spent', { $multiply: ['$budget', 0.9] }] }
+    }).sort({ name: 1 })
+    assert.deepStrictEqual(
+      near.map(b => b.name),
+      ['office', 'travel']
+    )
+
+    await Budget.updateMany(
+      { $expr: { $gte: ['$spent', { $add: ['$budget', 0] }] } },
+      { $set: { approved: false } }
+    )
+    assert.strictEqual(await Budget.countDocuments({ approved: false }), 2)
+
+    const deleted = await Budget.deleteMany({ $expr: { $eq: ['$spent', '$budget'] } })
+    assert.strictEqual(deleted.deletedCount, 1)
+    assert.strictEqual(await Budget.countDocuments(), 3)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
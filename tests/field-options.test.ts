@@ -0,0 +1,126 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, model, clearRegistry, createDatabase, StrictModeError } from '../index'
+
+test('Field Options', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should apply lowercase, uppercase and trim on writes and queries', async () => {
+    const User = model(
+      'TransformUser',
+      new Schema({
+        email: { type: String, lowercase: true, trim: true },
+        code: { type: String, uppercase: true },
+        tags: [{ type: String, trim: true, lowercase: true }]
+      })
+    )
+    const user = (await User.create({
+      email: '  Alice@Example.COM ',
+      code: 'ab1',
+      tags: [' One', 'TWO ']
+    })) as any
+    assert.strictEqual(user.email, 'alice@example.com')
+    assert.strictEqual(user.code, 'AB1')
+    assert.deepStrictEqual(user.tags, ['one', 'two'])
+
+    await User.updateOne({ _id: user._id }, { $set: { code: 'xy2' }, $push: { tags: ' Three' } })
+    const stored = (await User.findOne({ email: 'ALICE@example.com ' }).lean()) as any
+    assert.strictEqual(stored?.code, 'XY2')
+    assert.deepStrictEqual(stored?.tags, ['one', 'two', 'three'])
+    assert.strictEqual(await User.countDocuments({ tags: { $in: ['THREE'] } }), 1)
+  })
+
+  await t.test('should hide select: false fields unless selected with +field', async () => {
+    const User = model(
+      'SelectUser',
+      new Schema({ name: String, password: { type: String, select: false } })
+    )
+    const created = await User.create({ name: 'Alice', password: 'secret' })
+
+    const user = (await User.findById(created._id)) as any
+    assert.strictEqual(user.name, 'Alice')
+    assert.strictEqual('password' in user, false)
+    assert.strictEqual('password' in ((await User.find({}).lean())[0] as any), false)
+
+    const withPassword = (await User.findOne({ name: 'Alice' }).select('+password')) as any
+    assert.strictEqual(withPassword.password, 'secret')
+    assert.strictEqual(withPassword.name, 'Alice')
+
+    const onlyPassword = (await User.findOne({}).select('password')) as any
+    assert.deepStrictEqual(Object.keys(onlyPassword).sort(), ['_id', 'password'])
+    const namePlusPassword = (await User.findOne({}).select('name +password').lean()) as any
+    assert.deepStrictEqual(Object.keys(namePlusPassword).sort(), ['_id', 'name', 'password'])
+
+    // Saving a document loaded without the field keeps the stored value
+    user.name = 'Alicia'
+    await user.save()
+    const stored = (await User.findById(created._id).select('+password').lean()) as any
+    assert.strictEqual(stored.password, 'secret')
+    assert.strictEqual(stored.name, 'Alicia')
+  })
+
+  await t.test('should not change immutable fields after creation', async () => {
+    const User = model(
+      'ImmutableUser',
+      new Schema({ name: String, username: { type: String, immutable: true } })
+    )
+    const created = await User.create({ name: 'Alice', username: 'alice' })
+
+    await User.updateOne({ _id: created._id }, { $set: { name: 'Alicia', username: 'other' } })
+    await User.findOneAndReplace({ _id: created._id }, { name: 'Ally', username: 'x' })
+    const user = (await User.findById(created._id)) as any
+    assert.strictEqual(user.name, 'Ally')
+    assert.strictEqual(user.username, 'alice')
+
+    user.username = 'changed'
+    await user.save()
+    const stored = (await User.findById(created._id).lean()) as any
+    assert.strictEqual(stored.username, 'alice')
+
+    // $setOnInsert can still set the field on an upsert
+    await User.updateOne({ name: 'Bob' }, { $setOnInsert: { username: 'bob' } }, { upsert: true })
+    assert.strictEqual(((await User.findOne({ name: 'Bob' }).lean()) as any).username, 'bob')
+  })
+
+  await t.test("should reject changes to immutable fields with strict: 'throw'", async () => {
+    const User = model(
+      'ImmutableThrow',
+      new Schema({ username: { type: String, immutable: true } }, { strict: 'throw' })
+    )
+    const created = await User.create({ username: 'alice' })
+
+    await assert.rejects(
+      User.updateOne({ _id: created._id }, { $set: { username: 'bob' } }).exec(),
+      (error: Error) => {
+        assert.ok(error instanceof StrictModeError)
+        assert.strictEqual(error.message, "Field `username` is immutable and strict = 'throw'")
+        return true
+      }
+    )
+  })
+
+  await t.test('should read, write and query fields through their alias', async () => {
+    const dataPath = './data/test-field-alias-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const User = db.model('User', new Schema({ n: { type: String, alias: 'name' }, age: Number }))
+
+    const user = (await User.create({ name: 'Alice', age: 30 } as any)) as any
+    assert.strictEqual(user.n, 'Alice')
+    assert.strictEqual(user.name, 'Alice')
+
+    await User.updateOne({ name: 'Alice' } as any, { $set: { name: 'Alicia' } } as any)
+    const found = (await User.findOne({ $or: [{ name: 'Alicia' }] } as any)) as any
+    assert.strictEqual(found?.n, 'Alicia')
+
+    found.name = 'Ally'
+    await found.save()
+    const stored = (await User.findById(user._id).lean()) as any
+    assert.strictEqual(stored.n, 'Ally')
+    assert.strictEqual('name' in stored, false)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
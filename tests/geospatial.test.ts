@@ -0,0 +1,245 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { model, Schema, clearRegistry, createDatabase } from '../index'
+
+interface Zone {
+  name: string
+  location: { type: 'Point'; coordinates: [number, number] }
+}
+
+const point = (lng: number, lat: number) => ({
+  type: 'Point' as const,
+  coordinates: [lng, lat] as [number, number]
+})
+
+// Around Berlin Mitte
+const zones = (): Zone[] => [
+  { name: 'alexanderplatz', location: point(13.4132, 52.5219) },
+  { name: 'brandenburger-tor', location: point(13.3777, 52.5163) },
+  { name: 'potsdamer-platz', location: point(13.3759, 52.5096) },
+  { name: 'tempelhof', location: point(13.4039, 52.4731) },
+  { name: 'potsdam', location: point(13.0645, 52.3906) }
+]
+
+const zoneSchema = () => {
+  const schema = new Schema<Zone>({ name: String, location: Object })
+  schema.index({ location: '2dsphere' })
+  return schema
+}
+
+const berlin = point(13.405, 52.52)
+
+test('Geospatial queries', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should register 2dsphere indexes on the schema', () => {
+    const schema = new Schema<Zone>({ name: String, location: Object })
+    schema.index({ location: '2dsphere', name: 1 })
+    assert.deepStrictEqual([...schema.getGeoIndexes()], ['location'])
+    assert.deepStrictEqual(schema.getIndexes(), [['name']])
+  })
+
+  await t.test('should sort $near results by distance and apply $maxDistance', async () => {
+    const Zone = model('GeoZone1', zoneSchema())
+    await Zone.insertMany(zones())
+
+    const nearby = await Zone.find({
+      location: { $near: { $geometry: berlin, $maxDistance: 3000 } }
+    })
+    assert.deepStrictEqual(
+      nearby.map(z => z.name),
+      ['alexanderplatz', 'brandenburger-tor', 'potsdamer-platz']
+    )
+
+    const ring = await Zone.find({
+      location: { $nearSphere: { $geometry: berlin, $minDistance: 3000, $maxDistance: 6000 } }
+    })
+    assert.deepStrictEqual(
+      ring.map(z => z.name),
+      ['tempelhof']
+    )
+
+    // Legacy coordinate pairs measure distance in radians
+    const legacy = await Zone.findOne({
+      location: { $nearSphere: [13.405, 52.52], $maxDistance: 1000 / 6378100 }
+    })
+    assert.strictEqual(legacy?.name, 'alexanderplatz')
+  })
+
+  await t.test('should keep the spatial index current across writes', async () => {
+    const Zone = model('GeoZone2', zoneSchema())
+    await Zone.insertMany(zones())
+    const near = { location: { $near: { $geometry: berlin, $maxDistance: 1000 } } }
+
+    await Zone.updateOne({ name: 'potsdam' }, { $set: { location: point(13.406, 52.521) } })
+    assert.deepStrictEqual(
+      (await Zone.find(near)).map(z => z.name),
+      ['potsdam', 'alexanderplatz']
+    )
+
+    await Zone.deleteOne({ name: 'potsdam' })
+    await Zone.create({ name: 'museumsinsel', location: point(13.3977, 52.5169) })
+    assert.deepStrictEqual(
+      (await Zone.find(near)).map(z => z.name),
+      ['alexanderplatz', 'museumsinsel']
+    )
+    assert.strictEqual(await Zone.countDocuments(near), 2)
+  })
+
+  await t.test('should match $geoWithin shapes', async () => {
+    const Zone = model('GeoZone3', zoneSchema())
+    await Zone.insertMany(zones())
+    const names = (docs: Zone[]) => docs.map(z => z.name).sort()
+
+    const sphere = await Zone.find({
+      location: { $geoWithin: { $centerSphere: [[13.405, 52.52], 5000 / 6378100] } }
+    })
+    assert.deepStrictEqual(names(sphere), [
+      'alexanderplatz',
+      'brandenburger-tor',
+      'potsdamer-platz'
+    ])
+
+    const box = await Zone.find({
+      location: {
+        $geoWithin: {
+          $box: [
+            [13.37, 52.5],
+            [13.39, 52.52]
+          ]
+        }
+      }
+    })
+    assert.deepStrictEqual(names(box), ['brandenburger-tor', 'potsdamer-platz'])
+
+    const south: [number, number][] = [
+      [13.0, 52.3],
+      [13.5, 52.3],
+      [13.45, 52.5],
+      [13.0, 52.45],
+      [13.0, 52.3]
+    ]
+    const polygon = await Zone.find({
+      location: { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [south] } } }
+    })
+    assert.deepStrictEqual(names(polygon), ['potsdam', 'tempelhof'])
+
+    const legacyPolygon = await Zone.find({ location: { $geoWithin: { $polygon: south } } })
+    assert.deepStrictEqual(names(legacyPolygon), ['potsdam', 'tempelhof'])
+  })
+
+  await t.test('should match $geoIntersects against lines and polygons', async () => {
+    const Area = model('GeoArea', new Schema({ name: String, shape: Object }))
+    await Area.insertMany([
+      {
+        name: 'square',
+        shape: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [0, 0],
+              [2, 0],
+              [2, 2],
+              [0, 2],
+              [0, 0]
+            ]
+          ]
+        }
+      },
+      {
+        name: 'road',
+        shape: {
+          type: 'LineString',
+          coordinates: [
+            [3, -1],
+            [3, 3]
+          ]
+        }
+      },
+      { name: 'depot', shape: point(1, 1) }
+    ])
+
+    const crossing = await Area.find({
+      shape: {
+        $geoIntersects: {
+          $geometry: {
+            type: 'LineString',
+            coordinates: [
+              [-1, 1],
+              [4, 1]
+            ]
+          }
+        }
+      }
+    })
+    assert.deepStrictEqual(
+      crossing.map(a => a.name),
+      ['square', 'road', 'depot']
+    )
+
+    const inside = await Area.find({ shape: { $geoIntersects: { $geometry: point(0.5, 0.5) } } })
+    assert.deepStrictEqual(
+      inside.map(a => a.name),
+      ['square']
+    )
+  })
+
+  await t.test('should add distances with the $geoNear stage', async () => {
+    const Zone = model('GeoZone4', zoneSchema())
+    await Zone.insertMany(zones())
+
+    const results = await Zone.aggregate<{ name: string; dist: { km: number }; loc: unknown }>([
+      {
+        $geoNear: {
+          near: berlin,
+          distanceField: 'dist.km',
+          maxDistance: 10000,
+          query: { name: { $ne: 'brandenburger-tor' } },
+          distanceMultiplier: 0.001,
+          includeLocs: 'loc'
+        }
+      },
+      { $limit: 2 }
+    ])
+
+    assert.deepStrictEqual(
+      results.map(r => r.name),
+      ['alexanderplatz', 'potsdamer-platz']
+    )
+    assert.ok(results[0].dist.km > 0.5 && results[0].dist.km < 0.7)
+    assert.deepStrictEqual(results[0].loc, zones()[0].location)
+
+    await assert.rejects(
+      model('GeoPlain', new Schema({ name: String })).aggregate([
+        { $geoNear: { near: berlin, distanceField: 'd' } }
+      ]),
+      /requires a 2dsphere index/
+    )
+  })
+
+  await t.test('should run geo queries with sqlite storage', async () => {
+    const dataPath = './data/test-geo-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Zone = db.model('Zone', zoneSchema())
+    await Zone.insertMany(zones())
+
+    const nearby = await Zone.find({
+      location: { $near: { $geometry: berlin, $maxDistance: 3000 } }
+    }).limit(2)
+    assert.deepStrictEqual(
+      nearby.map(z => z.name),
+      ['alexanderplatz', 'brandenburger-tor']
+    )
+    assert.strictEqual(
+      await Zone.countDocuments({
+        location: { $geoWithin: { $centerSphere: [[13.405, 52.52], 5000 / 6378100] } }
+      }),
+      3
+    )
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,77 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { Schema, model, clearRegistry, createDatabase, plugin } from '../index'
+import type { SchemaPlugin } from '../index'
+
+const softDelete: SchemaPlugin<{ field?: string }> = (schema, options) => {
+  const field = options?.field ?? 'deletedAt'
+  schema.add({ [field]: { type: Date, default: null } })
+  schema.index(field)
+  schema.methods.softDelete = function () {
+    this[field] = new Date()
+    return this.save()
+  }
+  schema.statics.findActive = function () {
+    return this.find({ [field]: null })
+  }
+}
+
+const slug: SchemaPlugin = schema => {
+  schema.add({ slug: String })
+  schema.virtual('url').get((doc: { slug: string }) => `/posts/${doc.slug}`)
+  schema.pre('save', ({ doc }: { doc: any }) => {
+    doc.slug = String(doc.title).toLowerCase().replace(/\s+/g, '-')
+  })
+}
+
+test('Schema Plugins', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should add fields, indexes, methods and statics', async () => {
+    const schema = new Schema({ name: String }).plugin(softDelete, { field: 'removedAt' })
+    assert.deepStrictEqual(schema.getIndexes(), [['removedAt']])
+
+    const User = model('PluginUser', schema) as any
+    await User.insertMany([{ name: 'Alice' }, { name: 'Bob' }])
+    const bob = await User.findOne({ name: 'Bob' })
+    await bob.softDelete()
+
+    const active = await User.findActive()
+    assert.deepStrictEqual(
+      active.map((user: { name: string }) => user.name),
+      ['Alice']
+    )
+    assert.ok((await User.findOne({ name: 'Bob' }).lean()).removedAt instanceof Date)
+  })
+
+  await t.test('should add virtuals and hooks', async () => {
+    const Post = model('PluginPost', new Schema({ title: String }).plugin(slug)) as any
+    const post = await Post.create({ title: 'Hello Plugin World' })
+    assert.strictEqual(post.slug, 'hello-plugin-world')
+    assert.strictEqual(post.url, '/posts/hello-plugin-world')
+  })
+
+  await t.test('should run global plugins once on every registered schema', async () => {
+    let runs = 0
+    plugin(
+      (schema, options) => {
+        runs++
+        schema.add({ tenant: { type: String, default: options?.tenant } })
+      },
+      { tenant: 'acme' }
+    )
+
+    const schema = new Schema({ name: String })
+    const Account = model('GlobalAccount', schema)
+    const db = createDatabase()
+    db.model('GlobalAccountCopy', schema)
+    const Order = db.model('GlobalOrder', new Schema({ total: Number }))
+    assert.strictEqual(runs, 2)
+
+    const account = (await Account.create({ name: 'Alice' })) as any
+    const order = (await Order.create({ total: 5 })) as any
+    assert.strictEqual(account.tenant, 'acme')
+    assert.strictEqual(order.tenant, 'acme')
+    await db.disconnect()
+  })
+})
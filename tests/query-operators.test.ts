@@ -592,4 +592,122 @@ test('Model - Query Operators', async t => {
       assert.strictEqual(results[0].name, 'Dave')
     }
   )
+
+  await t.test('should support $type with aliases, codes and arrays', async () => {
+    const Item = model('Item', new Schema({}))
+    await Item.insertMany([
+      { name: 'a', value: 'text' },
+      { name: 'b', value: 42 },
+      { name: 'c', value: 4.5 },
+      { name: 'd', value: null },
+      { name: 'e', value: ['x', 1] },
+      { name: 'f', value: new Date() },
+      { name: 'g' }
+    ])
+
+    const names = async (query: Record<string, unknown>) =>
+      (await Item.find(query).sort({ name: 1 })).map(item => item.name)
+
+    assert.deepStrictEqual(await names({ value: { $type: 'string' } }), ['a', 'e'])
+    assert.deepStrictEqual(await names({ value: { $type: 'number' } }), ['b', 'c', 'e'])
+    assert.deepStrictEqual(await names({ value: { $type: 16 } }), ['b', 'e'])
+    assert.deepStrictEqual(await names({ value: { $type: 'double' } }), ['c'])
+    assert.deepStrictEqual(await names({ value: { $type: ['null', 'date'] } }), ['d', 'f'])
+    assert.deepStrictEqual(await names({ value: { $type: 'array' } }), ['e'])
+    assert.deepStrictEqual(await names({ value: { $not: { $type: 'string' } } }), [
+      'b',
+      'c',
+      'd',
+      'f',
+      'g'
+    ])
+    await assert.rejects(Item.find({ value: { $type: 'strng' } }).exec(), /Unknown type name alias/)
+  })
+
+  await t.test('should support $mod', async () => {
+    const User = model('User', new Schema({}))
+    await User.insertMany(testUsers)
+
+    const results = await User.find({ age: { $mod: [5, 0] } }).sort({ age: 1 })
+    assert.deepStrictEqual(
+      results.map(u => u.age),
+      [25, 35, 40]
+    )
+    await assert.rejects(User.find({ age: { $mod: [0, 1] } }).exec(), /divisor cannot be 0/)
+  })
+
+  await t.test(
+    'should support $bitsAllSet, $bitsAnySet, $bitsAllClear and $bitsAnyClear',
+    async () => {
+      const Flags = model('Flags', new Schema({}))
+      await Flags.insertMany([
+        { name: 'none', flags: 0 },
+        { name: 'read', flags: 0b001 },
+        { name: 'readWrite', flags: 0b011 },
+        { name: 'all', flags: 0b111 },
+        { name: 'text', flags: 'rw' }
+      ])
+
+      const names = async (query: Record<string, unknown>) =>
+        (await Flags.find(query)).map(doc => doc.name)
+
+      assert.deepStrictEqual(await names({ flags: { $bitsAllSet: 0b011 } }), ['readWrite', 'all'])
+      assert.deepStrictEqual(await names({ flags: { $bitsAllSet: [0, 2] } }), ['all'])
+      assert.deepStrictEqual(await names({ flags: { $bitsAnySet: [1, 2] } }), ['readWrite', 'all'])
+      assert.deepStrictEqual(await names({ flags: { $bitsAllClear: 0b110 } }), ['none', 'read'])
+      assert.deepStrictEqual(await names({ flags: { $bitsAnyClear: 0b011 } }), ['none', 'read'])
+    }
+  )
+
+  await t.test('should support $where function predicates', async () => {
+    const User = model('User', new Schema({}))
+    await User.insertMany(testUsers)
+
+    const results = await User.find({
+      city: 'New York',
+      $where: function (this: { name: string; age: number }) {
+        return this.age > 30 && this.name.length === 3
+      }
+    })
+    assert.deepStrictEqual(
+      results.map(u => u.name),
+      ['Eve']
+    )
+    await assert.rejects(
+      User.find({ $where: 'this.age > 30' as never }).exec(),
+      /requires a function/
+    )
+  })
+
+  await t.test('should support $jsonSchema', async () => {
+    const User = model('User', new Schema({}))
+    await User.insertMany([
+      ...testUsers,
+      { name: 'Frank', age: -1, city: 'Rome' },
+      { name: 'Grace', city: 'Oslo' }
+    ])
+
+    const results = await User.find({
+      $jsonSchema: {
+        required: ['name', 'age'],
+        properties: {
+          name: { bsonType: 'string', pattern: '^[A-D]' },
+          age: { bsonType: 'int', minimum: 0, maximum: 35 }
+        }
+      }
+    }).sort({ name: 1 })
+    assert.deepStrictEqual(
+      results.map(u => u.name),
+      ['Alice', 'Bob', 'Diana']
+    )
+
+    const invalid = await User.find({
+      $jsonSchema: { properties: { age: { type: 'number', minimum: 0 } } }
+    })
+    assert.deepStrictEqual(
+      invalid.map(u => u.name).filter(name => !testUsers.some(u => u.name === name)),
+      ['Grace']
+    )
+    await assert.rejects(User.find({ $jsonSchema: { format: 'email' } as never }).exec(), /format/)
+  })
 })
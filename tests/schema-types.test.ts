@@ -0,0 +1,144 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import {
+  Schema,
+  model,
+  clearRegistry,
+  createDatabase,
+  CastError,
+  Decimal128,
+  UUID,
+  SchemaMap
+} from '../index'
+
+function typesSchema() {
+  return new Schema({
+    scores: { type: Map, of: Number },
+    extra: Schema.Types.Mixed,
+    price: Schema.Types.Decimal128,
+    avatar: Buffer,
+    token: Schema.Types.UUID
+  })
+}
+
+test('Schema Types', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should cast Map values to their `of` type and hydrate maps', async () => {
+    const User = model('MapUser', new Schema({ name: String, scores: { type: Map, of: Number } }))
+    const created = (await User.create({ name: 'Alice', scores: { math: '90', art: 75 } })) as any
+    assert.ok(created.scores instanceof SchemaMap)
+    assert.strictEqual(created.scores.get('math'), 90)
+
+    const user = (await User.findById(created._id)) as any
+    user.scores.set('music', 60)
+    await user.save()
+
+    const stored = (await User.findById(created._id).lean()) as any
+    assert.deepStrictEqual(stored.scores, { math: 90, art: 75, music: 60 })
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(user)).scores, stored.scores)
+
+    await User.updateOne({ _id: created._id }, { $set: { 'scores.art': '80' } })
+    assert.strictEqual(await User.countDocuments({ 'scores.art': 80 }), 1)
+    await assert.rejects(User.create({ scores: { math: 'ninety' } }), CastError)
+    await assert.rejects(User.create({ scores: 'all' } as any), CastError)
+  })
+
+  await t.test('should store Mixed values as given', async () => {
+    const Item = model('MixedItem', new Schema({ extra: Schema.Types.Mixed }))
+    const created = await Item.create({ extra: { nested: [1, 'two', { three: true }] } })
+    const stored = (await Item.findById(created._id).lean()) as any
+    assert.deepStrictEqual(stored.extra, { nested: [1, 'two', { three: true }] })
+  })
+
+  await t.test('should keep Decimal128 values exact', async () => {
+    const Order = model('DecimalOrder', new Schema({ price: Schema.Types.Decimal128 }))
+    await Order.insertMany([{ price: '0.1' }, { price: 0.2 }])
+
+    const orders = (await Order.find({}).lean()) as any[]
+    assert.ok(orders[0].price instanceof Decimal128)
+    assert.strictEqual(orders[0].price.add(orders[1].price).toString(), '0.3')
+    assert.strictEqual(await Order.countDocuments({ price: { $gt: '0.15' } }), 1)
+    assert.strictEqual(await Order.countDocuments({ price: { $type: 'decimal' } }), 2)
+
+    const [total] = await Order.aggregate([
+      { $group: { _id: null, sum: { $sum: '$price' } } },
+      { $project: { sum: 1, doubled: { $multiply: ['$sum', { $toDecimal: '2' }] } } }
+    ])
+    assert.strictEqual(total.sum.toString(), '0.3')
+    assert.strictEqual(total.doubled.toString(), '0.6')
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(orders[0])).price, { $numberDecimal: '0.1' })
+    await assert.rejects(Order.create({ price: 'cheap' } as any), CastError)
+  })
+
+  for (const storage of ['memory', 'sqlite'] as const) {
+    await t.test(`should apply arithmetic updates to Decimal128 values on ${storage}`, async () => {
+      const dataPath = `./data/test-schema-types-arithmetic-${storage}`
+      fs.rmSync(dataPath, { recursive: true, force: true })
+      const db = createDatabase({ storage, sqlite: { dataPath } })
+      const Account = db.model('Account', new Schema({ balance: Schema.Types.Decimal128 }))
+      const account = await Account.create({ balance: '0.1' })
+
+      await Account.updateOne({ _id: account._id }, { $inc: { balance: 0.2 } } as any)
+      let stored = (await Account.findById(account._id).lean()) as any
+      assert.ok(stored.balance instanceof Decimal128)
+      assert.strictEqual(stored.balance.toString(), '0.3')
+
+      await Account.updateMany({}, { $mul: { balance: '3' }, $dec: { missing: 1 } } as any)
+      await Account.updateOne({ _id: account._id }, { $dec: { balance: '0.05' } } as any)
+      stored = (await Account.findById(account._id).lean()) as any
+      assert.strictEqual(stored.balance.toString(), '0.85')
+      assert.strictEqual(stored.missing, -1)
+
+      await db.disconnect()
+      fs.rmSync(dataPath, { recursive: true, force: true })
+    })
+  }
+
+  await t.test('should cast Buffer and UUID values', async () => {
+    const File = model('BinaryFile', new Schema({ data: Buffer, token: Schema.Types.UUID }))
+    const token = new UUID()
+    const created = await File.create({ data: 'hello', token: token.toString() } as any)
+
+    const stored = (await File.findById(created._id).lean()) as any
+    assert.ok(Buffer.isBuffer(stored.data))
+    assert.strictEqual(stored.data.toString('utf8'), 'hello')
+    assert.ok(stored.token instanceof UUID)
+    assert.ok(stored.token.equals(token))
+    assert.strictEqual(await File.countDocuments({ token: token.toString() } as any), 1)
+    await assert.rejects(File.create({ token: 'not-a-uuid' } as any), CastError)
+  })
+
+  for (const storage of ['sqlite', 'file'] as const) {
+    await t.test(`should round-trip the types through ${storage} storage`, async () => {
+      const dataPath = `./data/test-schema-types-${storage}`
+      fs.rmSync(dataPath, { recursive: true, force: true })
+      const token = new UUID()
+      const writer = createDatabase({ storage, [storage]: { dataPath, persistMode: 'immediate' } })
+      const Writer = writer.model('Sample', typesSchema())
+      await Writer.create({
+        scores: { math: 90 },
+        extra: { any: ['thing'] },
+        price: '19.990',
+        avatar: Buffer.from([1, 2, 3]),
+        token
+      })
+      await writer.disconnect()
+
+      const reader = createDatabase({ storage, [storage]: { dataPath } })
+      const Reader = reader.model('Sample', typesSchema())
+      const sample = (await Reader.findOne({ price: '19.99' })) as any
+      assert.ok(sample.scores instanceof SchemaMap)
+      assert.strictEqual(sample.scores.get('math'), 90)
+      assert.deepStrictEqual(sample.extra, { any: ['thing'] })
+      assert.ok(sample.price instanceof Decimal128)
+      assert.strictEqual(sample.price.toString(), '19.990')
+      assert.deepStrictEqual([...sample.avatar], [1, 2, 3])
+      assert.ok(sample.token instanceof UUID)
+      assert.ok(sample.token.equals(token))
+      await reader.disconnect()
+      fs.rmSync(dataPath, { recursive: true, force: true })
+    })
+  }
+})
@@ -1231,4 +1231,259 @@ describe('SQLite Native SQL Execution', () => {
     assert.strictEqual(inactiveResults.length, 1)
     assert.strictEqual(inactiveResults[0].name, 'Bob')
   })
+
+  it('should translate $type, $mod and $bits operators to SQL', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const TestModel = db.model('NativeTypes', new Schema({}))
+
+    await TestModel.insertMany([
+      { name: 'a', value: 'text', flags: 0b011 },
+      { name: 'b', value: 42, flags: 0b111 },
+      { name: 'c', value: 4.5, flags: 0 },
+      { name: 'd', value: [1, 'x'], flags: 0b100 },
+      { name: 'e', value: null }
+    ])
+
+    const names = async (query: Record<string, unknown>) =>
+      (await TestModel.find(query).sort({ name: 1 })).map(doc => doc.name)
+
+    assert.deepStrictEqual(await names({ value: { $type: 'string' } }), ['a', 'd'])
+    assert.deepStrictEqual(await names({ value: { $type: ['int', 'null'] } }), ['b', 'd', 'e'])
+    assert.deepStrictEqual(await names({ value: { $type: 1 } }), ['c'])
+    assert.deepStrictEqual(await names({ value: { $mod: [4, 2] } }), ['b'])
+    assert.deepStrictEqual(await names({ flags: { $bitsAllSet: [0, 1] } }), ['a', 'b'])
+    assert.deepStrictEqual(await names({ flags: { $bitsAnyClear: 0b011 } }), ['c', 'd'])
+    assert.strictEqual(await TestModel.countDocuments({ flags: { $bitsAllClear: 0b010 } }), 2)
+  })
+
+  it('should run $jsonSchema and $where in JavaScript', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const TestModel = db.model('NativeSchemaQuery', new Schema({}))
+
+    await TestModel.insertMany([
+      { name: 'Alice', age: 25, tags: ['a'] },
+      { name: 'Bob', age: 'unknown' },
+      { name: 'Charlie', age: 40, tags: ['a', 'a'] }
+    ])
+
+    const valid = await TestModel.find({
+      $jsonSchema: {
+        required: ['age'],
+        properties: { age: { bsonType: 'number' }, tags: { uniqueItems: true } }
+      }
+    })
+    assert.deepStrictEqual(
+      valid.map(doc => doc.name),
+      ['Alice']
+    )
+
+    const older = await TestModel.find({
+      $where: function (this: { age: unknown }) {
+        return typeof this.age === 'number' && this.age > 30
+      }
+    })
+    assert.deepStrictEqual(
+      older.map(doc => doc.name),
+      ['Charlie']
+    )
+
+    const deleted = await TestModel.deleteMany({
+      $jsonSchema: { properties: { age: { bsonType: 'string' } } },
+      name: { $ne: 'Alice' }
+    })
+    assert.strictEqual(deleted.deletedCount, 1)
+    assert.strictEqual(await TestModel.countDocuments(), 2)
+  })
+
+  it('should check $jsonSchema bsonTypes against the schema types', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const TestModel = db.model(
+      'NativeSchemaTypes',
+      new Schema({ name: String, born: Date, owner: Schema.Types.ObjectId })
+    )
+
+    const owner = await TestModel.create({ name: 'Owner', born: new Date('1980-01-01') })
+    await TestModel.create({ name: 'Pet', born: new Date('2020-01-01'), owner: owner._id })
+
+    const owned = await TestModel.find({
+      $jsonSchema: {
+        required: ['owner'],
+        properties: {
+          _id: { bsonType: 'objectId' },
+          born: { bsonType: 'date' },
+          owner: { bsonType: 'objectId' }
+        }
+      }
+    })
+    assert.deepStrictEqual(
+      owned.map(doc => doc.name),
+      ['Pet']
+    )
+    assert.strictEqual(
+      await TestModel.countDocuments({
+        $jsonSchema: { properties: { born: { bsonType: 'string' } } }
+      }),
+      0
+    )
+  })
+
+  it('should apply $mul, $min, $max, $bit and $pullAll like the JavaScript path', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const memoryDb = createDatabase({ storage: 'memory' })
+    const seed = [
+      { name: 'Alice', score: 4, best: 10, flags: 6, tags: ['a', 'b', 'a', 'c'] },
+      { name: 'Bob', score: 7, best: 3, flags: 1, tags: ['b'] }
+    ]
+    const update = {
+      $set: { reviewed: true },
+      $mul: { score: 2, bonus: 3 },
+      $min: { best: 5 },
+      $max: { score: 12 },
+      $bit: { flags: { and: 3, xor: 8 } },
+      $pullAll: { tags: ['a', 'b'] }
+    }
+
+    const results = []
+    for (const database of [db, memoryDb]) {
+      const TestModel = database.model('NativeRicherUpdate', new Schema({}))
+      await TestModel.insertMany(seed.map(doc => ({ ...doc, tags: [...doc.tags] })))
+      await TestModel.updateMany({ score: { $gte: 0 } }, update as any)
+      const docs = await TestModel.find({}).sort({ name: 1 }).lean()
+      results.push(docs.map(({ _id, ...doc }) => ({ ...doc })))
+    }
+
+    assert.deepStrictEqual(results[0], results[1])
+    assert.deepStrictEqual(results[0][0], {
+      name: 'Alice',
+      score: 12,
+      best: 5,
+      flags: 10,
+      tags: ['c'],
+      reviewed: true,
+      bonus: 0,
+      __v: 1
+    })
+  })
+
+  it('should apply positional updates with arrayFilters', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const TestModel = db.model('NativePositionalUpdate', new Schema({}))
+    await TestModel.insertMany([
+      {
+        name: 'Alice',
+        items: [
+          { sku: 'A', qty: 1 },
+          { sku: 'B', qty: 5 }
+        ]
+      },
+      { name: 'Bob', items: [{ sku: 'B', qty: 2 }] }
+    ])
+
+    await TestModel.updateOne(
+      { name: 'Alice', items: { $elemMatch: { sku: 'B' } } },
+      { $inc: { 'items.$.qty': 1 } }
+    )
+    await TestModel.updateMany(
+      {},
+      { $set: { 'items.$[item].seen': true } },
+      { arrayFilters: [{ 'item.sku': 'B' }] }
+    )
+
+    const docs = (await TestModel.find({}).sort({ name: 1 }).lean()) as any[]
+    assert.deepStrictEqual(docs[0].items, [
+      { sku: 'A', qty: 1 },
+      { sku: 'B', qty: 6, seen: true }
+    ])
+    assert.deepStrictEqual(docs[1].items, [{ sku: 'B', qty: 2, seen: true }])
+  })
+
+  it('should match dotted paths through arrays in SQL', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const TestModel = db.model('NativeArrayPaths', new Schema({}))
+    await TestModel.insertMany([
+      {
+        name: 'Alice',
+        items: [
+          { sku: 'A', qty: 1, tags: [{ label: 'x' }] },
+          { sku: 'B', qty: 2 }
+        ]
+      },
+      { name: 'Bob', items: [{ sku: 'C', qty: 5 }], address: { city: 'Oslo' } }
+    ])
+
+    const result = await TestModel.updateOne({ 'items.sku': 'B' }, { $set: { 'items.$.qty': 9 } })
+    assert.strictEqual(result.matchedCount, 1)
+
+    const names = async (query: Record<string, unknown>) =>
+      ((await TestModel.find(query).sort({ name: 1 }).lean()) as any[]).map(doc => doc.name)
+    assert.deepStrictEqual(await names({ 'items.qty': { $gt: 8 } }), ['Alice'])
+    assert.deepStrictEqual(await names({ 'items.sku': { $in: ['A', 'C'] } }), ['Alice', 'Bob'])
+    assert.deepStrictEqual(await names({ 'items.sku': { $ne: 'B' } }), ['Bob'])
+    assert.deepStrictEqual(await names({ 'items.price': { $exists: false } }), ['Alice', 'Bob'])
+    assert.deepStrictEqual(await names({ 'items.tags.label': 'x' }), ['Alice'])
+    assert.deepStrictEqual(await names({ 'items.0.sku': 'C' }), ['Bob'])
+    assert.deepStrictEqual(await names({ 'address.city': 'Oslo' }), ['Bob'])
+    assert.strictEqual(await TestModel.countDocuments({ 'items.sku': 'A' }), 1)
+  })
+
+  it('should apply $push and $addToSet modifiers like the JavaScript path', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const memoryDb = createDatabase({ storage: 'memory' })
+    const seed = [
+      { name: 'Alice', scores: [5, 1], tags: ['a'], events: [{ at: 1 }, { at: 3 }] },
+      { name: 'Bob', scores: [], tags: ['b', 'c'], events: [] }
+    ]
+    const update = {
+      $push: {
+        scores: { $each: [9, 7], $position: -1 },
+        events: { $each: [{ at: 4 }, { at: 2 }], $sort: { at: -1 }, $slice: 3 },
+        recent: { $each: ['x', 'y', 'z'], $sort: -1, $slice: -2 }
+      },
+      $addToSet: { tags: { $each: ['c', 'd', 'd'] }, roles: 'user' }
+    }
+
+    const results = []
+    for (const database of [db, memoryDb]) {
+      const TestModel = database.model('NativeArrayModifiers', new Schema({}))
+      await TestModel.insertMany(structuredClone(seed))
+      await TestModel.updateMany({ name: { $ne: 'Nobody' } }, update as any)
+      const docs = await TestModel.find({}).sort({ name: 1 }).lean()
+      results.push(docs.map(({ _id, ...doc }) => ({ ...doc })))
+    }
+
+    assert.deepStrictEqual(results[0], results[1])
+    assert.deepStrictEqual(results[0][0], {
+      name: 'Alice',
+      scores: [5, 9, 7, 1],
+      tags: ['a', 'c', 'd'],
+      events: [{ at: 4 }, { at: 3 }, { at: 2 }],
+      recent: ['y', 'x'],
+      roles: ['user'],
+      __v: 1
+    })
+    assert.deepStrictEqual(results[0][1].scores, [9, 7])
+  })
+
+  it('should apply pipeline-style updates', async () => {
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath: testDir } })
+    const TestModel = db.model('NativePipelineUpdate', new Schema({}))
+    await TestModel.insertMany([
+      { name: 'Alice', price: 10, tax: 2 },
+      { name: 'Bob', price: 4, tax: 1 }
+    ])
+
+    await TestModel.updateMany({ price: { $gt: 5 } }, [
+      { $set: { total: { $add: ['$price', '$tax'] } } },
+      { $unset: 'tax' }
+    ])
+
+    const docs = (await TestModel.find({}).sort({ name: 1 }).lean()) as any[]
+    assert.deepStrictEqual(
+      docs.map(({ _id, ...doc }) => doc),
+      [
+        { name: 'Alice', price: 10, total: 12, __v: 0 },
+        { name: 'Bob', price: 4, tax: 1, __v: 0 }
+      ]
+    )
+  })
 })
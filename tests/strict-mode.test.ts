@@ -0,0 +1,133 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import { Schema, model, clearRegistry, createDatabase, StrictModeError } from '../index'
+
+function accountSchema(strict: boolean | 'throw') {
+  const address = new Schema({ city: String })
+  return new Schema(
+    { name: String, address, contacts: [address], meta: {} },
+    { strict, timestamps: true }
+  )
+}
+
+test('Strict Mode', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should keep unknown fields by default', async () => {
+    const User = model('StrictDefault', new Schema({ name: String }))
+    const user = await User.create({ name: 'Alice', nickname: 'Al' } as any)
+    await User.updateOne({ _id: user._id }, { $set: { age: 30 } } as any)
+
+    const stored = (await User.findById(user._id).lean()) as any
+    assert.strictEqual(stored.nickname, 'Al')
+    assert.strictEqual(stored.age, 30)
+  })
+
+  await t.test('should drop unknown fields, including in subdocuments', async () => {
+    const Account = model('StrictDrop', accountSchema(true))
+    const account = await Account.create({
+      name: 'Alice',
+      nmae: 'typo',
+      address: { city: 'Paris', zip: '75001' },
+      contacts: [{ city: 'Lyon', phone: '123' }],
+      meta: { anything: true }
+    } as any)
+
+    const stored = (await Account.findById(account._id).lean()) as any
+    assert.deepStrictEqual(Object.keys(stored).sort(), [
+      '__v',
+      '_id',
+      'address',
+      'contacts',
+      'createdAt',
+      'meta',
+      'name',
+      'updatedAt'
+    ])
+    assert.deepStrictEqual(stored.address, { city: 'Paris' })
+    assert.deepStrictEqual(stored.contacts, [{ city: 'Lyon' }])
+    assert.deepStrictEqual(stored.meta, { anything: true })
+  })
+
+  await t.test('should drop unknown paths from update operators and save', async () => {
+    const Account = model('StrictUpdate', accountSchema(true))
+    const account = await Account.create({ name: 'Alice' })
+
+    await Account.updateOne({ _id: account._id }, {
+      $set: { name: 'Alicia', age: 30, 'address.city': 'Paris', 'address.zip': '1' },
+      $push: { contacts: { city: 'Lyon', phone: '123' } },
+      $inc: { visits: 1 }
+    } as any)
+
+    const doc = (await Account.findById(account._id)) as any
+    doc.typo = true
+    doc.name = 'Ally'
+    await doc.save()
+
+    const stored = (await Account.findById(account._id).lean()) as any
+    assert.strictEqual(stored.name, 'Ally')
+    assert.deepStrictEqual(stored.address, { city: 'Paris' })
+    assert.deepStrictEqual(stored.contacts, [{ city: 'Lyon' }])
+    assert.strictEqual('age' in stored, false)
+    assert.strictEqual('visits' in stored, false)
+    assert.strictEqual('typo' in stored, false)
+  })
+
+  await t.test("should throw for unknown paths with strict: 'throw'", async () => {
+    const Account = model('StrictThrow', accountSchema('throw'))
+
+    await assert.rejects(Account.create({ name: 'Alice', nmae: 'typo' } as any), (error: Error) => {
+      assert.ok(error instanceof StrictModeError)
+      assert.strictEqual(error.path, 'nmae')
+      assert.strictEqual(
+        error.message,
+        'Field `nmae` is not in schema and strict mode is set to throw.'
+      )
+      return true
+    })
+    await assert.rejects(Account.create({ address: { zip: '1' } } as any), {
+      name: 'StrictModeError',
+      path: 'address.zip'
+    })
+
+    const account = await Account.create({ name: 'Alice' })
+    await assert.rejects(
+      Account.updateOne({ _id: account._id }, { $set: { 'contacts.0.phone': '1' } } as any).exec(),
+      { name: 'StrictModeError', path: 'contacts.0.phone' }
+    )
+    assert.strictEqual(await Account.countDocuments({}), 1)
+  })
+
+  await t.test('should let subdocument schemas set their own strict mode', async () => {
+    const address = new Schema({ city: String }, { strict: false })
+    const User = model('StrictNested', new Schema({ name: String, address }, { strict: 'throw' }))
+
+    const user = await User.create({ name: 'Alice', address: { city: 'Paris', zip: '1' } } as any)
+    assert.deepStrictEqual(user.address, { city: 'Paris', zip: '1' })
+  })
+
+  await t.test('should apply strictQuery to filters', async () => {
+    const dataPath = './data/test-strict-query-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Loose = db.model('Loose', new Schema({ name: String }, { strictQuery: true }))
+    const Strict = db.model('Strict', new Schema({ name: String }, { strictQuery: 'throw' }))
+    await Loose.insertMany([{ name: 'Alice' }, { name: 'Bob' }])
+
+    // The unknown condition is removed, so every document matches
+    assert.strictEqual(await Loose.countDocuments({ nmae: 'Alice' } as any), 2)
+    assert.strictEqual(
+      await Loose.countDocuments({ $or: [{ name: 'Alice' }, { nmae: 'x' }] } as any),
+      2
+    )
+
+    await assert.rejects(Strict.find({ nmae: 'Alice' } as any).exec(), {
+      name: 'StrictModeError',
+      message: 'Path "nmae" is not in schema and strictQuery is \'throw\''
+    })
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,412 @@
+import { test } from 'node:test'
+import assert from 'node:assert'
+import * as fs from 'fs'
+import {
+  Schema,
+  createDatabase,
+  startSession,
+  model,
+  clearRegistry,
+  ClientSession,
+  WriteConflictError
+} from '../index'
+
+interface Account {
+  owner: string
+  balance: number
+}
+
+const accountSchema = () =>
+  new Schema<Account>({
+    owner: { type: String, required: true, unique: true },
+    balance: { type: Number, min: 0 }
+  })
+
+test('Transactions', async t => {
+  t.beforeEach(async () => await clearRegistry())
+
+  await t.test('should commit writes across multiple models', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    const Transfer = db.model('Transfer', new Schema({}))
+    await Account.insertMany([
+      { owner: 'alice', balance: 100 },
+      { owner: 'bob', balance: 50 }
+    ])
+
+    const session = db.startSession()
+    await session.withTransaction(async () => {
+      await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -30 } }, { session })
+      await Account.updateOne({ owner: 'bob' }, { $inc: { balance: 30 } }, { session })
+      await Transfer.create({ from: 'alice', to: 'bob', amount: 30 }, { session })
+    })
+    await session.endSession()
+
+    const alice = await Account.findOne({ owner: 'alice' })
+    const bob = await Account.findOne({ owner: 'bob' })
+    assert.strictEqual(alice?.balance, 70)
+    assert.strictEqual(bob?.balance, 80)
+    assert.strictEqual(await Transfer.countDocuments(), 1)
+  })
+
+  await t.test('should roll back all writes when the callback throws', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    const Transfer = db.model('Transfer', new Schema({}))
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    await assert.rejects(
+      session.withTransaction(async () => {
+        await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -30 } }, { session })
+        await Transfer.create({ from: 'alice', amount: 30 }, { session })
+        await Account.deleteMany({}, { session })
+        throw new Error('boom')
+      }),
+      /boom/
+    )
+
+    assert.strictEqual(session.inTransaction(), false)
+    const alice = await Account.findOne({ owner: 'alice' })
+    assert.strictEqual(alice?.balance, 100)
+    assert.strictEqual(await Transfer.countDocuments(), 0)
+  })
+
+  await t.test('should report failures to abort', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    const storage = (Account as any)._storage
+    const beginTransaction = storage.beginTransaction.bind(storage)
+    storage.beginTransaction = async () => {
+      const transaction = await beginTransaction()
+      transaction.abort = async () => {
+        throw new Error('abort failed')
+      }
+      return transaction
+    }
+
+    const session = db.startSession()
+    const error = await session
+      .withTransaction(async () => {
+        await Account.create({ owner: 'alice', balance: 1 }, { session })
+        throw new Error('boom')
+      })
+      .catch(error => error)
+    assert.strictEqual(error.message, 'boom')
+    assert.strictEqual(error.abortError?.message, 'abort failed')
+
+    session.startTransaction()
+    await Account.create({ owner: 'bob', balance: 1 }, { session })
+    await assert.rejects(session.abortTransaction(), /abort failed/)
+    assert.strictEqual(session.inTransaction(), false)
+  })
+
+  await t.test('should leave the transaction when a commit fails', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    const Transfer = db.model('Transfer', new Schema({}))
+    const storage = (Transfer as any)._storage
+    const beginTransaction = storage.beginTransaction.bind(storage)
+    storage.beginTransaction = async () => {
+      const transaction = await beginTransaction()
+      transaction.commit = async () => {
+        throw new Error('disk full')
+      }
+      return transaction
+    }
+
+    const session = db.startSession()
+    session.startTransaction()
+    await Account.create({ owner: 'alice', balance: 1 }, { session })
+    await Transfer.create({ from: 'alice', amount: 1 }, { session })
+    await assert.rejects(session.commitTransaction(), /disk full/)
+
+    // The storage committed before the failure keeps its writes
+    assert.strictEqual(session.inTransaction(), false)
+    assert.strictEqual(await Account.countDocuments(), 1)
+    assert.strictEqual(await Transfer.countDocuments(), 0)
+    session.startTransaction()
+    await session.abortTransaction()
+  })
+
+  await t.test('should hide uncommitted writes from reads outside the session', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    session.startTransaction()
+    await Account.updateOne({ owner: 'alice' }, { $set: { balance: 10 } }, { session })
+    await Account.create({ owner: 'carol', balance: 5 }, { session })
+
+    // Reads inside the session see their own writes
+    const inside = await Account.findOne({ owner: 'alice' }).session(session)
+    assert.strictEqual(inside?.balance, 10)
+    assert.strictEqual((await Account.find({}, { session })).length, 2)
+
+    // Reads outside the session do not
+    const outside = await Account.findOne({ owner: 'alice' })
+    assert.strictEqual(outside?.balance, 100)
+    assert.strictEqual(await Account.countDocuments(), 1)
+
+    await session.abortTransaction()
+    assert.strictEqual(await Account.countDocuments(), 1)
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 100)
+  })
+
+  await t.test('should save documents through the session', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    session.startTransaction()
+    const alice = await Account.findOne({ owner: 'alice' }).session(session)
+    assert.ok(alice)
+    alice.balance = 75
+    await alice.save({ session })
+
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 100)
+    await session.commitTransaction()
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 75)
+  })
+
+  await t.test('should fail commit with WriteConflictError on concurrent writes', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    session.startTransaction()
+    await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -10 } }, { session })
+
+    // Another writer changes the same document before the commit
+    await Account.updateOne({ owner: 'alice' }, { $inc: { balance: 5 } })
+
+    await assert.rejects(session.commitTransaction(), (error: unknown) => {
+      assert.ok(error instanceof WriteConflictError)
+      assert.strictEqual(error.code, 112)
+      assert.ok(error.hasErrorLabel('TransientTransactionError'))
+      return true
+    })
+    assert.strictEqual(session.inTransaction(), false)
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 105)
+  })
+
+  await t.test('should retry withTransaction after a transient write conflict', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    let attempts = 0
+    await session.withTransaction(async () => {
+      attempts++
+      await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -10 } }, { session })
+      if (attempts === 1) {
+        await Account.updateOne({ owner: 'alice' }, { $inc: { balance: 5 } })
+      }
+    })
+
+    assert.strictEqual(attempts, 2)
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 95)
+  })
+
+  await t.test('should only check the documents a transaction wrote for conflicts', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+    await Account.insertMany([
+      { owner: 'alice', balance: 100 },
+      { owner: 'bob', balance: 50 }
+    ])
+
+    const session = db.startSession()
+    session.startTransaction()
+    await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -10 } }, { session })
+    await assert.rejects(Account.create({ owner: 'alice', balance: 1 }, { session }), /Duplicate/)
+
+    // Writes outside the session to other documents do not conflict
+    await Account.updateOne({ owner: 'bob' }, { $inc: { balance: 5 } })
+    await Account.create({ owner: 'carol', balance: 1 })
+    assert.strictEqual(await Account.countDocuments({}, { session }), 3)
+    await session.commitTransaction()
+
+    const docs = await Account.find({}, { sort: { owner: 1 } })
+    assert.deepStrictEqual(
+      docs.map(d => [d.owner, d.balance]),
+      [
+        ['alice', 90],
+        ['bob', 55],
+        ['carol', 1]
+      ]
+    )
+  })
+
+  await t.test('should enforce unique indexes against committed data', async () => {
+    const db = createDatabase()
+    const Account = db.model('Account', accountSchema())
+
+    const session = db.startSession()
+    session.startTransaction()
+    await Account.create({ owner: 'alice', balance: 1 }, { session })
+    await Account.create({ owner: 'alice', balance: 2 })
+
+    await assert.rejects(session.commitTransaction(), /Duplicate key/i)
+    assert.strictEqual(await Account.countDocuments(), 1)
+  })
+
+  await t.test('should reject invalid session state transitions', async () => {
+    const session = startSession()
+    assert.ok(session instanceof ClientSession)
+    await assert.rejects(session.commitTransaction(), /No transaction started/)
+
+    session.startTransaction()
+    assert.throws(() => session.startTransaction(), /already in progress/)
+
+    await session.endSession()
+    assert.strictEqual(session.inTransaction(), false)
+    assert.strictEqual(session.hasEnded, true)
+    assert.throws(() => session.startTransaction(), /ended session/)
+  })
+
+  await t.test('should run operations normally when the session has no transaction', async () => {
+    const Item = model('Item', new Schema({}))
+    const session = startSession()
+
+    await Item.create({ name: 'pen' }, { session })
+    assert.strictEqual(await Item.countDocuments({}, { session }), 1)
+    assert.strictEqual(await Item.countDocuments(), 1)
+  })
+
+  await t.test('should commit and roll back with file storage', async () => {
+    const dataPath = './data/test-transactions-file'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'file', file: { dataPath, persistMode: 'immediate' } })
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    await session.withTransaction(async () => {
+      await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -40 } }, { session })
+      await Account.create({ owner: 'bob', balance: 40 }, { session })
+    })
+    await assert.rejects(
+      session.withTransaction(async () => {
+        await Account.deleteOne({ owner: 'bob' }, { session })
+        throw new Error('abort')
+      }),
+      /abort/
+    )
+    await db.disconnect()
+
+    // Committed state survives a reload from disk
+    const reopened = createDatabase({ storage: 'file', file: { dataPath } })
+    const Reloaded = reopened.model('Account', accountSchema())
+    const docs = await Reloaded.find({}, { sort: { owner: 1 } })
+    assert.deepStrictEqual(
+      docs.map(d => [d.owner, d.balance]),
+      [
+        ['alice', 60],
+        ['bob', 40]
+      ]
+    )
+    await reopened.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  await t.test('should commit and roll back with sqlite storage', async () => {
+    const dataPath = './data/test-transactions-sqlite'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    await session.withTransaction(async () => {
+      await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -40 } }, { session })
+      await Account.create({ owner: 'bob', balance: 40 }, { session })
+    })
+
+    session.startTransaction()
+    await Account.deleteMany({}, { session })
+    assert.strictEqual(await Account.countDocuments({}, { session }), 0)
+    await session.abortTransaction()
+
+    const docs = await Account.find({}, { sort: { owner: 1 } })
+    assert.deepStrictEqual(
+      docs.map(d => [d.owner, d.balance]),
+      [
+        ['alice', 60],
+        ['bob', 40]
+      ]
+    )
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  await t.test('should isolate sqlite transactions from operations outside them', async () => {
+    const dataPath = './data/test-transactions-sqlite-isolation'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath } })
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    const session = db.startSession()
+    const owners = async (options = {}) =>
+      (await Account.find({}, { sort: { owner: 1 }, ...options })).map(d => d.owner)
+    session.startTransaction()
+    await Account.create({ owner: 'bob', balance: 40 }, { session })
+
+    // Reads outside the transaction only see committed documents
+    assert.deepStrictEqual(await owners(), ['alice'])
+    assert.deepStrictEqual(await owners({ session }), ['alice', 'bob'])
+
+    // Writes outside it wait for the transaction to finish, so the abort does not undo them
+    let written = false
+    const outside = Account.create({ owner: 'carol', balance: 10 }).then(() => {
+      written = true
+    })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    assert.strictEqual(written, false)
+
+    await session.abortTransaction()
+    await outside
+    assert.deepStrictEqual(await owners(), ['alice', 'carol'])
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+
+  await t.test('should queue sqlite transactions and time out writes outside them', async () => {
+    const dataPath = './data/test-transactions-sqlite-queue'
+    fs.rmSync(dataPath, { recursive: true, force: true })
+    const db = createDatabase({ storage: 'sqlite', sqlite: { dataPath, busyTimeout: 200 } })
+    const Account = db.model('Account', accountSchema())
+    await Account.create({ owner: 'alice', balance: 100 })
+
+    // Transactions on the same model run one after the other
+    const withdraw = (amount: number) =>
+      db.startSession().withTransaction(async session => {
+        await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -amount } }, { session })
+        await new Promise(resolve => setTimeout(resolve, 10))
+      })
+    await Promise.all([withdraw(10), withdraw(20)])
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 70)
+
+    // A write inside the transaction that does not pass the session fails instead of hanging
+    const session = db.startSession()
+    await assert.rejects(
+      session.withTransaction(async () => {
+        await Account.updateOne({ owner: 'alice' }, { $inc: { balance: -1 } }, { session })
+        await Account.create({ owner: 'bob', balance: 1 })
+      }),
+      /Timed out after 200ms waiting for the open transaction on Account/
+    )
+    assert.strictEqual(session.inTransaction(), false)
+    assert.strictEqual(await Account.countDocuments(), 1)
+    assert.strictEqual((await Account.findOne({ owner: 'alice' }))?.balance, 70)
+
+    await db.disconnect()
+    fs.rmSync(dataPath, { recursive: true, force: true })
+  })
+})
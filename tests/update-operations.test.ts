@@ -1,6 +1,7 @@
 import { test } from 'node:test'
 import assert from 'node:assert'
-import { model, Schema, clearRegistry } from '../index'
+import * as fs from 'fs'
+import { model, Schema, clearRegistry, createDatabase } from '../index'
 
 interface TestDoc {
   name: string
@@ -179,4 +180,376 @@ test('Update Operations', async t => {
 
     Array.prototype.find = originalFind
   })
+
+  await t.test('should update with $mul, $min and $max operators', async () => {
+    const Item = model('Item', new Schema({}))
+    await Item.create({ name: 'widget', price: 10, low: 5, high: 5, seen: new Date('2024-01-01') })
+
+    await Item.updateOne(
+      { name: 'widget' },
+      { $mul: { price: 1.5, missing: 2 }, $min: { low: 3, high: 3 }, $max: { high: 8, low: 1 } }
+    )
+    await Item.updateOne(
+      { name: 'widget' },
+      { $max: { seen: new Date('2025-01-01'), first: 1 }, $min: { seen: new Date('2020-01-01') } }
+    )
+
+    const item = await Item.findOne({ name: 'widget' }).lean()
+    assert.strictEqual(item?.price, 15)
+    assert.strictEqual(item?.missing, 0)
+    assert.strictEqual(item?.low, 3)
+    assert.strictEqual(item?.high, 8)
+    assert.strictEqual(item?.first, 1)
+    assert.strictEqual((item?.seen as Date).getTime(), new Date('2025-01-01').getTime())
+
+    // No change when the value does not beat the current one
+    const result = await Item.updateOne({ name: 'widget' }, { $min: { low: 10 } })
+    assert.strictEqual(result.modifiedCount, 0)
+  })
+
+  await t.test('should update with $currentDate operator', async () => {
+    const User = model('User', new Schema<TestDoc>({}))
+    await User.create({ name: 'Alice', age: 25 })
+
+    const before = Date.now()
+    await User.updateOne(
+      { name: 'Alice' },
+      { $currentDate: { lastSeen: true, touched: { $type: 'timestamp' } } as any }
+    )
+
+    const user = (await User.findOne({ name: 'Alice' }).lean()) as any
+    assert.ok(user.lastSeen instanceof Date)
+    assert.ok(user.lastSeen.getTime() >= before)
+    assert.strictEqual(typeof user.touched, 'number')
+  })
+
+  await t.test('should only apply $setOnInsert when upserting', async () => {
+    const User = model('User', new Schema<TestDoc>({}))
+    const update = { $set: { age: 30 }, $setOnInsert: { city: 'NYC' } }
+
+    const inserted = await User.updateOne({ name: 'Alice' }, update, { upsert: true })
+    assert.strictEqual(inserted.upsertedCount, 1)
+    assert.strictEqual((await User.findOne({ name: 'Alice' }))?.city, 'NYC')
+
+    await User.updateOne({ name: 'Alice' }, { $set: { age: 31 }, $setOnInsert: { city: 'LA' } })
+    const updated = await User.findOne({ name: 'Alice' })
+    assert.strictEqual(updated?.age, 31)
+    assert.strictEqual(updated?.city, 'NYC')
+
+    const created = await User.findOneAndUpdate(
+      { name: 'Bob' },
+      { $setOnInsert: { city: 'Paris', age: 40 } },
+      { upsert: true, new: true }
+    )
+    assert.strictEqual(created?.city, 'Paris')
+  })
+
+  await t.test('should update with $pullAll operator', async () => {
+    const Post = model('Post', new Schema({}))
+    await Post.create({ title: 'a', tags: ['x', 'y', 'x', 'z'], refs: [{ id: 1 }, { id: 2 }] })
+
+    await Post.updateOne({ title: 'a' }, { $pullAll: { tags: ['x', 'z'], refs: [{ id: 2 }] } })
+
+    const post = await Post.findOne({ title: 'a' })
+    assert.deepStrictEqual(post?.tags, ['y'])
+    assert.deepStrictEqual(post?.refs, [{ id: 1 }])
+  })
+
+  await t.test('should update with $bit operator', async () => {
+    const Flags = model('Flags', new Schema({}))
+    await Flags.create({ name: 'f', mask: 0b1010 })
+
+    await Flags.updateOne(
+      { name: 'f' },
+      { $bit: { mask: { and: 0b1110, or: 0b0001 }, fresh: { xor: 5 } } }
+    )
+
+    const flags = await Flags.findOne({ name: 'f' })
+    assert.strictEqual(flags?.mask, 0b1011)
+    assert.strictEqual(flags?.fresh, 5)
+  })
+
+  await t.test('should update the first matched array element with $', async () => {
+    const Order = model('Order', new Schema({}))
+    await Order.create({
+      ref: 'o1',
+      scores: [3, 8, 8],
+      items: [
+        { sku: 'A', qty: 1 },
+        { sku: 'B', qty: 2 }
+      ]
+    })
+
+    await Order.updateOne({ ref: 'o1', scores: { $in: [8] } }, { $set: { 'scores.$': 9 } })
+    await Order.updateOne(
+      { ref: 'o1', items: { $elemMatch: { sku: 'B' } } },
+      { $inc: { 'items.$.qty': 5 } }
+    )
+    await Order.updateOne(
+      { items: { $elemMatch: { sku: 'A', qty: { $lt: 5 } } } },
+      { $set: { 'items.$.flagged': true } }
+    )
+
+    const order = (await Order.findOne({ ref: 'o1' }).lean()) as any
+    assert.deepStrictEqual(order.scores, [3, 9, 8])
+    assert.deepStrictEqual(order.items, [
+      { sku: 'A', qty: 1, flagged: true },
+      { sku: 'B', qty: 7 }
+    ])
+
+    await assert.rejects(
+      Order.updateOne({ ref: 'o1' }, { $set: { 'items.$.qty': 0 } }).exec(),
+      /positional operator did not find the match/
+    )
+  })
+
+  await t.test(
+    'should update all elements with $[] and filtered ones with arrayFilters',
+    async () => {
+      const Order = model('Order', new Schema({}))
+      await Order.insertMany([
+        { ref: 'o1', grades: [80, 95, 100], items: [{ qty: 1 }, { qty: 20 }] },
+        { ref: 'o2', grades: [99], items: [{ qty: 30 }] }
+      ])
+
+      await Order.updateMany({}, { $inc: { 'items.$[].qty': 1 } })
+      const result = await Order.updateMany(
+        {},
+        { $set: { 'grades.$[high]': 100, 'items.$[big].bulk': true } },
+        { arrayFilters: [{ high: { $gte: 95 } }, { 'big.qty': { $gt: 10 } }] }
+      )
+      assert.strictEqual(result.modifiedCount, 2)
+
+      const orders = (await Order.find({}).sort({ ref: 1 }).lean()) as any[]
+      assert.deepStrictEqual(orders[0].grades, [80, 100, 100])
+      assert.deepStrictEqual(orders[0].items, [{ qty: 2 }, { qty: 21, bulk: true }])
+      assert.deepStrictEqual(orders[1].grades, [100])
+      assert.deepStrictEqual(orders[1].items, [{ qty: 31, bulk: true }])
+
+      await assert.rejects(
+        Order.updateOne({ ref: 'o1' }, { $set: { 'grades.$[x]': 0 } }).exec(),
+        /No array filter found for identifier 'x'/
+      )
+    }
+  )
+
+  await t.test('should apply positional updates in findOneAndUpdate and bulkWrite', async () => {
+    const Course = model('Course', new Schema({}))
+    await Course.create({
+      name: 'math',
+      students: [
+        { name: 'ann', grades: [70, 90] },
+        { name: 'bob', grades: [60, 85] }
+      ]
+    })
+
+    const updated = (await Course.findOneAndUpdate(
+      { name: 'math' },
+      { $set: { 'students.$[s].grades.$[g]': 100 } },
+      { new: true, arrayFilters: [{ 's.name': 'bob' }, { g: { $gt: 80 } }] }
+    ).lean()) as any
+    assert.deepStrictEqual(updated.students[1].grades, [60, 100])
+    assert.deepStrictEqual(updated.students[0].grades, [70, 90])
+
+    await Course.bulkWrite([
+      {
+        updateOne: {
+          filter: { name: 'math' },
+          update: { $push: { 'students.$[s].grades': 50 } },
+          arrayFilters: [{ 's.name': 'ann' }]
+        }
+      }
+    ])
+    const course = (await Course.findOne({ name: 'math' }).lean()) as any
+    assert.deepStrictEqual(course.students[0].grades, [70, 90, 50])
+  })
+
+  for (const storage of ['file', 'sqlite'] as const) {
+    await t.test(`should persist positional findOneAndUpdate updates on ${storage}`, async () => {
+      const dataPath = `./data/test-update-positional-${storage}`
+      fs.rmSync(dataPath, { recursive: true, force: true })
+      const config = { storage, [storage]: { dataPath, persistMode: 'immediate' as const } }
+      const db = createDatabase(config)
+      const Order = db.model('Order', new Schema({}))
+      await Order.create({
+        ref: 'o1',
+        items: [
+          { sku: 'A', qty: 1 },
+          { sku: 'B', qty: 2 }
+        ]
+      })
+
+      const updated = (await Order.findOneAndUpdate(
+        { ref: 'o1' },
+        { $set: { 'items.$[item].qty': 9 } },
+        { new: true, arrayFilters: [{ 'item.sku': 'B' }] }
+      ).lean()) as any
+      assert.deepStrictEqual(updated.items[1], { sku: 'B', qty: 9 })
+      await Order.findOneAndUpdate({ ref: 'o1' }, { $push: { items: { sku: 'C', qty: 3 } } })
+      await db.disconnect()
+
+      const reader = createDatabase(config)
+      const stored = (await reader.model('Order', new Schema({})).findOne({}).lean()) as any
+      assert.deepStrictEqual(stored.items, [
+        { sku: 'A', qty: 1 },
+        { sku: 'B', qty: 9 },
+        { sku: 'C', qty: 3 }
+      ])
+      await reader.disconnect()
+      fs.rmSync(dataPath, { recursive: true, force: true })
+    })
+  }
+
+  for (const storage of ['memory', 'file'] as const) {
+    await t.test(`should match dotted paths through arrays on ${storage}`, async () => {
+      const dataPath = `./data/test-update-array-paths-${storage}`
+      fs.rmSync(dataPath, { recursive: true, force: true })
+      const db = createDatabase({ storage, file: { dataPath, persistMode: 'immediate' } })
+      const Order = db.model('Order', new Schema({}))
+      await Order.insertMany([
+        {
+          ref: 'o1',
+          items: [
+            { sku: 'A', qty: 1 },
+            { sku: 'B', qty: 2 }
+          ]
+        },
+        { ref: 'o2', items: [{ sku: 'C', qty: 5 }] }
+      ])
+
+      const result = await Order.updateOne({ 'items.sku': 'B' }, { $set: { 'items.$.qty': 9 } })
+      assert.strictEqual(result.matchedCount, 1)
+      const order = (await Order.findOne({ ref: 'o1' }).lean()) as any
+      assert.deepStrictEqual(order.items, [
+        { sku: 'A', qty: 1 },
+        { sku: 'B', qty: 9 }
+      ])
+
+      const refs = async (query: Record<string, unknown>) =>
+        ((await Order.find(query).sort({ ref: 1 }).lean()) as any[]).map(doc => doc.ref)
+      assert.deepStrictEqual(await refs({ 'items.qty': { $gt: 8 } }), ['o1'])
+      assert.deepStrictEqual(await refs({ 'items.sku': { $in: ['A', 'C'] } }), ['o1', 'o2'])
+      assert.deepStrictEqual(await refs({ 'items.sku': { $ne: 'B' } }), ['o2'])
+      assert.deepStrictEqual(await refs({ 'items.price': { $exists: false } }), ['o1', 'o2'])
+      assert.deepStrictEqual(await refs({ 'items.0.sku': 'C' }), ['o2'])
+
+      await db.disconnect()
+      fs.rmSync(dataPath, { recursive: true, force: true })
+    })
+  }
+
+  await t.test('should update nested fields with dot notation', async () => {
+    const User = model('User', new Schema({}))
+    await User.create({ name: 'Alice', address: { city: 'NYC', zip: '10001' } })
+
+    await User.updateOne(
+      { name: 'Alice' },
+      { $set: { 'address.city': 'LA', 'profile.bio': 'hi' }, $unset: { 'address.zip': 1 } }
+    )
+
+    const user = (await User.findOne({ name: 'Alice' }).lean()) as any
+    assert.deepStrictEqual(user.address, { city: 'LA' })
+    assert.deepStrictEqual(user.profile, { bio: 'hi' })
+  })
+
+  await t.test('should apply $push modifiers $each, $position, $sort and $slice', async () => {
+    const Feed = model('Feed', new Schema({}))
+    await Feed.create({
+      owner: 'alice',
+      scores: [5, 1],
+      events: [
+        { type: 'login', at: 1 },
+        { type: 'view', at: 3 }
+      ]
+    })
+
+    await Feed.updateOne({ owner: 'alice' }, {
+      $push: {
+        scores: { $each: [9, 7], $position: 1 },
+        events: {
+          $each: [
+            { type: 'click', at: 4 },
+            { type: 'logout', at: 2 }
+          ],
+          $sort: { at: -1 },
+          $slice: 3
+        },
+        recent: { $each: ['a', 'b', 'c'], $slice: -2 }
+      }
+    } as any)
+
+    const feed = (await Feed.findOne({ owner: 'alice' }).lean()) as any
+    assert.deepStrictEqual(feed.scores, [5, 9, 7, 1])
+    assert.deepStrictEqual(
+      feed.events.map((e: { at: number }) => e.at),
+      [4, 3, 2]
+    )
+    assert.deepStrictEqual(feed.recent, ['b', 'c'])
+
+    await Feed.updateOne({ owner: 'alice' }, {
+      $push: { scores: { $each: [0], $position: -1, $sort: 1 } }
+    } as any)
+    assert.deepStrictEqual(
+      ((await Feed.findOne({ owner: 'alice' }).lean()) as any).scores,
+      [0, 1, 5, 7, 9]
+    )
+  })
+
+  await t.test('should add each missing value with $addToSet and $each', async () => {
+    const User = model('User', new Schema<TestDoc>({}))
+    await User.create({ name: 'Alice', age: 25, tags: ['a', 'b'] })
+
+    await User.updateOne({ name: 'Alice' }, {
+      $addToSet: { tags: { $each: ['b', 'c', 'c', 'd'] }, roles: { $each: [{ id: 1 }] } }
+    } as any)
+    await User.updateOne({ name: 'Alice' }, { $addToSet: { roles: { id: 1 } } } as any)
+
+    const user = (await User.findOne({ name: 'Alice' }).lean()) as any
+    assert.deepStrictEqual(user.tags, ['a', 'b', 'c', 'd'])
+    assert.deepStrictEqual(user.roles, [{ id: 1 }])
+  })
+
+  await t.test('should compute updates from document fields with an update pipeline', async () => {
+    const Order = model('Order', new Schema({}))
+    await Order.insertMany([
+      { ref: 'o1', price: 10, tax: 2, tmp: true, customer: { name: 'ann' } },
+      { ref: 'o2', price: 5, tax: 1, tmp: true, customer: { name: 'bob' } }
+    ])
+
+    const result = await Order.updateMany({}, [
+      { $set: { total: { $add: ['$price', '$tax'] }, label: { $toUpper: '$ref' } } },
+      { $unset: ['tmp', 'tax'] }
+    ])
+    assert.strictEqual(result.modifiedCount, 2)
+
+    const orders = (await Order.find({}).sort({ ref: 1 }).lean()) as any[]
+    assert.deepStrictEqual(
+      orders.map(({ _id, ...order }) => order),
+      [
+        { ref: 'o1', price: 10, customer: { name: 'ann' }, total: 12, label: 'O1', __v: 0 },
+        { ref: 'o2', price: 5, customer: { name: 'bob' }, total: 6, label: 'O2', __v: 0 }
+      ]
+    )
+
+    const replaced = (await Order.findOneAndUpdate(
+      { ref: 'o1' },
+      [{ $replaceWith: { ref: '$ref', buyer: '$customer.name' } }],
+      { new: true }
+    ).lean()) as any
+    assert.strictEqual(String(replaced._id), String(orders[0]._id))
+    assert.deepStrictEqual(
+      { ref: replaced.ref, buyer: replaced.buyer, price: replaced.price },
+      { ref: 'o1', buyer: 'ann', price: undefined }
+    )
+
+    const unchanged = await Order.updateOne({ ref: 'o2' }, [
+      { $project: { ref: 1, price: 1, customer: 1, total: 1, label: 1, __v: 1 } }
+    ])
+    assert.strictEqual(unchanged.modifiedCount, 0)
+
+    await assert.rejects(
+      Order.updateOne({ ref: 'o2' }, [{ $group: { _id: null } }] as any).exec(),
+      /\$group is not allowed in an update pipeline/
+    )
+  })
 })
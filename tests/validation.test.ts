@@ -1,6 +1,6 @@
 import { test } from 'node:test'
 import assert from 'node:assert'
-import { Schema, model, clearRegistry } from '../index'
+import { Schema, model, clearRegistry, ValidationError, ValidatorError, CastError } from '../index'
 
 interface UserDoc {
   name: string
@@ -966,4 +966,97 @@ test('Validation', async t => {
       }
     )
   })
+
+  await t.test('should collect every failing path into errors', async () => {
+    const address = new Schema({ city: { type: String, required: true } })
+    const User = model(
+      'UserAllErrors',
+      new Schema({
+        name: { type: String, required: true },
+        age: { type: Number, min: [18, '{PATH} must be {MIN} or more, got {VALUE}'] },
+        score: { type: Number, max: [10, 'At most {MAX}'] },
+        address
+      })
+    )
+
+    await assert.rejects(
+      User.create({ age: 12, score: 11, address: {} } as any),
+      (error: ValidationError) => {
+        assert.ok(error instanceof ValidationError)
+        assert.deepStrictEqual(Object.keys(error.errors).sort(), [
+          'address.city',
+          'age',
+          'name',
+          'score'
+        ])
+        const age = error.errors.age as ValidatorError
+        assert.ok(age instanceof ValidatorError)
+        assert.strictEqual(age.kind, 'min')
+        assert.strictEqual(age.path, 'age')
+        assert.strictEqual(age.value, 12)
+        assert.strictEqual(age.message, 'age must be 18 or more, got 12')
+        assert.strictEqual(error.errors.score.message, 'At most 10')
+        assert.strictEqual(error.errors.name.kind, 'required')
+        assert.strictEqual(error.errors['address.city'].kind, 'required')
+        assert.match(error.message, /address: city is required/)
+        return true
+      }
+    )
+  })
+
+  await t.test('should validate documents with validate() and validateSync()', async () => {
+    const User = model(
+      'UserDocValidate',
+      new Schema({
+        name: { type: String, minLength: 2 },
+        age: { type: Number, min: 0 },
+        email: { type: String, validate: async (v: string) => v.includes('@') }
+      })
+    )
+    const user = (await User.create({ name: 'Alice', age: 30, email: 'a@b.c' })) as any
+    await user.validate()
+    assert.strictEqual(user.validateSync(), undefined)
+
+    user.name = 'A'
+    user.age = -1
+    user.email = 'invalid'
+    const syncError = user.validateSync()
+    assert.ok(syncError instanceof ValidationError)
+    // Async validators only run in validate()
+    assert.deepStrictEqual(Object.keys(syncError.errors).sort(), ['age', 'name'])
+    await assert.rejects(user.validate(), (error: ValidationError) => {
+      assert.deepStrictEqual(Object.keys(error.errors).sort(), ['age', 'email', 'name'])
+      assert.strictEqual(error.errors.email.kind, 'user defined')
+      return true
+    })
+    assert.deepStrictEqual(Object.keys(user.validateSync(['age']).errors), ['age'])
+
+    user.age = 'old'
+    assert.ok(user.validateSync().errors.age instanceof CastError)
+
+    // Nothing was saved
+    const stored = (await User.findById(user._id).lean()) as any
+    assert.strictEqual(stored.name, 'Alice')
+  })
+
+  await t.test('should cast and validate plain objects with Model.validate()', async () => {
+    const User = model(
+      'UserModelValidate',
+      new Schema({ name: { type: String, required: true }, age: { type: Number, max: 150 } })
+    )
+
+    assert.deepStrictEqual(await User.validate({ name: 'Alice', age: '30' } as any), {
+      name: 'Alice',
+      age: 30
+    })
+    await assert.rejects(User.validate({ age: 'x' } as any), (error: ValidationError) => {
+      assert.ok(error.errors.age instanceof CastError)
+      assert.strictEqual(error.errors.name.kind, 'required')
+      return true
+    })
+    // Only the given paths
+    await User.validate({ age: 20 }, ['age'])
+    await assert.rejects(User.validate({ age: 200 }, ['age']), { name: 'ValidationError' })
+    assert.strictEqual(await User.countDocuments({}), 0)
+  })
 })